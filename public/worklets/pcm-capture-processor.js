@@ -0,0 +1,33 @@
+/**
+ * PCM Capture Processor
+ * AudioWorklet that forwards mono microphone samples to the main thread in
+ * batches of `processorOptions.batchSize` samples (default 2048), replacing the
+ * deprecated ScriptProcessorNode. Loaded by SpeechRecognitionService.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const batchSize = (options.processorOptions && options.processorOptions.batchSize) || 2048;
+    this.buffer = new Float32Array(batchSize);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.buffer[this.length++] = channel[i];
+      if (this.length === this.buffer.length) {
+        const batch = this.buffer;
+        this.port.postMessage(batch, [batch.buffer]);
+        this.buffer = new Float32Array(batch.length);
+        this.length = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,92 @@
+#!/bin/bash
+
+# Generates a short test-pattern video as MP4 renditions, an HLS ladder, a
+# DASH manifest and seek bar thumbnails under public/streams/sample, so
+# adaptive streaming and previews can be tried against files served by the
+# dev server. Requires ffmpeg.
+#
+#   ./scripts/generate-sample-stream.sh [duration-in-seconds]
+
+set -euo pipefail
+
+DURATION="${1:-60}"
+OUT="$(cd "$(dirname "$0")/.." && pwd)/public/streams/sample"
+
+# height:video bitrate
+LADDER=("1080:5000k" "720:2800k" "480:1400k")
+
+command -v ffmpeg >/dev/null || { echo "ffmpeg is required" >&2; exit 1; }
+
+rm -rf "$OUT"
+mkdir -p "$OUT/mp4" "$OUT/hls" "$OUT/dash" "$OUT/thumbnails"
+
+# 1. Progressive renditions with keyframes every 2s, so they can be segmented without re-encoding
+inputs=()
+for rung in "${LADDER[@]}"; do
+  height="${rung%%:*}"
+  bitrate="${rung##*:}"
+  ffmpeg -hide_banner -loglevel error -y \
+    -f lavfi -i "testsrc2=size=1920x1080:rate=30:duration=${DURATION}" \
+    -f lavfi -i "sine=frequency=440:duration=${DURATION}" \
+    -vf "scale=-2:${height}" \
+    -c:v libx264 -preset veryfast -b:v "$bitrate" -maxrate "$bitrate" -bufsize "$bitrate" \
+    -g 60 -keyint_min 60 -sc_threshold 0 \
+    -c:a aac -b:a 128k -ac 2 \
+    -movflags +faststart "$OUT/mp4/${height}p.mp4"
+  inputs+=(-i "$OUT/mp4/${height}p.mp4")
+done
+
+maps=()
+stream_map=()
+for i in "${!LADDER[@]}"; do
+  maps+=(-map "${i}:v" -map "${i}:a")
+  stream_map+=("v:${i},a:${i}")
+done
+
+# 2. HLS: one media playlist per rendition plus a master playlist
+ffmpeg -hide_banner -loglevel error -y "${inputs[@]}" "${maps[@]}" -c copy \
+  -f hls -hls_time 4 -hls_playlist_type vod \
+  -hls_segment_filename "$OUT/hls/%v/segment_%03d.ts" \
+  -master_pl_name master.m3u8 -var_stream_map "${stream_map[*]}" \
+  "$OUT/hls/%v/index.m3u8"
+
+# 3. DASH: all video renditions in one adaptation set, one audio track
+ffmpeg -hide_banner -loglevel error -y "${inputs[@]}" \
+  -map 0:v -map 1:v -map 2:v -map 0:a -c copy \
+  -f dash -seg_duration 4 -use_template 1 -use_timeline 1 \
+  -adaptation_sets "id=0,streams=v id=1,streams=a" \
+  "$OUT/dash/manifest.mpd"
+
+# 4. Seek bar thumbnails: a 160x90 frame every 5s tiled 10x10 per sprite sheet, and the WebVTT
+#    track pointing into them (the layout /api/thumbnails/generate describes)
+THUMB_INTERVAL=5
+ffmpeg -hide_banner -loglevel error -y -i "$OUT/mp4/480p.mp4" \
+  -vf "fps=1/${THUMB_INTERVAL},scale=160:90,tile=10x10" -start_number 0 \
+  "$OUT/thumbnails/sprite-%d.jpg"
+
+vtt_time() { printf '%02d:%02d:%02d.000' $(($1 / 3600)) $(($1 % 3600 / 60)) $(($1 % 60)); }
+{
+  echo "WEBVTT"
+  for ((i = 0; i * THUMB_INTERVAL < DURATION; i++)); do
+    start=$((i * THUMB_INTERVAL))
+    end=$(((i + 1) * THUMB_INTERVAL < DURATION ? (i + 1) * THUMB_INTERVAL : DURATION))
+    tile=$((i % 100))
+    echo
+    echo "$(vtt_time "$start") --> $(vtt_time "$end")"
+    echo "sprite-$((i / 100)).jpg#xywh=$((tile % 10 * 160)),$((tile / 10 * 90)),160,90"
+  done
+} > "$OUT/thumbnails/thumbnails.vtt"
+
+cat <<JSON
+Sample stream written to $OUT. Add these fields to a movies.json entry to play it:
+
+  "manifest": { "type": "hls", "url": "/streams/sample/hls/master.m3u8" },
+  "renditions": [
+    { "height": 1080, "bitrate": 5000000, "url": "/streams/sample/mp4/1080p.mp4" },
+    { "height": 720, "bitrate": 2800000, "url": "/streams/sample/mp4/720p.mp4" },
+    { "height": 480, "bitrate": 1400000, "url": "/streams/sample/mp4/480p.mp4" }
+  ],
+  "thumbnailsUrl": "/streams/sample/thumbnails/thumbnails.vtt"
+
+Use { "type": "dash", "url": "/streams/sample/dash/manifest.mpd" } to try DASH instead.
+JSON
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+
+// Checks a catalog file against the Movie shape (or the Series shape, for a
+// file named series*.json) before it is uploaded, with the same validator the
+// app runs when it loads the catalog. Lists every entry that would be left
+// out and every warning, and exits with 1 if any entry would be left out.
+// Movies are also checked against the episode ids in ./series.json, since
+// both are played at /watch/[id].
+//
+//   npm run validate-catalog -- [catalog-file]
+//
+// The catalog file defaults to movies.json.
+
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { fileURLToPath } from 'url';
+import { createJiti } from 'jiti';
+
+const file = process.argv[2] ?? 'movies.json';
+const catalog = basename(file).startsWith('series') ? 'series' : 'movies';
+
+const fail = (message) => {
+  console.error(message);
+  process.exit(2);
+};
+
+let data;
+try {
+  data = JSON.parse(await readFile(file, 'utf-8'));
+} catch (error) {
+  fail(`Cannot read ${file}: ${error.message}`);
+}
+
+// The validator is TypeScript written against the app's "@/" imports
+const jiti = createJiti(import.meta.url, {
+  alias: { '@': fileURLToPath(new URL('../src', import.meta.url)) },
+});
+const { validateCatalog, validateSeriesCatalog } = await jiti.import('../src/utils/catalogValidation.ts');
+
+// Episodes of the series that would be served alongside, when there are any
+const servedSeries = async () => {
+  try {
+    return validateSeriesCatalog(JSON.parse(await readFile('series.json', 'utf-8')), 'local').series;
+  } catch {
+    return [];
+  }
+};
+
+const { report } =
+  catalog === 'series'
+    ? validateSeriesCatalog(data, 'upload')
+    : validateCatalog(data, 'upload', await servedSeries());
+
+const count = (n, one, many) => `${n} ${n === 1 ? one : many}`;
+
+const describe = ({ index, entry, message }) =>
+  `  ${index === undefined ? '' : `#${index}${entry ? ` (${entry})` : ''}: `}${message}`;
+
+report.errors.forEach((issue) => console.log(describe(issue)));
+if (report.quarantined.length > 0) {
+  console.log(`\n${count(report.quarantined.length, 'entry', 'entries')} would be left out:`);
+  report.quarantined.forEach(({ errors }) => errors.forEach((issue) => console.log(describe(issue))));
+}
+if (report.warnings.length > 0) {
+  console.log(`\n${count(report.warnings.length, 'warning', 'warnings')}:`);
+  report.warnings.forEach((issue) => console.log(describe(issue)));
+}
+
+console.log(`\n${file}: ${report.valid} of ${report.total} entries valid`);
+process.exit(report.errors.length === 0 && report.quarantined.length === 0 ? 0 : 1);
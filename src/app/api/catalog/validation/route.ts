@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { fetchCatalog } from '@/services/movieCatalog';
+import { fetchSeriesCatalog, fetchSeriesData } from '@/services/seriesCatalog';
+import { validateCatalog, validateSeriesCatalog } from '@/utils/catalogValidation';
+
+/**
+ * Which catalog a request is about: movies.json, or series.json with
+ * `?catalog=series`
+ */
+const readCatalogName = (request: Request): 'movies' | 'series' | undefined => {
+  const name = new URL(request.url).searchParams.get('catalog') ?? 'movies';
+  return name === 'movies' || name === 'series' ? name : undefined;
+};
+
+const invalidCatalogName = () =>
+  NextResponse.json(
+    { error: 'Invalid request', detail: '"catalog" must be movies or series' },
+    { status: 400 }
+  );
+
+/**
+ * Validation report for the catalog being served: how many entries were
+ * read and served, the entries left out with what is wrong with each, and
+ * warnings about entries still served. Reports on movies.json, or on
+ * series.json with `?catalog=series`.
+ */
+export async function GET(request: Request) {
+  const catalog = readCatalogName(request);
+  if (!catalog) return invalidCatalogName();
+
+  try {
+    const { report } = catalog === 'series' ? await fetchSeriesCatalog() : await fetchCatalog();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error validating catalog:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Check a candidate catalog before it is uploaded, without serving it. The
+ * body is the movies.json array, or the series.json array with
+ * `?catalog=series`. Movies are also checked against the episode ids of the
+ * series being served. Responds with the same report as GET: 200 when every
+ * entry is valid, 422 when any would be left out.
+ */
+export async function POST(request: Request) {
+  const catalog = readCatalogName(request);
+  if (!catalog) return invalidCatalogName();
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await request.text());
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: `Body must be JSON: ${error instanceof Error ? error.message : error}` },
+      { status: 400 }
+    );
+  }
+
+  const { report } =
+    catalog === 'series'
+      ? validateSeriesCatalog(body, 'upload')
+      : validateCatalog(body, 'upload', await fetchSeriesData());
+  const valid = report.errors.length === 0 && report.quarantined.length === 0;
+  return NextResponse.json(report, { status: valid ? 200 : 422 });
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { findEpisode } from '@/services/seriesCatalog';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * One episode by id, with its series, season number, the episodes either
+ * side of it and every episode of the series in viewing order (see
+ * `EpisodeDetail`), or a 404.
+ */
+export async function GET(_: Request, { params }: RouteContext) {
+  try {
+    const detail = await findEpisode(params.id);
+    if (!detail) {
+      return NextResponse.json(
+        { error: 'Not found', detail: `No episode with id "${params.id}"` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(detail);
+  } catch (error) {
+    console.error('Error in GET handler:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { findMovie } from '@/services/movieCatalog';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * One movie, by id or slug. A former slug, or an id from before movies had
+ * their own, gets a permanent redirect to the current slug; anything else a 404.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const found = await findMovie(params.id);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Not found', detail: `No movie with id or slug "${params.id}"` },
+        { status: 404 }
+      );
+    }
+
+    if (found.moved) {
+      return NextResponse.redirect(new URL(`/api/movies/${encodeURIComponent(found.movie.slug)}`, request.url), 308);
+    }
+    return NextResponse.json(found.movie);
+  } catch (error) {
+    console.error('Error in GET handler:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
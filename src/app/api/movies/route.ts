@@ -1,46 +1,41 @@
 import { NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
+import { fetchMoviesData } from '@/services/movieCatalog';
+import { MOVIE_QUERY_PARAMETERS, queryMovies, readMovieQuery } from '@/utils/movieQuery';
 
 /**
- * Base URL of the public API bucket that hosts movies.json (optional).
- * If not provided, we fall back to a local copy of movies.json in the repo root.
+ * List the catalog, filtered, sorted and paged by the query string (see
+ * `MOVIE_QUERY_PARAMETERS`). Responds with an array of movies, in catalog
+ * order unless sorted. `X-Total-Count` gives how many match across all pages
+ * and, when there are more, `X-Next-Cursor` the `cursor` for the next page.
+ *
+ * With `video`, responds with the single movie using that videoURL, or 404.
+ * Unknown or invalid parameters get a 400 listing the accepted ones.
  */
-const MOVIES_API_URL = process.env.NEXT_PUBLIC_API_HOST;
+export async function GET(request: Request) {
+  const query = readMovieQuery(new URL(request.url).searchParams);
+  if (typeof query === 'string') {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: query, parameters: MOVIE_QUERY_PARAMETERS },
+      { status: 400 }
+    );
+  }
 
-/**
- * Fetch the movies data, trying the remote bucket first (if configured) and
- * falling back to the local `movies.json` file bundled with the repo.
- */
-async function fetchMoviesData() {
-  // 1. Try remote bucket if URL is supplied
-  if (MOVIES_API_URL) {
-    try {
-      const response = await fetch(`${MOVIES_API_URL}/movies.json`, {
-        headers: { 'Accept': 'application/json' },
-        next: { revalidate: 3600 },
-      });
+  try {
+    const { movies, total, nextCursor } = queryMovies(await fetchMoviesData(), query);
 
-      if (response.ok) {
-        return response.json();
+    if (query.video) {
+      if (movies.length === 0) {
+        return NextResponse.json(
+          { error: 'Not found', detail: `No movie with videoURL "${query.video}"` },
+          { status: 404 }
+        );
       }
-
-      console.warn(`Remote movies.json returned ${response.status}. Falling back to local file.`);
-    } catch (err) {
-      console.warn('Failed to fetch remote movies.json. Falling back to local file.', err);
+      return NextResponse.json(movies[0]);
     }
-  }
-
-  // 2. Fallback: read local movies.json from project root
-  const filePath = path.join(process.cwd(), 'movies.json');
-  const fileContent = await fs.readFile(filePath, 'utf-8');
-  return JSON.parse(fileContent);
-}
 
-export async function GET(request: Request) {
-  try {
-    const movies = await fetchMoviesData();
-    return NextResponse.json(movies);
+    const headers: Record<string, string> = { 'X-Total-Count': String(total) };
+    if (nextCursor) headers['X-Next-Cursor'] = nextCursor;
+    return NextResponse.json(movies, { headers });
   } catch (error) {
     console.error('Error in GET handler:', error);
     return NextResponse.json(
@@ -60,4 +55,4 @@ export async function OPTIONS() {
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
-} 
\ No newline at end of file
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { fetchMoviesData } from '@/services/movieCatalog';
+import { findEpisode } from '@/services/seriesCatalog';
+import { fileWatchProgressStore } from '@/services/watchProgressFileStore';
+import { isWatchProgress } from '@/utils/watchProgress';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Respond to a failed read or write of the progress file
+ */
+const storeError = (error: unknown) => {
+  console.error('Error accessing watch progress:', error);
+  return NextResponse.json(
+    { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+};
+
+/**
+ * Whether an id is a movie or episode in the catalog, so the progress file
+ * only ever holds one record per playable title
+ */
+const isCatalogTitle = async (titleId: string): Promise<boolean> =>
+  (await fetchMoviesData()).some(({ id }) => id === titleId) || (await findEpisode(titleId)) !== undefined;
+
+/**
+ * Watch progress for one title, 404 if it has never been played
+ */
+export async function GET(_: Request, { params }: RouteContext) {
+  try {
+    const progress = await fileWatchProgressStore.get(params.id);
+    if (!progress) {
+      return NextResponse.json(
+        { error: 'Not found', detail: `No watch progress for "${params.id}"` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(progress);
+  } catch (error) {
+    return storeError(error);
+  }
+}
+
+/**
+ * Save watch progress for a title. The body is a WatchProgress record whose
+ * `titleId` matches the URL and is the id of a movie or episode in the
+ * catalog; `updatedAt` is set by the server.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  let body: unknown;
+  try {
+    body = { ...(await request.json()), updatedAt: Date.now() };
+  } catch {
+    return NextResponse.json({ error: 'Invalid request', detail: 'Body must be JSON' }, { status: 400 });
+  }
+
+  if (!isWatchProgress(body) || body.titleId !== params.id) {
+    return NextResponse.json(
+      {
+        error: 'Invalid request',
+        detail: 'Expected { titleId, position, duration, watched } with titleId matching the URL',
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await isCatalogTitle(params.id))) {
+      return NextResponse.json(
+        { error: 'Not found', detail: `No movie or episode with id "${params.id}"` },
+        { status: 404 }
+      );
+    }
+
+    const { titleId, position, duration, updatedAt, watched } = body;
+    const progress = { titleId, position: Math.min(position, duration), duration, updatedAt, watched };
+    await fileWatchProgressStore.save(progress);
+    return NextResponse.json(progress);
+  } catch (error) {
+    return storeError(error);
+  }
+}
+
+/**
+ * Forget a title's progress, e.g. to drop it from Continue Watching
+ */
+export async function DELETE(_: Request, { params }: RouteContext) {
+  try {
+    await fileWatchProgressStore.remove(params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return storeError(error);
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
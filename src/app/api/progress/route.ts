@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { fileWatchProgressStore } from '@/services/watchProgressFileStore';
+
+/**
+ * List saved watch progress, most recently updated first.
+ * Pass `?unwatched=1` for only the titles still in progress.
+ */
+export async function GET(request: Request) {
+  try {
+    const unwatched = new URL(request.url).searchParams.get('unwatched');
+    const entries = await fileWatchProgressStore.list();
+    return NextResponse.json(unwatched ? entries.filter((entry) => !entry.watched) : entries);
+  } catch (error) {
+    console.error('Error reading watch progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { findSeries } from '@/services/seriesCatalog';
+
+interface RouteContext {
+  params: { id: string; season: string };
+}
+
+/**
+ * One season of a series with its episodes. The series is found by id or
+ * slug, and a former slug redirects like `/api/series/[id]`. A season number
+ * that is not a whole number gets a 400; one the series does not have a 404.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const number = Number(params.season);
+  if (!/^\d+$/.test(params.season) || number < 1) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: 'Season must be a whole number from 1' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const found = await findSeries(params.id);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Not found', detail: `No series with id or slug "${params.id}"` },
+        { status: 404 }
+      );
+    }
+
+    if (found.moved) {
+      const location = `/api/series/${encodeURIComponent(found.series.slug)}/seasons/${number}`;
+      return NextResponse.redirect(new URL(location, request.url), 308);
+    }
+
+    const season = found.series.seasons.find((entry) => entry.number === number);
+    if (!season) {
+      return NextResponse.json(
+        { error: 'Not found', detail: `${found.series.title} has no season ${number}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(season);
+  } catch (error) {
+    console.error('Error in GET handler:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
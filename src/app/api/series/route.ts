@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { fetchSeriesData } from '@/services/seriesCatalog';
+import { querySeries, SERIES_QUERY_PARAMETERS } from '@/utils/series';
+
+/**
+ * List the series, optionally filtered by genre, sorted and limited (see
+ * `SERIES_QUERY_PARAMETERS`). Each series comes without its episodes; get
+ * those from `/api/series/[id]`. Unknown or invalid parameters get a 400
+ * listing the accepted ones.
+ */
+export async function GET(request: Request) {
+  try {
+    const series = querySeries(await fetchSeriesData(), new URL(request.url).searchParams);
+    if (typeof series === 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request', detail: series, parameters: SERIES_QUERY_PARAMETERS },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(series, { headers: { 'X-Total-Count': String(series.length) } });
+  } catch (error) {
+    console.error('Error in GET handler:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
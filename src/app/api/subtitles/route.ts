@@ -0,0 +1,188 @@
+import { NextResponse } from 'next/server';
+import {
+  SUBTITLE_FORMATS,
+  SubtitleFormat,
+  SubtitleFormatError,
+  convertToWebVtt,
+  decodeSubtitleBytes,
+} from '@/utils/subtitleConversion';
+import { SourceError, allowedHosts, loadSource } from '@/services/assetSources';
+
+/**
+ * Largest accepted subtitle file. Feature-length subtitles are well under 1 MB.
+ */
+const MAX_SUBTITLE_BYTES = 5 * 1024 * 1024;
+
+/** Largest accepted timing offset, in either direction */
+const MAX_OFFSET_MS = 60 * 60 * 1000;
+
+/**
+ * Conversion options shared by GET and POST, read from the query string
+ */
+interface ConversionParams {
+  offsetMs: number;
+  format?: SubtitleFormat;
+  charset?: string;
+}
+
+/**
+ * Read `offset`, `format` and `charset` from the query string
+ *
+ * @returns The options, or an error message for a 400 response
+ */
+function readConversionParams(searchParams: URLSearchParams): ConversionParams | string {
+  const offset = searchParams.get('offset');
+  const offsetMs = offset === null ? 0 : Number(offset);
+  if (!Number.isInteger(offsetMs) || Math.abs(offsetMs) > MAX_OFFSET_MS) {
+    return `"offset" must be a whole number of milliseconds between -${MAX_OFFSET_MS} and ${MAX_OFFSET_MS}`;
+  }
+
+  // SSA is read by the ASS parser
+  const format = searchParams.get('format')?.toLowerCase().replace(/^ssa$/, 'ass');
+  if (format && !SUBTITLE_FORMATS.includes(format as SubtitleFormat)) {
+    return `"format" must be one of ${SUBTITLE_FORMATS.join(', ')} or ssa`;
+  }
+
+  return {
+    offsetMs,
+    format: format as SubtitleFormat | undefined,
+    charset: searchParams.get('charset') || undefined,
+  };
+}
+
+/**
+ * Decode, convert and respond with WebVTT
+ */
+function respondWithWebVtt(bytes: ArrayBuffer, { offsetMs, format, charset }: ConversionParams) {
+  if (bytes.byteLength > MAX_SUBTITLE_BYTES) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: `Subtitle file exceeds ${MAX_SUBTITLE_BYTES} bytes` },
+      { status: 413 }
+    );
+  }
+
+  let decoded;
+  try {
+    decoded = decodeSubtitleBytes(bytes, charset);
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: `Unknown charset "${charset}"` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = convertToWebVtt(decoded.text, { format, offsetMs });
+    return new NextResponse(result.vtt, {
+      headers: {
+        'Content-Type': 'text/vtt; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+        'Access-Control-Allow-Origin': '*',
+        'X-Subtitle-Source-Format': result.format,
+        'X-Subtitle-Source-Encoding': decoded.encoding,
+        'X-Subtitle-Cue-Count': String(result.cueCount),
+      },
+    });
+  } catch (error) {
+    if (error instanceof SubtitleFormatError) {
+      return NextResponse.json(
+        { error: 'Unsupported subtitle file', detail: error.message },
+        { status: 422 }
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Serve a subtitle file as WebVTT.
+ *
+ * Query parameters:
+ * - `src` (required) - path under `public/` (e.g. `/subtitles/movie.es.srt`)
+ *   or an http(s) URL on an allowed host
+ * - `offset` - timing correction in milliseconds; positive shows cues later
+ * - `format` - `srt`, `ass` (or `ssa`) or `vtt`; detected when omitted
+ * - `charset` - source encoding; detected when omitted
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const src = searchParams.get('src');
+  if (!src) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: 'Missing "src" parameter' },
+      { status: 400 }
+    );
+  }
+
+  const params = readConversionParams(searchParams);
+  if (typeof params === 'string') {
+    return NextResponse.json({ error: 'Invalid request', detail: params }, { status: 400 });
+  }
+
+  try {
+    const bytes = await loadSource(src, {
+      hosts: allowedHosts('SUBTITLE_SOURCE_HOSTS'),
+      maxBytes: MAX_SUBTITLE_BYTES,
+      kind: 'subtitle',
+    });
+    return respondWithWebVtt(bytes, params);
+  } catch (error) {
+    if (error instanceof SourceError) {
+      return NextResponse.json({ error: 'Subtitle source unavailable', detail: error.message }, { status: error.status });
+    }
+    console.error('Error converting subtitles:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Convert an uploaded subtitle file to WebVTT.
+ *
+ * Accepts multipart form data with a `file` field, or the raw file as the
+ * request body. Takes the same `offset`, `format` and `charset` query
+ * parameters as GET.
+ */
+export async function POST(request: Request) {
+  const params = readConversionParams(new URL(request.url).searchParams);
+  if (typeof params === 'string') {
+    return NextResponse.json({ error: 'Invalid request', detail: params }, { status: 400 });
+  }
+
+  let bytes: ArrayBuffer;
+  try {
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const file = (await request.formData()).get('file');
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: 'Invalid request', detail: 'Missing subtitle "file" field' },
+          { status: 400 }
+        );
+      }
+      bytes = await file.arrayBuffer();
+    } else {
+      bytes = await request.arrayBuffer();
+    }
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: 'Could not read the request body' },
+      { status: 400 }
+    );
+  }
+
+  return respondWithWebVtt(bytes, params);
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { getTelemetrySink } from '@/services/telemetrySinks';
+import { readLimited, SourceError } from '@/services/assetSources';
+import { copyPlaybackEvent, isPlaybackEvent } from '@/utils/telemetry';
+
+/** Most events accepted in one batch */
+const MAX_BATCH_EVENTS = 500;
+/** Largest batch body accepted */
+const MAX_BODY_BYTES = 512 * 1024;
+
+/**
+ * Receive a batch of playback events from the player and hand the valid ones
+ * to the configured sink.
+ *
+ * The body is `{ "events": [...] }`. It is read whatever the content type,
+ * since `navigator.sendBeacon` cannot always set one. Bodies over
+ * `MAX_BODY_BYTES` are refused with 413. Only the fields of each event's
+ * type are stored. Responds 202 with how many events were accepted and
+ * rejected.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(await readLimited(request, MAX_BODY_BYTES)));
+  } catch (error) {
+    if (error instanceof SourceError) {
+      return NextResponse.json(
+        { error: 'Invalid request', detail: `Body exceeds ${MAX_BODY_BYTES} bytes` },
+        { status: error.status }
+      );
+    }
+    return NextResponse.json({ error: 'Invalid request', detail: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const events = (body as { events?: unknown })?.events;
+  if (!Array.isArray(events) || events.length > MAX_BATCH_EVENTS) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: `Expected { events: [...] } with at most ${MAX_BATCH_EVENTS} events` },
+      { status: 400 }
+    );
+  }
+
+  const accepted = events.filter(isPlaybackEvent).map(copyPlaybackEvent);
+  try {
+    if (accepted.length > 0) await getTelemetrySink().write(accepted);
+    return NextResponse.json(
+      { accepted: accepted.length, rejected: events.length - accepted.length },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error recording telemetry:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getTelemetrySink } from '@/services/telemetrySinks';
+import { summarizeQoe } from '@/utils/telemetry';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Quality of experience for one title, 404 if it has no playback events.
+ * 501 when the configured sink cannot be read back.
+ */
+export async function GET(_: Request, { params }: RouteContext) {
+  try {
+    const sink = getTelemetrySink();
+    if (!sink.read) {
+      return NextResponse.json(
+        { error: 'Not implemented', detail: `The "${sink.name}" telemetry sink cannot be summarized` },
+        { status: 501 }
+      );
+    }
+
+    const [summary] = summarizeQoe(await sink.read(params.id));
+    if (!summary) {
+      return NextResponse.json(
+        { error: 'Not found', detail: `No playback events for "${params.id}"` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error summarizing telemetry:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { getTelemetrySink } from '@/services/telemetrySinks';
+import { summarizeQoe } from '@/utils/telemetry';
+
+/**
+ * Quality of experience for every title with playback events, worst
+ * rebuffer ratio first. 501 when the configured sink cannot be read back.
+ */
+export async function GET() {
+  try {
+    const sink = getTelemetrySink();
+    if (!sink.read) {
+      return NextResponse.json(
+        { error: 'Not implemented', detail: `The "${sink.name}" telemetry sink cannot be summarized` },
+        { status: 501 }
+      );
+    }
+    return NextResponse.json(summarizeQoe(await sink.read()));
+  } catch (error) {
+    console.error('Error summarizing telemetry:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
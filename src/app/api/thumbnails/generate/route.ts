@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { generateThumbnailTrack } from '@/utils/thumbnailTrack';
+
+/** Most thumbnails one track may list (a four-hour title at 1s intervals) */
+const MAX_THUMBNAILS = 4 * 60 * 60;
+
+/**
+ * Read a positive whole-number query parameter
+ *
+ * @returns The value, or an error message for a 400 response
+ */
+const readCount = (searchParams: URLSearchParams, name: string, fallback: number): number | string => {
+  const raw = searchParams.get(name);
+  const value = raw === null ? fallback : Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : `"${name}" must be a positive whole number`;
+};
+
+/**
+ * Generate the WebVTT thumbnails track for sprite sheets of evenly spaced
+ * thumbnails, tiled row by row (as ffmpeg's `tile` filter makes them).
+ *
+ * Query parameters:
+ * - `duration` (required) - length of the title in seconds
+ * - `interval` - seconds between thumbnails (default 10)
+ * - `width`, `height` - tile size in pixels (default 160x90)
+ * - `columns`, `rows` - tiles per sheet (default 10x10)
+ * - `sheet` - sheet URL with `{n}` for its 0-based number (default `sprite-{n}.jpg`),
+ *   relative to where the track will be served
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  const duration = Number(searchParams.get('duration'));
+  if (!(duration > 0)) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: '"duration" must be a positive number of seconds' },
+      { status: 400 }
+    );
+  }
+
+  const interval = Number(searchParams.get('interval') ?? 10);
+  if (!(interval > 0) || duration / interval > MAX_THUMBNAILS) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: `"interval" must be positive and give at most ${MAX_THUMBNAILS} thumbnails` },
+      { status: 400 }
+    );
+  }
+
+  const layout = {
+    width: readCount(searchParams, 'width', 160),
+    height: readCount(searchParams, 'height', 90),
+    columns: readCount(searchParams, 'columns', 10),
+    rows: readCount(searchParams, 'rows', 10),
+  };
+  const invalid = Object.values(layout).find((value): value is string => typeof value === 'string');
+  if (invalid) {
+    return NextResponse.json({ error: 'Invalid request', detail: invalid }, { status: 400 });
+  }
+
+  const sheet = searchParams.get('sheet') || 'sprite-{n}.jpg';
+  if (!sheet.includes('{n}') || /\s/.test(sheet)) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: '"sheet" must contain {n} and no spaces' },
+      { status: 400 }
+    );
+  }
+
+  const vtt = generateThumbnailTrack({
+    duration,
+    interval,
+    ...(layout as Record<keyof typeof layout, number>),
+    sheetUrl: (n) => sheet.replace(/\{n\}/g, String(n)),
+  });
+  return new NextResponse(vtt, {
+    headers: {
+      'Content-Type': 'text/vtt; charset=utf-8',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { SourceError, allowedHosts, loadSource } from '@/services/assetSources';
+import { fetchMoviesData } from '@/services/movieCatalog';
+import { ThumbnailTrackIssue, validateThumbnailTrack } from '@/utils/thumbnailTrack';
+
+/** Largest accepted thumbnails track; a two-hour title at 5s intervals is about 100 KB */
+const MAX_TRACK_BYTES = 2 * 1024 * 1024;
+
+/** Origin local tracks are resolved against, so relative sprite URLs stay paths */
+const LOCAL_ORIGIN = 'http://localhost';
+
+/**
+ * What was found checking one thumbnails track
+ */
+interface TrackReport {
+  src: string;
+  title?: string;
+  cueCount: number;
+  /** Sprite sheets and images the cues point at */
+  images: string[];
+  errors: ThumbnailTrackIssue[];
+  warnings: ThumbnailTrackIssue[];
+}
+
+/**
+ * Catalog durations such as "2h 29m", in seconds
+ */
+const parseCatalogDuration = (duration: string): number | undefined => {
+  const match = duration.match(/^\s*(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*$/i);
+  if (!match || (!match[1] && !match[2])) return undefined;
+  return Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60;
+};
+
+/**
+ * Load and check one track. Problems loading it are reported as errors.
+ */
+async function checkTrack(src: string, duration?: number): Promise<TrackReport> {
+  const report: TrackReport = { src, cueCount: 0, images: [], errors: [], warnings: [] };
+
+  let vtt: string;
+  try {
+    const bytes = await loadSource(src, {
+      hosts: allowedHosts('THUMBNAIL_SOURCE_HOSTS'),
+      maxBytes: MAX_TRACK_BYTES,
+      kind: 'thumbnails',
+    });
+    vtt = new TextDecoder().decode(bytes);
+  } catch (error) {
+    if (!(error instanceof SourceError)) throw error;
+    report.errors.push({ message: error.message });
+    return report;
+  }
+
+  const isRemote = /^https?:\/\//i.test(src);
+  const { cues, errors, warnings } = validateThumbnailTrack(vtt, {
+    baseUrl: isRemote ? src : new URL(src, LOCAL_ORIGIN).toString(),
+    duration,
+  });
+  const images = new Set(cues.map(({ url }) => (url.startsWith(`${LOCAL_ORIGIN}/`) ? url.slice(LOCAL_ORIGIN.length) : url)));
+  return { ...report, cueCount: cues.length, images: [...images], errors, warnings };
+}
+
+/**
+ * Check seek bar thumbnail tracks.
+ *
+ * With `src` (a path under `public/` or an URL on an allowed host), checks
+ * that track, and its coverage when `duration` (seconds) is given. Without it,
+ * checks the `thumbnailsUrl` of every title in the catalog.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const src = searchParams.get('src');
+
+  try {
+    if (src) {
+      const duration = searchParams.get('duration');
+      if (duration !== null && !(Number(duration) > 0)) {
+        return NextResponse.json(
+          { error: 'Invalid request', detail: '"duration" must be a positive number of seconds' },
+          { status: 400 }
+        );
+      }
+      return NextResponse.json(await checkTrack(src, duration === null ? undefined : Number(duration)));
+    }
+
+    const movies = await fetchMoviesData();
+    const tracks = await Promise.all(
+      movies
+        .filter((movie) => movie.thumbnailsUrl)
+        .map(async (movie) => {
+          // Catalog durations are rounded to the minute, so allow for that
+          const duration = parseCatalogDuration(movie.duration);
+          const report = await checkTrack(movie.thumbnailsUrl!, duration && duration - 60);
+          return { ...report, title: movie.title };
+        })
+    );
+
+    return NextResponse.json({
+      checked: tracks.length,
+      failed: tracks.filter((track) => track.errors.length > 0).length,
+      withoutThumbnails: movies.filter((movie) => !movie.thumbnailsUrl).map((movie) => movie.title),
+      tracks,
+    });
+  } catch (error) {
+    console.error('Error checking thumbnail tracks:', error);
+    return NextResponse.json(
+      { error: 'Failed to process request', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
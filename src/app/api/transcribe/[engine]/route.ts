@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import {
+  AudioDecodeError,
+  decodeWav,
+  getTranscriptionEngine,
+  listTranscriptionEngines,
+} from '@/services/transcriptionEngines';
+
+/**
+ * Largest accepted upload. Utterances are short, so anything bigger is a client bug.
+ */
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Transcribe a single utterance.
+ *
+ * Expects multipart form data with a `file` field holding 16-bit PCM WAV audio
+ * and an optional `language` field (BCP 47, defaults to en-US).
+ * Responds with `{ text, confidence, engine }`. Audio that is not a complete
+ * WAV file gets a 400 before any engine is called.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { engine: string } }
+) {
+  const engine = getTranscriptionEngine(params.engine);
+
+  if (!engine) {
+    return NextResponse.json(
+      {
+        error: 'Unknown transcription engine',
+        detail: `Engine "${params.engine}" is not registered. Available: default, ${listTranscriptionEngines().join(', ')}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  if (!engine.isAvailable()) {
+    return NextResponse.json(
+      { error: 'Transcription engine unavailable', detail: `Engine "${engine.name}" is not configured on this server` },
+      { status: 503 }
+    );
+  }
+
+  let file: FormDataEntryValue | null;
+  let language: string;
+  try {
+    const formData = await request.formData();
+    file = formData.get('file');
+    language = (formData.get('language') as string | null) || 'en-US';
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: 'Expected multipart form data' },
+      { status: 400 }
+    );
+  }
+
+  if (!file || typeof file === 'string') {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: 'Missing audio "file" field' },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_AUDIO_BYTES) {
+    return NextResponse.json(
+      { error: 'Invalid request', detail: `Audio exceeds ${MAX_AUDIO_BYTES} bytes` },
+      { status: 413 }
+    );
+  }
+
+  const audio = await file.arrayBuffer();
+  try {
+    decodeWav(audio);
+  } catch (error) {
+    if (!(error instanceof AudioDecodeError)) throw error;
+    return NextResponse.json(
+      { error: 'Invalid request', detail: error.message },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await engine.transcribe({
+      audio,
+      mimeType: file.type || 'audio/wav',
+      language,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(`Transcription with ${engine.name} failed:`, error);
+    return NextResponse.json(
+      { error: 'Transcription failed', detail: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 502 }
+    );
+  }
+}
+
+// Handle OPTIONS requests for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,83 @@
+import { notFound, redirect } from 'next/navigation';
+import { ContentCard } from '@/components/ContentCard';
+import { GenreLinks } from '@/components/GenreLinks';
+import { Movie } from '@/types/movie';
+import { SeriesSummary } from '@/types/series';
+import { mapMovieToContent } from '@/services/moviesApi';
+import { mapSeriesToContent } from '@/services/seriesApi';
+import { findGenre } from '@/utils/genres';
+
+// Fetches every movie in the genre, best rated first.
+async function getMoviesInGenre(genreId: string): Promise<Movie[]> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/movies?genre=${genreId}&sort=-rating`,
+    {
+      next: {
+        revalidate: 3600 // Cache for 1 hour
+      }
+    }
+  );
+
+  if (!response.ok) {
+    // This will be caught by the error boundary
+    throw new Error(`Failed to fetch movies: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Fetches every series in the genre, best rated first.
+async function getSeriesInGenre(genreId: string): Promise<SeriesSummary[]> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/series?genre=${genreId}&sort=-rating`,
+    {
+      next: {
+        revalidate: 3600 // Cache for 1 hour
+      }
+    }
+  );
+
+  if (!response.ok) {
+    // This will be caught by the error boundary
+    throw new Error(`Failed to fetch series: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export default async function GenrePage({
+  params,
+}: {
+  params: { slug: string };
+}) {
+  // Names and aliases ("sci-fi", "comedies") find the genre too, then redirect to its id
+  const slug = decodeURIComponent(params.slug);
+  const genre = findGenre(slug);
+  if (!genre) {
+    notFound();
+  }
+  if (slug !== genre.id) {
+    redirect(`/genre/${genre.id}`);
+  }
+
+  const [movies, series] = await Promise.all([getMoviesInGenre(genre.id), getSeriesInGenre(genre.id)]);
+  const items = [...movies.map(mapMovieToContent), ...series.map(mapSeriesToContent)];
+
+  return (
+    <main className="p-4">
+      <h1 className="text-3xl font-bold mb-4">{genre.name}</h1>
+      <GenreLinks current={genre.id} />
+      {items.length > 0 ? (
+        <div className="flex flex-wrap gap-4">
+          {items.map((item) => (
+            <ContentCard key={item.id} {...item} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-foreground/60">
+          Nothing in {genre.name} yet. Pick another genre above.
+        </p>
+      )}
+    </main>
+  );
+}
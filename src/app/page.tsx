@@ -1,17 +1,19 @@
 import { Suspense } from 'react';
 import { ContentCarousel } from '@/components/ContentCarousel';
+import { ContinueWatching } from '@/components/ContinueWatching';
+import { GenreLinks } from '@/components/GenreLinks';
+import { HOME_SECTIONS } from '@/utils/homeSections';
 
 export default function Home() {
   return (
     <main className="p-4">
-      <Suspense fallback={<div className="h-48 bg-gray-100 animate-pulse rounded-lg" />}>
-        <ContentCarousel title="Trending Now" query="trending" />
-      </Suspense>
-      
-      <Suspense fallback={<div className="h-48 bg-gray-100 animate-pulse rounded-lg" />}>
-        <ContentCarousel title="New Releases" query="new releases" />
-      </Suspense>
-
+      <ContinueWatching />
+      <GenreLinks />
+      {HOME_SECTIONS.map(({ id, title, source, query, href }) => (
+        <Suspense key={id} fallback={<div className="h-48 bg-gray-100 animate-pulse rounded-lg" />}>
+          <ContentCarousel id={id} title={title} source={source} query={query} href={href} />
+        </Suspense>
+      ))}
     </main>
   );
 }
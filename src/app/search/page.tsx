@@ -0,0 +1,24 @@
+import { Suspense } from 'react';
+import { ContentCarousel } from '@/components/ContentCarousel';
+
+export default function SearchPage({
+  searchParams,
+}: {
+  searchParams: { q?: string };
+}) {
+  const query = searchParams.q?.trim() ?? '';
+
+  return (
+    <main className="p-4">
+      {query ? (
+        <Suspense fallback={<div className="h-48 bg-gray-100 animate-pulse rounded-lg" />}>
+          <ContentCarousel title={`Results for "${query}"`} query={{ q: query }} />
+        </Suspense>
+      ) : (
+        <p className="text-foreground/60">
+          Say "search for" followed by a title, actor or keyword to find something to watch.
+        </p>
+      )}
+    </main>
+  );
+}
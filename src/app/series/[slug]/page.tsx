@@ -0,0 +1,139 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import { notFound, redirect } from 'next/navigation';
+import { Series } from '@/types/series';
+import { getGenre } from '@/utils/genres';
+import { formatEpisodeNumber, seasonLabel } from '@/utils/series';
+
+// Fetches one series by id or slug; old slugs are redirected by the API and followed here.
+async function getSeries(idOrSlug: string): Promise<Series> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/series/${encodeURIComponent(idOrSlug)}`,
+    {
+      next: {
+        revalidate: 3600 // Cache for 1 hour
+      }
+    }
+  );
+
+  if (response.status === 404) {
+    notFound();
+  }
+
+  if (!response.ok) {
+    // This will be caught by the error boundary
+    throw new Error(`Failed to fetch series: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export default async function SeriesPage({
+  params,
+  searchParams,
+}: {
+  params: { slug: string };
+  searchParams: { season?: string };
+}) {
+  // The route param arrives still percent-encoded
+  const slug = decodeURIComponent(params.slug);
+  const series = await getSeries(slug);
+  const seasons = [...series.seasons].sort((a, b) => a.number - b.number);
+  // An unknown ?season= shows the first season rather than nothing
+  const season = seasons.find(({ number }) => String(number) === searchParams.season) ?? seasons[0];
+
+  // Keep one URL per series: ids and former slugs land on the current slug
+  if (slug !== series.slug) {
+    redirect(`/series/${series.slug}${searchParams.season ? `?season=${season.number}` : ''}`);
+  }
+
+  const episodes = [...season.episodes].sort((a, b) => a.number - b.number);
+  const first = seasons[0].episodes.reduce((a, b) => (b.number < a.number ? b : a));
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-screen-xl mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row gap-6 mb-8">
+          <div className="relative w-full md:w-96 aspect-video rounded-lg overflow-hidden bg-gray-800 flex-none">
+            {series.thumbnail && (
+              <Image src={series.thumbnail} alt={series.title} fill className="object-cover" unoptimized />
+            )}
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold mb-2">{series.title}</h1>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-foreground/60 mb-4">
+              <span>{series.year}</span>
+              <span>•</span>
+              <span>⭐ {series.rating.toFixed(1)}</span>
+              <span>•</span>
+              <span>{seasons.length === 1 ? '1 season' : `${seasons.length} seasons`}</span>
+              {series.genres?.map((genre) => (
+                <Link key={genre} href={`/genre/${genre}`} className="px-2 py-0.5 rounded-full border border-foreground/20 hover:bg-foreground/10">
+                  {getGenre(genre)?.name ?? genre}
+                </Link>
+              ))}
+            </div>
+            <p className="text-foreground/80 leading-relaxed mb-4">{series.description}</p>
+            <Link
+              href={`/watch/${first.id}`}
+              className="inline-block px-4 py-2 rounded bg-red-600 text-white font-semibold hover:bg-red-700"
+            >
+              ▶ Play {formatEpisodeNumber(seasons[0].number, first.number)}
+            </Link>
+          </div>
+        </div>
+
+        <nav aria-label="Seasons" className="mb-6">
+          <ul className="flex flex-wrap gap-2">
+            {seasons.map((entry) => (
+              <li key={entry.number}>
+                <Link
+                  href={`/series/${series.slug}?season=${entry.number}`}
+                  aria-current={entry.number === season.number ? 'page' : undefined}
+                  className={`block px-3 py-1 rounded-full text-sm border transition ${
+                    entry.number === season.number
+                      ? 'bg-foreground text-background border-foreground'
+                      : 'border-foreground/20 hover:bg-foreground/10'
+                  }`}
+                >
+                  {seasonLabel(entry)}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </nav>
+
+        <h2 className="text-2xl font-bold mb-4">
+          {seasonLabel(season)}
+          {season.year && <span className="ml-2 text-base font-normal text-foreground/60">{season.year}</span>}
+        </h2>
+        <ol className="space-y-4">
+          {episodes.map((episode) => (
+            <li key={episode.id}>
+              <Link href={`/watch/${episode.id}`} className="flex gap-4 p-2 rounded-lg hover:bg-foreground/5 group/item">
+                <div className="relative w-48 aspect-video rounded overflow-hidden bg-gray-800 flex-none">
+                  {(episode.thumbnail || series.thumbnail) && (
+                    <Image
+                      src={episode.thumbnail || series.thumbnail}
+                      alt=""
+                      fill
+                      className="object-cover transform group-hover/item:scale-105 transition duration-300"
+                      unoptimized
+                    />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <h3 className="font-semibold">
+                    {episode.number}. {episode.title}
+                  </h3>
+                  <p className="text-sm text-foreground/60 mb-1">{episode.duration}</p>
+                  <p className="text-sm text-foreground/80 line-clamp-2">{episode.description}</p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </main>
+  );
+}
@@ -1,34 +1,122 @@
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { VoiceControlInfo } from '@/components/VoiceControlInfo';
-import { notFound } from 'next/navigation';
+import { VoiceCommandList } from '@/components/VoiceCommandList';
+import { KeyboardShortcutList } from '@/components/KeyboardShortcutList';
+import { CommandHistoryPanel } from '@/components/CommandHistoryPanel';
+import { PlayQueuePanel } from '@/components/PlayQueuePanel';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
 import { Movie } from '@/types/movie';
+import { EpisodeDetail } from '@/types/series';
+import { getSubtitleTracks } from '@/utils/subtitleTracks';
+import { formatEpisodeNumber } from '@/utils/series';
 
-// This function fetches all movies and finds the one with the matching ID.
-async function getMovieById(id: string): Promise<Movie> {
-  // The API route now simply returns the full movies.json content.
-  const response = await fetch(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/movies`, {
-    // It's good practice to cache this fetch.
-    next: {
-      revalidate: 3600 // Cache for 1 hour
+// Fetches one movie by id or slug; old slugs are redirected by the API and followed here.
+async function getMovieById(id: string): Promise<Movie | null> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/movies/${encodeURIComponent(id)}`,
+    {
+      // It's good practice to cache this fetch.
+      next: {
+        revalidate: 3600 // Cache for 1 hour
+      }
     }
-  });
+  );
+
+  if (response.status === 404) {
+    // Not a movie; it may be an episode
+    return null;
+  }
 
   if (!response.ok) {
     // This will be caught by the error boundary
-    throw new Error(`Failed to fetch movies: ${response.status} ${response.statusText}`);
+    throw new Error(`Failed to fetch movie: ${response.status} ${response.statusText}`);
   }
 
-  const movies: Movie[] = await response.json();
-  
-  // Find the movie by its generated ID
-  const movie = movies.find((m) => m.title.toLowerCase().replace(/\s+/g, '-') === id);
+  return response.json();
+}
 
-  if (!movie) {
-    // If no movie is found, show the 404 page.
+// Fetches one episode by id, with its series and neighbours.
+async function getEpisodeById(id: string): Promise<EpisodeDetail> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/episodes/${encodeURIComponent(id)}`,
+    {
+      next: {
+        revalidate: 3600 // Cache for 1 hour
+      }
+    }
+  );
+
+  if (response.status === 404) {
+    // Neither a movie nor an episode, so show the 404 page.
     notFound();
   }
 
-  return movie;
+  if (!response.ok) {
+    // This will be caught by the error boundary
+    throw new Error(`Failed to fetch episode: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Plays an episode, with the series it belongs to under the player.
+async function EpisodeWatchPage({ id }: { id: string }) {
+  const { episode, ...detail } = await getEpisodeById(id);
+  const label = formatEpisodeNumber(detail.season, episode.number);
+  const title = `${detail.series.title} · ${label} · ${episode.title}`;
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-screen-2xl mx-auto px-4 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            <VideoPlayer
+              id={episode.id}
+              src={episode.videoURL}
+              renditions={episode.renditions}
+              manifest={episode.manifest}
+              markers={episode.markers}
+              chapters={episode.chapters}
+              chaptersUrl={episode.chaptersUrl}
+              thumbnailsUrl={episode.thumbnailsUrl}
+              title={title}
+              poster={episode.thumbnail || detail.series.thumbnail}
+              subtitles={getSubtitleTracks(episode)}
+              episode={detail}
+            />
+            
+            <div className="mt-6">
+              <Link href={`/series/${detail.series.slug}?season=${detail.season}`} className="text-foreground/60 hover:underline">
+                {detail.series.title} · {label}
+              </Link>
+              <h1 className="text-3xl font-bold mb-4">{episode.title}</h1>
+              <p className="text-foreground/80 leading-relaxed">
+                {episode.description}
+              </p>
+              {detail.next && (
+                <Link href={`/watch/${detail.next.id}`} className="inline-block mt-4 hover:underline">
+                  Next: {formatEpisodeNumber(detail.next.season, detail.next.number)} · {detail.next.title} →
+                </Link>
+              )}
+            </div>
+          </div>
+          
+          <div className="lg:col-span-1">
+            <VoiceControlInfo />
+            
+            <VoiceCommandList />
+
+            <KeyboardShortcutList />
+
+            <PlayQueuePanel />
+
+            <CommandHistoryPanel title={title} />
+          </div>
+        </div>
+      </div>
+    </main>
+  );
 }
 
 export default async function WatchPage({
@@ -36,7 +124,22 @@ export default async function WatchPage({
 }: {
   params: { id: string };
 }) {
-  const movie = await getMovieById(params.id);
+  // The route param arrives still percent-encoded; a stray "%" cannot name a title
+  let id: string;
+  try {
+    id = decodeURIComponent(params.id);
+  } catch {
+    notFound();
+  }
+  const movie = await getMovieById(id);
+  if (!movie) {
+    return <EpisodeWatchPage id={id} />;
+  }
+
+  // Keep one URL per title: ids, former slugs and old links land on the current slug
+  if (id !== movie.slug) {
+    redirect(`/watch/${movie.slug}`);
+  }
 
   return (
     <main className="min-h-screen bg-background">
@@ -44,10 +147,17 @@ export default async function WatchPage({
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2">
             <VideoPlayer
+              id={movie.id}
               src={movie.videoURL}
+              renditions={movie.renditions}
+              manifest={movie.manifest}
+              markers={movie.markers}
+              chapters={movie.chapters}
+              chaptersUrl={movie.chaptersUrl}
+              thumbnailsUrl={movie.thumbnailsUrl}
               title={movie.title}
               poster={movie.thumbnail}
-              subtitleUrl={movie.subtitleUrl}
+              subtitles={getSubtitleTracks(movie)}
             />
             
             <div className="mt-6">
@@ -61,31 +171,13 @@ export default async function WatchPage({
           <div className="lg:col-span-1">
             <VoiceControlInfo />
             
-            <div className="mt-8 p-4 rounded-lg bg-foreground/5">
-              <h2 className="text-xl font-semibold mb-4">Available Voice Commands</h2>
-              <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <li className="flex items-center gap-2">
-                  <span className="text-foreground/60">🎤</span>
-                  "Play movie"
-                </li>
-                <li className="flex items-center gap-2">
-                  <span className="text-foreground/60">🎤</span>
-                  "Pause movie"
-                </li>
-                <li className="flex items-center gap-2">
-                  <span className="text-foreground/60">🎤</span>
-                  "Skip intro"
-                </li>
-                <li className="flex items-center gap-2">
-                  <span className="text-foreground/60">🎤</span>
-                  "Turn on subtitles"
-                </li>
-                <li className="flex items-center gap-2">
-                  <span className="text-foreground/60">🎤</span>
-                  "Turn off subtitles"
-                </li>
-              </ul>
-            </div>
+            <VoiceCommandList />
+
+            <KeyboardShortcutList />
+
+            <PlayQueuePanel />
+
+            <CommandHistoryPanel title={movie.title} />
           </div>
         </div>
       </div>
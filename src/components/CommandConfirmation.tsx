@@ -0,0 +1,32 @@
+'use client';
+
+import { PendingConfirmation } from '@/hooks/useVoiceCommandDispatch';
+
+interface CommandConfirmationProps {
+  pending: PendingConfirmation;
+  onConfirm: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * CommandConfirmation Component
+ * "Did you mean ...?" prompt for a voice command the recogniser was unsure
+ * about. It can be answered by voice ("yes" / "no") or with the buttons.
+ *
+ * @component
+ */
+export const CommandConfirmation = ({ pending, onConfirm, onDismiss }: CommandConfirmationProps) => (
+  <div
+    className="flex items-center gap-3 max-w-sm px-4 py-2 rounded-lg shadow-lg bg-black/80 text-white text-sm"
+    role="alertdialog"
+    aria-label="Confirm voice command"
+  >
+    <span>Did you mean &quot;{pending.transcript}&quot;?</span>
+    <button onClick={onConfirm} className="px-2 py-0.5 rounded bg-white/20 hover:bg-white/30">
+      Yes
+    </button>
+    <button onClick={onDismiss} className="px-2 py-0.5 rounded hover:bg-white/20">
+      No
+    </button>
+  </div>
+);
@@ -0,0 +1,108 @@
+'use client';
+
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { clearHistory } from '@/store/commandHistorySlice';
+import { CommandHistoryEntry, PlayerSnapshot } from '@/types/commandHistory';
+import { describeIntent } from '@/utils/describeIntent';
+import { languageName } from '@/utils/subtitleTracks';
+import { formatPosition } from '@/utils/formatTime';
+import { formatPlaybackRate } from '@/utils/playbackRates';
+
+interface CommandHistoryPanelProps {
+  /** Only commands run while this title was playing are listed */
+  title: string;
+}
+
+const FIELD_LABELS: { [K in keyof PlayerSnapshot]: (value: PlayerSnapshot[K]) => string } = {
+  currentTime: formatPosition,
+  paused: (paused) => (paused ? 'Paused' : 'Playing'),
+  volume: (volume) => `Volume ${volume}%`,
+  muted: (muted) => (muted ? 'Muted' : 'Unmuted'),
+  playbackRate: (rate) => `Speed ${formatPlaybackRate(rate)}`,
+  subtitles: (language) => (language ? `${languageName(language)} subtitles` : 'Subtitles off'),
+};
+
+/**
+ * Describe what a command changed, e.g. ["0:12 → 1:42", "Paused → Playing"]
+ */
+const describeChanges = ({ before, after }: CommandHistoryEntry): string[] => {
+  if (!before || !after) return [];
+
+  return (Object.keys(FIELD_LABELS) as (keyof PlayerSnapshot)[])
+    .filter((field) => {
+      // Playback moves on by itself, so ignore drift under a second
+      if (field === 'currentTime') return Math.abs(after.currentTime - before.currentTime) >= 1;
+      return before[field] !== after[field];
+    })
+    .map((field) => {
+      const label = FIELD_LABELS[field] as (value: PlayerSnapshot[typeof field]) => string;
+      return `${label(before[field])} → ${label(after[field])}`;
+    });
+};
+
+/**
+ * CommandHistoryPanel Component
+ * Lists the voice commands run on the current title, newest first, with what
+ * each one changed, so users can see what "undo that" will reverse.
+ *
+ * @component
+ */
+export const CommandHistoryPanel = ({ title }: CommandHistoryPanelProps) => {
+  const dispatch = useAppDispatch();
+  const entries = useAppSelector((state) => state.commandHistory.entries)
+    .filter((entry) => entry.title === title)
+    .reverse();
+
+  return (
+    <div className="mt-8 p-4 rounded-lg bg-foreground/5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Command History</h2>
+        {entries.length > 0 && (
+          <button
+            type="button"
+            onClick={() => dispatch(clearHistory())}
+            className="text-sm text-foreground/60 hover:text-foreground"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-foreground/60">
+          Voice commands you use on this title will appear here.
+        </p>
+      ) : (
+        <ul className="space-y-3 max-h-96 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.id} className={`text-sm ${entry.undone ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-2">
+                <span className="text-foreground/60 tabular-nums">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+                <span className="font-medium">{describeIntent(entry.intent)}</span>
+                {entry.undone && (
+                  <span className="px-1.5 py-0.5 rounded bg-foreground/10 text-xs">Undone</span>
+                )}
+              </div>
+              <div className="text-foreground/70">&quot;{entry.transcript}&quot;</div>
+              {entry.failed ? (
+                <div className="text-foreground/60">Could not be done</div>
+              ) : entry.undoes === null ? (
+                <div className="text-foreground/60">Nothing to undo</div>
+              ) : (
+                describeChanges(entry).map((change) => (
+                  <div key={change} className="text-foreground/60">{change}</div>
+                ))
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-4 text-xs text-foreground/60">
+        Say &quot;undo that&quot; to reverse the last action.
+      </p>
+    </div>
+  );
+};
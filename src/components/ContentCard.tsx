@@ -1,32 +1,42 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import { Content } from '@/types/content';
+import { QueueButton } from './QueueButton';
+import { getGenre } from '@/utils/genres';
 
 /**
- * Content item card component that displays media information with hover effects
+ * Content item card component that displays media information and genre chips
+ * with hover effects, and a button to add the title to the play queue. A
+ * series links to its page instead and has no queue button.
  * 
  * @component
  * @example
  * ```tsx
  * <ContentCard
  *   id="123"
+ *   slug="movie-title"
  *   title="Movie Title"
  *   imageUrl="https://streavoice.s3.us-east-2.amazonaws.com/image.jpg"
+ *   genres={['action', 'comedy']} // shown as chips
+ *   progress={0.4} // optional watched bar
  *   // ... other props
  * />
  * ```
  */
 export const ContentCard = ({
   id,
+  slug,
   title,
   imageUrl,
+  type,
   year,
   rating,
   genres,
+  progress,
 }: Content) => {
   return (
     <Link
-      href={`/watch/${id}`}
+      href={type === 'series' ? `/series/${slug}` : `/watch/${slug}`}
       className="flex-none w-64 snap-start group/item"
     >
       <div className="relative aspect-video rounded-lg overflow-hidden bg-gray-800">
@@ -43,7 +53,27 @@ export const ContentCard = ({
             <span className="text-gray-400 text-sm">No Image</span>
           </div>
         )}
+        {progress !== undefined && (
+          <div
+            className="absolute bottom-0 left-0 right-0 h-1 bg-white/30"
+            role="progressbar"
+            aria-label="Watched"
+            aria-valuenow={Math.round(progress * 100)}
+            aria-valuemin={0}
+            aria-valuemax={100}
+          >
+            <div className="h-full bg-red-600" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
         <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover/item:opacity-100 transition-opacity" />
+        {type !== 'series' && (
+          <QueueButton
+            id={id}
+            title={title}
+            imageUrl={imageUrl}
+            className="absolute top-2 right-2 opacity-0 group-hover/item:opacity-100 focus:opacity-100"
+          />
+        )}
         <div className="absolute bottom-2 left-3 right-3 text-white opacity-0 group-hover/item:opacity-100 transition-opacity duration-300">
           <h3 className="font-bold truncate text-md">{title}</h3>
           <div className="flex items-center text-xs gap-2 mt-1 text-gray-300">
@@ -54,13 +84,16 @@ export const ContentCard = ({
                 <span>⭐ {rating.toFixed(1)}</span>
               </>
             )}
-            {genres && genres.length > 0 && (
-              <>
-                <span>•</span>
-                <span className="truncate">{genres.join(', ')}</span>
-              </>
-            )}
           </div>
+          {genres && genres.length > 0 && (
+            <ul className="flex flex-wrap gap-1 mt-2" aria-label="Genres">
+              {genres.map((genre) => (
+                <li key={genre} className="px-2 py-0.5 rounded-full bg-white/20 text-[11px] leading-4">
+                  {getGenre(genre)?.name ?? genre}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
     </Link>
@@ -1,35 +1,56 @@
 'use client';
 
-import { useRef, useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { Content } from '@/types/content';
-import { CarouselButton } from './CarouselButton';
-import { ContentCard } from './ContentCard';
+import { ContentRow } from './ContentRow';
 import { fetchMovies, mapMovieToContent } from '@/services/moviesApi';
+import { fetchSeries, mapSeriesToContent } from '@/services/seriesApi';
 
 interface ContentCarouselClientProps {
+  /** Anchor id, so voice navigation can scroll to the row */
+  id?: string;
   title: string;
-  query?: string;
+  /** Whether the row lists movies or series; defaults to movies */
+  source?: 'movies' | 'series';
+  /** `/api/movies` (or `/api/series`) query parameters, e.g. `{ q: 'avengers' }` or `{ sort: '-year', limit: '10' }` */
+  query?: Record<string, string>;
+  /** Page listing everything in the row, linked as "See all" */
+  href?: string;
 }
 
 /**
  * Content carousel component that displays a horizontal scrollable list of items
  */
-export const ContentCarousel = ({ title, query = '' }: ContentCarouselClientProps) => {
-  const carouselRef = useRef<HTMLDivElement>(null);
-  const [scrollPosition, setScrollPosition] = useState(0);
+export const ContentCarousel = ({ id, title, source = 'movies', query, href }: ContentCarouselClientProps) => {
   const [items, setItems] = useState<Content[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  // Compared as a string so a re-created but equal query does not refetch
+  const queryString = new URLSearchParams(query).toString();
 
   useEffect(() => {
     const fetchContent = async () => {
       try {
         setIsLoading(true);
         setError(null);
-        const movies = await fetchMovies();
+        const content =
+          source === 'series'
+            ? (await fetchSeries(query)).map(mapSeriesToContent)
+            : (await fetchMovies(query)).map(mapMovieToContent);
         
-        if (movies.length === 0) {
+        if (content.length === 0) {
+          if (query?.q) {
+            // An empty search is an answer, not a failed load
+            setError(`No results found for "${query.q}".`);
+            setItems([]);
+            return;
+          }
+          if (query?.genre || source === 'series') {
+            // A genre, or a catalog without series, with nothing in it yet is left off the page
+            setItems([]);
+            return;
+          }
           if (retryCount < 3) {
             // If we get no movies and haven't retried too many times, retry after a delay
             setTimeout(() => {
@@ -43,45 +64,7 @@ export const ContentCarousel = ({ title, query = '' }: ContentCarouselClientProp
           }
         }
         
-        // Map all movies to content first
-        const allContent = movies.map(mapMovieToContent);
-        
-        // Then filter based on query if provided
-        let filteredContent = allContent;
-        if (query) {
-          const searchTerms = query.toLowerCase().split(' ');
-          
-          // Special handling for specific categories
-          if (query === 'trending') {
-            // Sort by rating and take top movies
-            filteredContent = allContent.sort((a, b) => (b.rating || 0) - (a.rating || 0)).slice(0, 10);
-          } else if (query === 'popular shows') {
-            // Sort by rating and take top movies
-            filteredContent = allContent.sort((a, b) => (b.rating || 0) - (a.rating || 0)).slice(0, 10);
-          } else if (query === 'new releases') {
-            // Sort by year (descending) and take recent movies
-            filteredContent = allContent.sort((a, b) => b.year - a.year).slice(0, 10);
-          } else if (query === 'action movies') {
-            // For now, show all movies since we don't have genre information
-            filteredContent = allContent;
-          } else {
-            // Default search behavior
-            filteredContent = allContent.filter(content => 
-              searchTerms.every(term =>
-                content.title.toLowerCase().includes(term) ||
-                content.description.toLowerCase().includes(term)
-              )
-            );
-          }
-        }
-        
-        if (filteredContent.length === 0) {
-          setError('No results found for this category.');
-          setItems([]);
-          return;
-        }
-        
-        setItems(filteredContent);
+        setItems(content);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
         console.error('Error loading content:', err);
@@ -92,27 +75,11 @@ export const ContentCarousel = ({ title, query = '' }: ContentCarouselClientProp
     };
 
     fetchContent();
-  }, [query, retryCount]);
-
-  const scroll = (direction: 'left' | 'right') => {
-    const container = carouselRef.current;
-    if (!container) return;
-
-    const scrollAmount = container.clientWidth * 0.8;
-    const newPosition = direction === 'left' 
-      ? Math.max(0, scrollPosition - scrollAmount)
-      : Math.min(container.scrollWidth - container.clientWidth, scrollPosition + scrollAmount);
-
-    container.scrollTo({
-      left: newPosition,
-      behavior: 'smooth'
-    });
-    setScrollPosition(newPosition);
-  };
+  }, [source, queryString, retryCount]);
 
   if (isLoading) {
     return (
-      <div className="mb-8">
+      <div id={id} className="mb-8 scroll-mt-20">
         <h2 className="text-2xl font-bold mb-4">{title}</h2>
         <div className="flex gap-4 overflow-hidden">
           {[...Array(5)].map((_, i) => (
@@ -125,7 +92,7 @@ export const ContentCarousel = ({ title, query = '' }: ContentCarouselClientProp
 
   if (error) {
     return (
-      <div className="mb-8">
+      <div id={id} className="mb-8 scroll-mt-20">
         <h2 className="text-2xl font-bold mb-4">{title}</h2>
         <div className="p-4 bg-red-100 text-red-700 rounded-lg">
           {error}
@@ -146,34 +113,5 @@ export const ContentCarousel = ({ title, query = '' }: ContentCarouselClientProp
     return null;
   }
 
-  return (
-    <div className="mb-8">
-      <h2 className="text-2xl font-bold mb-4">{title}</h2>
-      <div className="relative group">
-        <div
-          ref={carouselRef}
-          className="flex gap-4 overflow-x-auto snap-x snap-mandatory scrollbar-hide"
-        >
-          {items.map((item) => (
-            <ContentCard key={item.id} {...item} />
-          ))}
-        </div>
-        
-        {items.length > 4 && (
-          <>
-            <CarouselButton
-              direction="left"
-              onClick={() => scroll('left')}
-              className="opacity-0 group-hover:opacity-100"
-            />
-            <CarouselButton
-              direction="right"
-              onClick={() => scroll('right')}
-              className="opacity-0 group-hover:opacity-100"
-            />
-          </>
-        )}
-      </div>
-    </div>
-  );
+  return <ContentRow id={id} title={title} items={items} href={href} />;
 }; 
\ No newline at end of file
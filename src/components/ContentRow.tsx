@@ -0,0 +1,77 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { ContentCarouselProps } from '@/types/content';
+import { CarouselButton } from './CarouselButton';
+import { ContentCard } from './ContentCard';
+
+/**
+ * Horizontally scrolling row of content cards, with arrow buttons once there
+ * are more cards than fit on screen
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ContentRow id="trending" title="Trending Now" items={items} />
+ * <ContentRow id="genre-comedy" title="Comedy" items={items} href="/genre/comedy" />
+ * ```
+ */
+export const ContentRow = ({ id, title, items, href }: ContentCarouselProps) => {
+  const carouselRef = useRef<HTMLDivElement>(null);
+  const [scrollPosition, setScrollPosition] = useState(0);
+
+  const scroll = (direction: 'left' | 'right') => {
+    const container = carouselRef.current;
+    if (!container) return;
+
+    const scrollAmount = container.clientWidth * 0.8;
+    const newPosition = direction === 'left' 
+      ? Math.max(0, scrollPosition - scrollAmount)
+      : Math.min(container.scrollWidth - container.clientWidth, scrollPosition + scrollAmount);
+
+    container.scrollTo({
+      left: newPosition,
+      behavior: 'smooth'
+    });
+    setScrollPosition(newPosition);
+  };
+
+  return (
+    <div id={id} className="mb-8 scroll-mt-20">
+      <div className="flex items-baseline justify-between mb-4">
+        <h2 className="text-2xl font-bold">{title}</h2>
+        {href && (
+          <Link href={href} className="text-sm text-foreground/70 hover:text-foreground hover:underline">
+            See all
+          </Link>
+        )}
+      </div>
+      <div className="relative group">
+        <div
+          ref={carouselRef}
+          className="flex gap-4 overflow-x-auto snap-x snap-mandatory scrollbar-hide"
+        >
+          {items.map((item) => (
+            <ContentCard key={item.id} {...item} />
+          ))}
+        </div>
+        
+        {items.length > 4 && (
+          <>
+            <CarouselButton
+              direction="left"
+              onClick={() => scroll('left')}
+              className="opacity-0 group-hover:opacity-100"
+            />
+            <CarouselButton
+              direction="right"
+              onClick={() => scroll('right')}
+              className="opacity-0 group-hover:opacity-100"
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
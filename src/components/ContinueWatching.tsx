@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Content } from '@/types/content';
+import { ContentRow } from './ContentRow';
+import { fetchMovies, mapMovieToContent } from '@/services/moviesApi';
+import { fetchEpisode, mapEpisodeToContent } from '@/services/seriesApi';
+import { getWatchProgressStorage } from '@/services/watchProgressStorage';
+import { progressFraction, resumePosition } from '@/utils/watchProgress';
+
+/**
+ * ContinueWatching Component
+ * Home page row of titles and episodes the viewer left part way through, most
+ * recently watched first, each with a bar showing how far they got. Renders nothing
+ * until there is something to continue.
+ *
+ * @component
+ */
+export const ContinueWatching = () => {
+  const [items, setItems] = useState<Content[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadItems = async () => {
+      try {
+        const inProgress = (await getWatchProgressStorage().list())
+          .filter((progress) => resumePosition(progress) !== undefined);
+        if (inProgress.length === 0) return;
+
+        const catalog = new Map(
+          (await fetchMovies()).map((movie) => {
+            const content = mapMovieToContent(movie);
+            return [content.id, content];
+          })
+        );
+        // Ids that are not movies may be episodes of a series
+        const episodes = await Promise.all(
+          inProgress
+            .filter((progress) => !catalog.has(progress.titleId))
+            .map((progress) => fetchEpisode(progress.titleId))
+        );
+        episodes.forEach((detail) => {
+          if (detail) catalog.set(detail.episode.id, mapEpisodeToContent(detail));
+        });
+
+        const continuing = inProgress.flatMap((progress) => {
+          const content = catalog.get(progress.titleId);
+          return content ? [{ ...content, progress: progressFraction(progress) }] : [];
+        });
+        if (!cancelled) setItems(continuing);
+      } catch (err) {
+        console.error('Error loading watch progress:', err);
+      }
+    };
+
+    loadItems();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!items.length) {
+    return null;
+  }
+
+  return <ContentRow id="continue-watching" title="Continue Watching" items={items} />;
+};
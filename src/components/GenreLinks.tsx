@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { GENRES } from '@/utils/genres';
+
+interface GenreLinksProps {
+  /** Genre id of the page being shown, highlighted */
+  current?: string;
+}
+
+/**
+ * Chips linking to the browse page of every genre in the taxonomy
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <GenreLinks current="comedy" />
+ * ```
+ */
+export const GenreLinks = ({ current }: GenreLinksProps) => {
+  return (
+    <nav aria-label="Genres" className="mb-8">
+      <ul className="flex flex-wrap gap-2">
+        {GENRES.map(({ id, name }) => (
+          <li key={id}>
+            <Link
+              href={`/genre/${id}`}
+              aria-current={id === current ? 'page' : undefined}
+              className={`block px-3 py-1 rounded-full text-sm border transition ${
+                id === current
+                  ? 'bg-foreground text-background border-foreground'
+                  : 'border-foreground/20 hover:bg-foreground/10'
+              }`}
+            >
+              {name}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+};
@@ -0,0 +1,25 @@
+import { KEYBOARD_SHORTCUTS } from '@/utils/keyboardShortcuts';
+
+/**
+ * KeyboardShortcutList Component
+ * Lists the player's keyboard shortcuts next to the voice commands.
+ *
+ * @component
+ */
+export const KeyboardShortcutList = () => (
+  <div className="mt-8 p-4 rounded-lg bg-foreground/5">
+    <h2 className="text-xl font-semibold mb-4">Keyboard Shortcuts</h2>
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+      {KEYBOARD_SHORTCUTS.map(({ label, description }) => (
+        <div key={label} className="contents">
+          <dt>
+            <kbd className="px-2 py-0.5 rounded border border-foreground/20 bg-foreground/5 font-mono text-xs">
+              {label}
+            </kbd>
+          </dt>
+          <dd className="text-foreground/80">{description}</dd>
+        </div>
+      ))}
+    </dl>
+  </div>
+);
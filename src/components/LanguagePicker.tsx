@@ -0,0 +1,35 @@
+'use client';
+
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setLanguage } from '@/store/voiceSlice';
+import { RECOGNITION_LANGUAGES, findCommandPack } from '@/utils/commandPacks';
+
+/**
+ * LanguagePicker Component
+ * Chooses the speech recognition language. Languages without a command pack
+ * are still offered for recognition and are marked as using English commands.
+ *
+ * @component
+ */
+export const LanguagePicker = () => {
+  const dispatch = useAppDispatch();
+  const language = useAppSelector((state) => state.voice.language);
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span aria-hidden="true">🌐</span>
+      <span className="sr-only">Voice language</span>
+      <select
+        value={language}
+        onChange={(e) => dispatch(setLanguage(e.target.value))}
+        className="bg-transparent border border-foreground/20 rounded px-2 py-1"
+      >
+        {RECOGNITION_LANGUAGES.map(({ locale, label }) => (
+          <option key={locale} value={locale}>
+            {findCommandPack(locale) ? label : `${label} (English commands)`}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
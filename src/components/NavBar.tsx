@@ -2,6 +2,7 @@
 
 import Link from 'next/link';
 import { useState, useEffect } from 'react';
+import { LanguagePicker } from './LanguagePicker';
 
 export function NavBar() {
   const [darkMode, setDarkMode] = useState(false);
@@ -27,13 +28,16 @@ export function NavBar() {
           </Link>
         </div>
 
-        <button
-          onClick={() => setDarkMode(!darkMode)}
-          className="p-2 rounded-full hover:bg-foreground/10"
-          aria-label="Toggle dark mode"
-        >
-          {darkMode ? 'Light Mode' : 'Dark Mode'}
-        </button>
+        <div className="flex items-center gap-4">
+          <LanguagePicker />
+          <button
+            onClick={() => setDarkMode(!darkMode)}
+            className="p-2 rounded-full hover:bg-foreground/10"
+            aria-label="Toggle dark mode"
+          >
+            {darkMode ? 'Light Mode' : 'Dark Mode'}
+          </button>
+        </div>
       </div>
     </nav>
   );
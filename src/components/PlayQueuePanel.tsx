@@ -0,0 +1,93 @@
+'use client';
+
+import Link from 'next/link';
+import Image from 'next/image';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { clearQueue, moveInQueue, removeFromQueue, setAutoplay } from '@/store/playQueueSlice';
+
+/**
+ * PlayQueuePanel Component
+ * The viewer's play queue: titles Up Next plays before any suggestion, in
+ * order. Titles can be moved, removed or started straight away, and autoplay
+ * of the next title can be turned off. The queue is kept between visits.
+ *
+ * @component
+ */
+export const PlayQueuePanel = () => {
+  const dispatch = useAppDispatch();
+  const { items, autoplay } = useAppSelector((state) => state.playQueue);
+
+  return (
+    <div className="mt-8 p-4 rounded-lg bg-foreground/5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Play Queue</h2>
+        {items.length > 0 && (
+          <button
+            type="button"
+            onClick={() => dispatch(clearQueue())}
+            className="text-sm text-foreground/60 hover:text-foreground"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 text-sm">
+        <input
+          type="checkbox"
+          checked={autoplay}
+          onChange={(event) => dispatch(setAutoplay(event.target.checked))}
+        />
+        Play the next title automatically
+      </label>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-foreground/60">
+          Add titles with the + on any poster. Without a queue, Up Next suggests the next title in the catalog.
+        </p>
+      ) : (
+        <ol className="space-y-2 max-h-96 overflow-y-auto">
+          {items.map((item, index) => (
+            <li key={item.id} className="flex items-center gap-3 text-sm">
+              <span className="w-4 text-foreground/60 tabular-nums">{index + 1}</span>
+              <Link href={`/watch/${item.id}`} className="flex flex-1 min-w-0 items-center gap-3 hover:underline">
+                <div className="relative w-16 flex-none aspect-video rounded overflow-hidden bg-gray-800">
+                  {item.imageUrl && <Image src={item.imageUrl} alt="" fill className="object-cover" unoptimized />}
+                </div>
+                <span className="truncate">{item.title}</span>
+              </Link>
+              <div className="flex flex-none">
+                <button
+                  type="button"
+                  onClick={() => dispatch(moveInQueue({ id: item.id, offset: -1 }))}
+                  disabled={index === 0}
+                  className="px-1.5 rounded hover:bg-foreground/10 disabled:opacity-30"
+                  aria-label={`Move ${item.title} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => dispatch(moveInQueue({ id: item.id, offset: 1 }))}
+                  disabled={index === items.length - 1}
+                  className="px-1.5 rounded hover:bg-foreground/10 disabled:opacity-30"
+                  aria-label={`Move ${item.title} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => dispatch(removeFromQueue(item.id))}
+                  className="px-1.5 rounded hover:bg-foreground/10"
+                  aria-label={`Remove ${item.title} from queue`}
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Chapter, TimeRange } from '@/types/movie';
+import { ThumbnailCue, findThumbnail } from '@/utils/thumbnailTrack';
+import { currentChapterIndex } from '@/utils/chapters';
+import { formatPosition } from '@/utils/formatTime';
+
+interface ProgressBarProps {
+  currentTime: number;
+  duration: number;
+  /** Ranges already downloaded, in seconds */
+  buffered: TimeRange[];
+  chapters: Chapter[];
+  thumbnails: ThumbnailCue[];
+  onSeek: (seconds: number) => void;
+}
+
+/** Width the preview is drawn at when the track's tiles have no size */
+const PREVIEW_WIDTH = 160;
+
+/**
+ * ProgressBar Component
+ * Seek bar showing what has played and what is buffered, with chapter
+ * boundaries. Hovering shows the time, chapter and thumbnail at that point;
+ * clicking or dragging seeks.
+ *
+ * @component
+ */
+export const ProgressBar = ({ currentTime, duration, buffered, chapters, thumbnails, onSeek }: ProgressBarProps) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const percent = (time: number) => (duration > 0 ? Math.min(100, Math.max(0, (time / duration) * 100)) : 0);
+
+  /**
+   * Title position under the pointer
+   */
+  const timeAt = (clientX: number): number => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return (Math.min(Math.max(0, clientX - rect.left), rect.width) / rect.width) * duration;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setIsDragging(true);
+    onSeek(timeAt(event.clientX));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const time = timeAt(event.clientX);
+    setHoverTime(time);
+    if (isDragging) onSeek(time);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setIsDragging(false);
+  };
+
+  const preview = hoverTime === null ? undefined : findThumbnail(thumbnails, hoverTime);
+  const hoverChapter = hoverTime === null ? undefined : chapters[currentChapterIndex(chapters, hoverTime)];
+  const previewWidth = preview?.tile?.width ?? PREVIEW_WIDTH;
+
+  return (
+    <div
+      ref={barRef}
+      className="relative h-4 mb-2 flex items-center cursor-pointer group/progress touch-none"
+      role="slider"
+      tabIndex={0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.floor(duration)}
+      aria-valuenow={Math.floor(currentTime)}
+      aria-valuetext={`${formatPosition(currentTime)} of ${formatPosition(duration)}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => setHoverTime(null)}
+    >
+      <div className="relative w-full h-1 group-hover/progress:h-1.5 transition-all bg-white/20 rounded-full overflow-hidden">
+        {buffered.map(({ start, end }) => (
+          <div
+            key={start}
+            className="absolute inset-y-0 bg-white/40"
+            style={{ left: `${percent(start)}%`, width: `${percent(end) - percent(start)}%` }}
+          />
+        ))}
+        <div className="absolute inset-y-0 left-0 bg-red-600" style={{ width: `${percent(currentTime)}%` }} />
+        {hoverTime !== null && (
+          <div className="absolute inset-y-0 left-0 bg-white/30" style={{ width: `${percent(hoverTime)}%` }} />
+        )}
+        {chapters.slice(1).map(({ start }) => (
+          <div key={start} className="absolute inset-y-0 w-0.5 bg-black/70" style={{ left: `${percent(start)}%` }} />
+        ))}
+      </div>
+
+      <div
+        className="absolute w-3 h-3 -ml-1.5 rounded-full bg-red-600 scale-0 group-hover/progress:scale-100 transition-transform"
+        style={{ left: `${percent(currentTime)}%` }}
+      />
+
+      {hoverTime !== null && (
+        <div
+          className="absolute bottom-full mb-2 -translate-x-1/2 flex flex-col items-center pointer-events-none"
+          style={{ left: `clamp(${previewWidth / 2}px, ${percent(hoverTime)}%, calc(100% - ${previewWidth / 2}px))` }}
+        >
+          {preview && (
+            <div
+              className="rounded border-2 border-white/80 bg-black bg-no-repeat shadow-lg"
+              style={
+                preview.tile
+                  ? {
+                      width: preview.tile.width,
+                      height: preview.tile.height,
+                      backgroundImage: `url("${preview.url}")`,
+                      backgroundPosition: `-${preview.tile.x}px -${preview.tile.y}px`,
+                    }
+                  : {
+                      width: PREVIEW_WIDTH,
+                      aspectRatio: '16 / 9',
+                      backgroundImage: `url("${preview.url}")`,
+                      backgroundSize: 'cover',
+                    }
+              }
+            />
+          )}
+          {hoverChapter && (
+            <div className="mt-1 max-w-[12rem] truncate text-xs text-white/90">{hoverChapter.title}</div>
+          )}
+          <div className="mt-1 px-1.5 py-0.5 rounded bg-black/80 text-xs text-white tabular-nums">
+            {formatPosition(hoverTime)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
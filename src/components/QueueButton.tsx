@@ -0,0 +1,32 @@
+'use client';
+
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { QueuedTitle, addToQueue, removeFromQueue } from '@/store/playQueueSlice';
+
+/**
+ * QueueButton Component
+ * Adds a title to the play queue, or takes it out again. Safe to place
+ * inside a link: the click does not follow it.
+ *
+ * @component
+ */
+export const QueueButton = ({ id, title, imageUrl, className = '' }: QueuedTitle & { className?: string }) => {
+  const dispatch = useAppDispatch();
+  const queued = useAppSelector((state) => state.playQueue.items.some((item) => item.id === id));
+
+  return (
+    <button
+      onClick={(event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        dispatch(queued ? removeFromQueue(id) : addToQueue({ id, title, imageUrl }));
+      }}
+      className={`w-8 h-8 rounded-full bg-black/70 text-white text-sm hover:bg-black/90 transition ${className}`}
+      aria-pressed={queued}
+      aria-label={queued ? `Remove ${title} from queue` : `Add ${title} to queue`}
+      title={queued ? 'Remove from queue' : 'Add to queue'}
+    >
+      {queued ? '✓' : '+'}
+    </button>
+  );
+};
@@ -0,0 +1,68 @@
+'use client';
+
+import { RecognitionError, RecognitionErrorKind } from '@/types/voice';
+
+/**
+ * What to tell the user for each kind of recognition failure
+ */
+export const RECOGNITION_ERROR_GUIDANCE: Record<RecognitionErrorKind, { title: string; guidance: string; canRetry: boolean }> = {
+  permissionDenied: {
+    title: 'Microphone access is blocked',
+    guidance: "Allow microphone access for this site from the icon in your browser's address bar, then try again.",
+    canRetry: true,
+  },
+  noMicrophone: {
+    title: 'No microphone found',
+    guidance: 'Connect a microphone, or close other apps that may be using it, then try again.',
+    canRetry: true,
+  },
+  network: {
+    title: "Can't reach the speech service",
+    guidance: 'Check your internet connection. Voice control will reconnect on its own when it can.',
+    canRetry: true,
+  },
+  noSpeech: {
+    title: "Didn't hear anything",
+    guidance: 'Speak a little closer to the microphone or check that it is not muted.',
+    canRetry: true,
+  },
+  unsupported: {
+    title: "Voice control isn't available in this browser",
+    guidance: 'Use a recent version of Chrome or Edge, or a browser that allows microphone access.',
+    canRetry: false,
+  },
+  unknown: {
+    title: 'Voice control stopped',
+    guidance: 'Something went wrong with speech recognition. Try turning it on again.',
+    canRetry: true,
+  },
+};
+
+interface RecognitionErrorNoticeProps {
+  error: RecognitionError;
+  /** Start listening again; the button is hidden when retrying cannot help */
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * RecognitionErrorNotice Component
+ * Explains why voice control stopped and what the user can do about it.
+ *
+ * @component
+ */
+export const RecognitionErrorNotice = ({ error, onRetry, className = '' }: RecognitionErrorNoticeProps) => {
+  const { title, guidance, canRetry } = RECOGNITION_ERROR_GUIDANCE[error.kind];
+
+  return (
+    <div className={`max-w-xs px-4 py-3 rounded-lg shadow-lg bg-red-500 text-white text-sm ${className}`} role="alert">
+      <p className="font-semibold">{title}</p>
+      <p className="mt-1 text-white/90">{guidance}</p>
+      {canRetry && onRetry && (
+        <button onClick={onRetry} className="mt-2 px-2 py-0.5 rounded bg-white/20 hover:bg-white/30">
+          Try again
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+'use client';
+
+import { formatPosition } from '@/utils/formatTime';
+
+interface ResumePromptProps {
+  /** Where the viewer left off, in seconds */
+  position: number;
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+/**
+ * ResumePrompt Component
+ * "Resume from 1:12:04 / Start over" choice shown when a title was left part
+ * way through. Pressing play instead starts from the beginning.
+ *
+ * @component
+ */
+export const ResumePrompt = ({ position, onResume, onStartOver }: ResumePromptProps) => (
+  <div
+    className="flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg bg-black/80 text-white"
+    role="dialog"
+    aria-label="Resume playback"
+  >
+    <button onClick={onResume} className="px-4 py-2 rounded bg-white text-black font-semibold hover:bg-white/90" autoFocus>
+      Resume from {formatPosition(position)}
+    </button>
+    <button onClick={onStartOver} className="px-4 py-2 rounded hover:bg-white/20">
+      Start over
+    </button>
+  </div>
+);
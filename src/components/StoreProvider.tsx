@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Provider } from 'react-redux';
+import { makeStore, AppStore } from '@/store/store';
+import { restoreVoiceSettings } from '@/store/voiceSlice';
+import { loadVoiceSettings, saveVoiceSettings } from '@/store/voiceSettingsStorage';
+import { restorePlayerSettings } from '@/store/playerSettingsSlice';
+import { loadPlayerSettings, savePlayerSettings } from '@/store/playerSettingsStorage';
+import { restorePlayQueue } from '@/store/playQueueSlice';
+import { loadPlayQueue, savePlayQueue } from '@/store/playQueueStorage';
+
+/**
+ * Provides the Redux store to client components
+ * Creates the store lazily so each request/page load gets its own instance,
+ * and keeps the user's voice and player settings and play queue in localStorage
+ * between visits
+ */
+export const StoreProvider = ({ children }: { children: React.ReactNode }) => {
+  const storeRef = useRef<AppStore | null>(null);
+  if (!storeRef.current) {
+    storeRef.current = makeStore();
+  }
+
+  useEffect(() => {
+    const store = storeRef.current!;
+    // Restored after mount so the first client render matches the server
+    store.dispatch(restoreVoiceSettings(loadVoiceSettings()));
+    store.dispatch(restorePlayerSettings(loadPlayerSettings()));
+    store.dispatch(restorePlayQueue(loadPlayQueue()));
+
+    let { language, activationMode, confidenceThresholds } = store.getState().voice;
+    let playerSettings = store.getState().playerSettings;
+    let playQueue = store.getState().playQueue;
+    return store.subscribe(() => {
+      const { voice, playerSettings: nextPlayerSettings, playQueue: nextPlayQueue } = store.getState();
+      if (
+        voice.language !== language ||
+        voice.activationMode !== activationMode ||
+        voice.confidenceThresholds !== confidenceThresholds
+      ) {
+        ({ language, activationMode, confidenceThresholds } = voice);
+        saveVoiceSettings({ language, activationMode, confidenceThresholds });
+      }
+      if (nextPlayerSettings !== playerSettings) {
+        playerSettings = nextPlayerSettings;
+        savePlayerSettings(playerSettings);
+      }
+      if (nextPlayQueue !== playQueue) {
+        playQueue = nextPlayQueue;
+        savePlayQueue(playQueue);
+      }
+    });
+  }, []);
+
+  return <Provider store={storeRef.current}>{children}</Provider>;
+};
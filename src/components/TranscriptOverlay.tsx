@@ -0,0 +1,89 @@
+'use client';
+
+import { VoiceIntent } from '@/types/voice';
+import { describeIntent } from '@/utils/describeIntent';
+
+/**
+ * What became of a final transcript
+ */
+export interface RecognizedCommand {
+  transcript: string;
+  /** Ran, awaiting "Did you mean ...?", not a command, too unsure to run, or could not be carried out */
+  outcome: 'matched' | 'confirm' | 'unmatched' | 'lowConfidence' | 'failed';
+  intent?: VoiceIntent;
+  /** What running the command did or why it could not, shown in place of the intent */
+  message?: string;
+}
+
+interface TranscriptOverlayProps {
+  /** Partial transcript of the utterance in progress */
+  interim: string;
+  /** The last final transcript and the command it resolved to */
+  command: RecognizedCommand | null;
+}
+
+const OUTCOME_BADGES: Record<RecognizedCommand['outcome'], { label: (command: RecognizedCommand) => string; className: string }> = {
+  matched: {
+    label: ({ intent, message }) => `→ ${message ?? (intent ? describeIntent(intent) : '')}`,
+    className: 'bg-green-500/90',
+  },
+  confirm: {
+    label: ({ intent }) => `? ${intent ? describeIntent(intent) : ''}`,
+    className: 'bg-yellow-500/90',
+  },
+  unmatched: {
+    label: () => '✕ Not a command',
+    className: 'bg-red-500/90',
+  },
+  lowConfidence: {
+    label: () => '✕ Not sure what was said',
+    className: 'bg-red-500/90',
+  },
+  failed: {
+    label: ({ message }) => `✕ ${message ?? 'Could not do that'}`,
+    className: 'bg-red-500/90',
+  },
+};
+
+/**
+ * TranscriptOverlay Component
+ * Caption-style readout of what the recogniser is hearing: the partial
+ * transcript while the user speaks, then the final transcript with the
+ * command it resolved to, or a clear flag when it did not match anything or
+ * could not be carried out.
+ *
+ * @component
+ */
+export const TranscriptOverlay = ({ interim, command }: TranscriptOverlayProps) => {
+  if (!interim && !command) return null;
+
+  const badge = command && OUTCOME_BADGES[command.outcome];
+
+  return (
+    <div
+      className="absolute bottom-20 left-1/2 -translate-x-1/2 max-w-[80%] flex flex-col items-center gap-1 pointer-events-none"
+      aria-live="polite"
+    >
+      {interim ? (
+        <p className="px-3 py-1 rounded bg-black/70 text-white/70 text-lg italic">{interim}…</p>
+      ) : command && badge && (
+        <>
+          {command.transcript && (
+            <p
+              className={`px-3 py-1 rounded bg-black/70 text-lg ${
+                command.outcome === 'unmatched' || command.outcome === 'lowConfidence'
+                  ? 'text-white/60 line-through decoration-red-400'
+                  : 'text-white'
+              }`}
+            >
+              &ldquo;{command.transcript}&rdquo;
+            </p>
+          )}
+          <span className={`px-2 py-0.5 rounded text-xs font-semibold text-white ${badge.className}`}>
+            {badge.label(command)}
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+'use client';
+
+import Image from 'next/image';
+import { UP_NEXT_COUNTDOWN_S, UpNextTitle } from '@/utils/upNext';
+
+interface UpNextOverlayProps {
+  next: UpNextTitle;
+  /** Seconds until it starts on its own; no countdown when undefined */
+  secondsLeft?: number;
+  onPlay: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * UpNextOverlay Component
+ * Card shown over the end credits with the title that plays next, a
+ * countdown bar when autoplay is on, and "Play now" / "Cancel" buttons.
+ *
+ * @component
+ */
+export const UpNextOverlay = ({ next, secondsLeft, onPlay, onCancel }: UpNextOverlayProps) => (
+  <div
+    className="w-72 overflow-hidden rounded-lg shadow-lg bg-black/85 text-white"
+    role="dialog"
+    aria-label="Up next"
+  >
+    <div className="relative aspect-video">
+      <Image src={next.imageUrl} alt={next.title} fill className="object-cover" unoptimized />
+      {secondsLeft !== undefined && (
+        <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/30">
+          <div
+            className="h-full bg-red-600 transition-[width] duration-1000 ease-linear"
+            style={{ width: `${(secondsLeft / UP_NEXT_COUNTDOWN_S) * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+    <div className="p-3">
+      <div className="text-xs uppercase tracking-wide text-white/60">
+        {next.episode ? `Next episode · ${next.episode}` : next.fromQueue ? 'Up next from your queue' : 'Up next'}
+        {secondsLeft !== undefined && ` · in ${secondsLeft}s`}
+      </div>
+      <div className="font-semibold truncate mb-3" title={next.title}>{next.title}</div>
+      <div className="flex gap-2">
+        <button onClick={onPlay} className="flex-1 px-3 py-1.5 rounded bg-white text-black font-semibold hover:bg-white/90">
+          ▶ Play now
+        </button>
+        <button onClick={onCancel} className="px-3 py-1.5 rounded hover:bg-white/20">
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+);
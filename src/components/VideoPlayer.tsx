@@ -1,46 +1,213 @@
 'use client';
 
-import { useRef, useState, useEffect, useCallback } from 'react';
+import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
 import { useVoiceControl } from '../hooks/useVoiceControl';
+import { useVoiceNavigation } from '@/hooks/useVoiceNavigation';
+import { useVoiceCommandDispatch } from '@/hooks/useVoiceCommandDispatch';
+import { useAdaptiveStream } from '@/hooks/useAdaptiveStream';
+import { useChapters } from '@/hooks/useChapters';
+import { useThumbnails } from '@/hooks/useThumbnails';
+import { useWatchProgress } from '@/hooks/useWatchProgress';
+import { usePlaybackTelemetry } from '@/hooks/usePlaybackTelemetry';
+import { useUpNext } from '@/hooks/useUpNext';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useMediaSession } from '@/hooks/useMediaSession';
 import { VideoPlayerProps } from '@/types/video';
+import { PlayerIntent, PlayerIntentType, VoiceIntent } from '@/types/voice';
+import { PlayerSnapshot } from '@/types/commandHistory';
+import { Chapter, PlaybackMarkers, TimeRange } from '@/types/movie';
+import { isNavigationIntent } from '@/utils/commandGrammar';
+import { ACTIVATION_MODES } from '@/utils/activationModes';
+import { findUndoTarget, undoChanges } from '@/utils/commandUndo';
+import { findEpisodeRef, formatEpisodeNumber } from '@/utils/series';
+import { PlayerControl } from '@/utils/keyboardShortcuts';
+import {
+  activeSkippableSegment,
+  chapterStart,
+  currentChapterIndex,
+  nextChapterStart,
+  previousChapterStart,
+  skipIntroTarget,
+} from '@/utils/chapters';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setPlayerActive, setResumeListening, setVoiceStatus } from '@/store/voiceSlice';
+import { markUndone, recordCommand } from '@/store/commandHistorySlice';
+import { setPlaybackPreference, setSubtitlePreference } from '@/store/playerSettingsSlice';
+import { PLAYBACK_RATES, clampPlaybackRate, formatPlaybackRate, stepPlaybackRate } from '@/utils/playbackRates';
+import {
+  findSubtitleTrack,
+  formatTrackLabel,
+  languageName,
+  pickSubtitleTrack,
+  subtitleTrackSource,
+} from '@/utils/subtitleTracks';
+import { CommandConfirmation } from './CommandConfirmation';
+import { RECOGNITION_ERROR_GUIDANCE, RecognitionErrorNotice } from './RecognitionErrorNotice';
+import { RecognizedCommand, TranscriptOverlay } from './TranscriptOverlay';
+import { ResumePrompt } from './ResumePrompt';
+import { ProgressBar } from './ProgressBar';
+import { UpNextOverlay } from './UpNextOverlay';
+
+/** How long the final transcript and its command stay on screen */
+const TRANSCRIPT_DISPLAY_MS = 4000;
+
+/** How far "skip intro" jumps in titles without intro markers */
+const DEFAULT_INTRO_SKIP_S = 90;
 
 /**
- * Map of voice commands to their corresponding actions
+ * Player state setters that voice command actions may update
  */
-const VOICE_COMMANDS = {
-  play: {
-    match: (cmd: string) => cmd.includes('play'),
-    action: (video: HTMLVideoElement, setIsPlaying: (playing: boolean) => void) => {
-      video.play();
-      setIsPlaying(true);
-    }
+interface VoiceCommandContext {
+  video: HTMLVideoElement;
+  setIsPlaying: (playing: boolean) => void;
+  /**
+   * Show subtitles (in a language, or the remembered one) or hide them;
+   * returns false when the title has no subtitles in that language
+   */
+  setSubtitles: (enabled: boolean, language?: string, sdh?: boolean) => boolean;
+  /** Enter or leave full screen, filling the window where the browser refuses */
+  setFullscreen: (enabled: boolean) => void;
+  /** Enter or leave picture in picture; returns false when the browser has none */
+  setPictureInPicture: (enabled: boolean) => boolean;
+  chapters: Chapter[];
+  markers?: PlaybackMarkers;
+  /** Go to the Up Next title */
+  playNext: () => void;
+  /** Stop the Up Next countdown */
+  cancelUpNext: () => void;
+  /**
+   * Go to an episode of the series playing, by season and episode number;
+   * the next one when omitted. Returns false when there is no such episode
+   */
+  goToEpisode: (season?: number, episode?: number) => boolean;
+}
+
+/**
+ * Seek to a position, kept within the title
+ */
+const seekVideo = (video: HTMLVideoElement, seconds: number) => {
+  const end = Number.isFinite(video.duration) ? video.duration : Infinity;
+  video.currentTime = Math.min(end, Math.max(0, seconds));
+};
+
+/**
+ * Set the playback speed, kept for the next source the stream loads
+ */
+const setVideoRate = (video: HTMLVideoElement, rate: number) => {
+  video.defaultPlaybackRate = rate;
+  video.playbackRate = rate;
+};
+
+/**
+ * Map of player intents to their corresponding actions, shared by voice
+ * commands, keyboard shortcuts and media keys ("undo" works on the command
+ * history instead, see runIntent). Actions return false when the command
+ * could not be carried out.
+ */
+const VOICE_COMMANDS: {
+  [K in Exclude<PlayerIntentType, 'undo'>]: (intent: Extract<PlayerIntent, { type: K }>, context: VoiceCommandContext) => boolean | void;
+} = {
+  play: (_, { video, setIsPlaying }) => {
+    video.play();
+    setIsPlaying(true);
   },
-  pause: {
-    match: (cmd: string) => cmd.includes('pause'),
-    action: (video: HTMLVideoElement, setIsPlaying: (playing: boolean) => void) => {
-      video.pause();
-      setIsPlaying(false);
-    }
+  pause: (_, { video, setIsPlaying }) => {
+    video.pause();
+    setIsPlaying(false);
   },
-  skipIntro: {
-    match: (cmd: string) => cmd.includes('skip intro'),
-    action: (video: HTMLVideoElement) => {
-      video.currentTime += 90;
+  skipIntro: (_, { video, markers }) => {
+    if (!markers?.intro && !markers?.recap) {
+      seekVideo(video, video.currentTime + DEFAULT_INTRO_SKIP_S);
+      return;
     }
+    const target = skipIntroTarget(markers, video.currentTime);
+    if (target !== undefined) seekVideo(video, target);
   },
-  subtitlesOn: {
-    match: (cmd: string) => cmd.includes('subtitles on'),
-    action: (_: HTMLVideoElement, setIsPlaying: (playing: boolean) => void, setShowSubtitles: (show: boolean) => void) => {
-      setShowSubtitles(true);
-    }
+  seekBy: ({ seconds }, { video }) => {
+    seekVideo(video, video.currentTime + seconds);
+  },
+  seekTo: ({ seconds }, { video }) => {
+    seekVideo(video, seconds);
+  },
+  nextChapter: (_, { video, chapters }) => {
+    const start = nextChapterStart(chapters, video.currentTime);
+    if (start !== undefined) seekVideo(video, start);
   },
-  subtitlesOff: {
-    match: (cmd: string) => cmd.includes('subtitles off'),
-    action: (_: HTMLVideoElement, setIsPlaying: (playing: boolean) => void, setShowSubtitles: (show: boolean) => void) => {
-      setShowSubtitles(false);
+  previousChapter: (_, { video, chapters }) => {
+    const start = previousChapterStart(chapters, video.currentTime);
+    if (start !== undefined) seekVideo(video, start);
+  },
+  goToChapter: ({ chapter }, { video, chapters }) => {
+    const start = chapterStart(chapters, chapter);
+    if (start !== undefined) seekVideo(video, start);
+  },
+  setVolume: ({ percent }, { video }) => {
+    video.volume = percent / 100;
+    video.muted = percent === 0;
+  },
+  adjustVolume: ({ percent }, { video }) => {
+    const level = Math.min(100, Math.max(0, Math.round(video.volume * 100) + percent));
+    video.volume = level / 100;
+    // "Louder" also unmutes; "quieter" leaves a muted player muted
+    video.muted = level === 0 || (video.muted && percent < 0);
+  },
+  setMuted: ({ muted }, { video }) => {
+    video.muted = muted;
+  },
+  setPlaybackRate: ({ rate }, { video }) => {
+    setVideoRate(video, clampPlaybackRate(rate));
+  },
+  stepPlaybackRate: ({ steps }, { video }) => {
+    setVideoRate(video, stepPlaybackRate(video.playbackRate, steps));
+  },
+  setFullscreen: ({ enabled }, { setFullscreen }) => {
+    setFullscreen(enabled);
+  },
+  setPictureInPicture: ({ enabled }, { setPictureInPicture }) => setPictureInPicture(enabled),
+  setSubtitles: ({ enabled, language }, { setSubtitles }) => setSubtitles(enabled, language),
+  playNext: (_, { playNext }) => {
+    playNext();
+  },
+  cancelUpNext: (_, { cancelUpNext }) => {
+    cancelUpNext();
+  },
+  nextEpisode: (_, { goToEpisode }) => goToEpisode(),
+  playEpisode: ({ season, episode }, { goToEpisode }) => goToEpisode(season, episode),
+};
+
+/**
+ * Capture the player state voice commands can change
+ */
+const readSnapshot = (video: HTMLVideoElement, subtitles: string | null): PlayerSnapshot => ({
+  currentTime: video.currentTime,
+  paused: video.paused,
+  volume: Math.round(video.volume * 100),
+  muted: video.muted,
+  playbackRate: video.playbackRate,
+  subtitles,
+});
+
+/**
+ * Restore part of a snapshot, e.g. to undo a command
+ */
+const applySnapshot = (changes: Partial<PlayerSnapshot>, { video, setIsPlaying, setSubtitles }: VoiceCommandContext) => {
+  if (changes.currentTime !== undefined) video.currentTime = changes.currentTime;
+  if (changes.volume !== undefined) video.volume = changes.volume / 100;
+  if (changes.muted !== undefined) video.muted = changes.muted;
+  if (changes.playbackRate !== undefined) setVideoRate(video, changes.playbackRate);
+  if (changes.subtitles !== undefined) {
+    setSubtitles(changes.subtitles !== null, changes.subtitles ?? undefined);
+  }
+  if (changes.paused !== undefined) {
+    if (changes.paused) {
+      video.pause();
+    } else {
+      video.play();
     }
+    setIsPlaying(!changes.paused);
   }
-} as const;
+};
 
 /**
  * Type for video event handlers
@@ -51,73 +218,462 @@ type VideoEventHandler = (event: Event) => void;
  * Map of video events to their handlers
  */
 type VideoEventHandlers = {
-  [K in keyof HTMLMediaElementEventMap]?: (event: HTMLMediaElementEventMap[K]) => void;
+  [K in keyof HTMLVideoElementEventMap]?: (event: HTMLVideoElementEventMap[K]) => void;
 };
 
 /**
  * VideoPlayer Component
  * A feature-rich video player with voice control capabilities, custom controls,
- * and subtitle support.
+ * subtitle tracks in several languages and adaptive streaming (HLS/DASH manifests, or MP4
+ * renditions) behind the quality selector. Watch progress is saved as the title plays, and a
+ * title left part way through offers to resume where the viewer stopped. The control bar covers
+ * seeking (with thumbnail previews), volume, speed, full screen and picture-in-picture; keyboard
+ * shortcuts and hardware media keys run the same player actions as voice commands. Speed and
+ * volume carry over between titles. Startup time, stalls, errors, seeks, bitrate and watch
+ * time are reported to `/api/telemetry`. From the end credits, Up Next offers the next title
+ * (the next episode of a series, or from the play queue or the catalog) and counts down to
+ * it. Episodes also take "next episode" and "play season 2 episode 3".
  *
  * @component
  * @example
  * ```tsx
  * <VideoPlayer
+ *   id="example-video"
  *   src="https://example.com/video.mp4"
+ *   manifest={{ type: 'hls', url: 'https://example.com/master.m3u8' }}
  *   title="Example Video"
  *   poster="https://example.com/thumbnail.jpg"
- *   subtitleUrl="/subtitles/example.vtt"
+ *   subtitles={[{ language: 'en', label: 'English', kind: 'subtitles', url: '/subtitles/example.vtt' }]}
  * />
  * ```
  */
-export const VideoPlayer = ({ src, title, poster, subtitleUrl }: VideoPlayerProps) => {
+export const VideoPlayer = ({
+  id,
+  src,
+  title,
+  poster,
+  subtitles,
+  renditions,
+  manifest,
+  markers,
+  chapters,
+  chaptersUrl,
+  thumbnailsUrl,
+  episode,
+}: VideoPlayerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [quality, setQuality] = useState<'auto' | '1080p' | '720p' | '480p'>('auto');
-  const [showSubtitles, setShowSubtitles] = useState(false);
+  const [buffered, setBuffered] = useState<TimeRange[]>([]);
+  const { engine, levels, quality, setQuality, rendition } = useAdaptiveStream(
+    videoRef,
+    { src, renditions, manifest },
+    (err) => {
+      console.warn('Playback did not resume after a quality change:', err);
+      setIsPlaying(false);
+      showCommandFailure('Playback paused after a quality change; press play to continue');
+    }
+  );
+  const chapterList = useChapters(chapters, chaptersUrl);
+  const thumbnails = useThumbnails(thumbnailsUrl);
+  const { resumeAt, resume, startOver } = useWatchProgress(videoRef, id, markers);
+  usePlaybackTelemetry(videoRef, id, engine, rendition);
+  const nextEpisode = useMemo(
+    () =>
+      episode?.next && {
+        id: episode.next.id,
+        title: episode.next.title,
+        imageUrl: episode.series.thumbnail,
+        fromQueue: false,
+        episode: formatEpisodeNumber(episode.next.season, episode.next.number),
+      },
+    [episode]
+  );
+  const upNext = useUpNext(videoRef, id, markers, nextEpisode);
+
+  const dispatch = useAppDispatch();
+  const subtitleTracks = subtitles ?? [];
+  const subtitlePreference = useAppSelector((state) => state.playerSettings.subtitles);
+  const playback = useAppSelector((state) => state.playerSettings.playback);
+  const activeSubtitleTrack = pickSubtitleTrack(subtitleTracks, subtitlePreference);
 
   /**
-   * Effect to control subtitle visibility
+   * Effect to show the chosen subtitle track and hide the others
    */
   useEffect(() => {
     const video = videoRef.current;
-    if (!video || !video.textTracks || video.textTracks.length === 0) return;
+    if (!video) return;
 
-    // Find the English subtitles track
-    const subtitlesTrack = Array.from(video.textTracks).find(
-      (track) => track.label === 'English'
-    );
+    video.querySelectorAll('track').forEach((element, index) => {
+      element.track.mode = subtitleTracks[index] === activeSubtitleTrack ? 'showing' : 'hidden';
+    });
+  }, [activeSubtitleTrack, subtitles]);
+
+  /**
+   * Effect to apply the remembered speed and volume
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
 
-    if (subtitlesTrack) {
-      subtitlesTrack.mode = showSubtitles ? 'showing' : 'hidden';
+    setVideoRate(video, playback.playbackRate);
+    video.volume = playback.volume / 100;
+    video.muted = playback.muted;
+  }, [playback]);
+
+  const navigate = useVoiceNavigation();
+  const language = useAppSelector((state) => state.voice.language);
+  const confidenceThresholds = useAppSelector((state) => state.voice.confidenceThresholds);
+  const history = useAppSelector((state) => state.commandHistory.entries);
+
+  // Actions read the subtitle language synchronously, before React re-renders
+  const subtitleLanguageRef = useRef<string | null>(null);
+  subtitleLanguageRef.current = activeSubtitleTrack?.language ?? null;
+
+  const [recognizedCommand, setRecognizedCommand] = useState<RecognizedCommand | null>(null);
+  const recognizedTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  /**
+   * Show a final transcript and what it resolved to in the caption overlay
+   */
+  const showRecognizedCommand = (command: RecognizedCommand) => {
+    if (recognizedTimerRef.current) clearTimeout(recognizedTimerRef.current);
+    setRecognizedCommand(command);
+    recognizedTimerRef.current = setTimeout(() => setRecognizedCommand(null), TRANSCRIPT_DISPLAY_MS);
+  };
+
+  /**
+   * Flag the command on screen as not carried out, and say why
+   */
+  const showCommandFailure = (message: string) => {
+    if (recognizedTimerRef.current) clearTimeout(recognizedTimerRef.current);
+    setRecognizedCommand((command) => ({
+      transcript: command?.transcript ?? '',
+      intent: command?.intent,
+      outcome: 'failed',
+      message,
+    }));
+    recognizedTimerRef.current = setTimeout(() => setRecognizedCommand(null), TRANSCRIPT_DISPLAY_MS);
+  };
+
+  useEffect(() => () => {
+    if (recognizedTimerRef.current) clearTimeout(recognizedTimerRef.current);
+  }, []);
+
+  /**
+   * Show subtitles in a language (the remembered one when none is given) or
+   * hide them, and remember the choice for the next title
+   */
+  const setSubtitles = (enabled: boolean, language?: string, sdh = false): boolean => {
+    const track = language ? findSubtitleTrack(subtitleTracks, language, sdh) : undefined;
+    if (language && !track) {
+      showCommandFailure(`No ${languageName(language)} subtitles for ${title}`);
+      return false;
     }
-  }, [showSubtitles, subtitleUrl]);
+
+    const preference = track
+      ? { enabled, language: track.language, sdh: Boolean(track.sdh) }
+      : { ...subtitlePreference, enabled };
+    dispatch(setSubtitlePreference(preference));
+    subtitleLanguageRef.current = pickSubtitleTrack(subtitleTracks, preference)?.language ?? null;
+    return true;
+  };
+
+  const [isNativeFullscreen, setIsNativeFullscreen] = useState(false);
+  // Stand-in for full screen when the browser refuses, e.g. for voice commands
+  const [fillsWindow, setFillsWindow] = useState(false);
+  const [isPictureInPicture, setIsPictureInPicture] = useState(false);
+  const [canPictureInPicture, setCanPictureInPicture] = useState(false);
+  const isFullscreen = isNativeFullscreen || fillsWindow;
 
   /**
-   * Handles voice commands for video playback control using a command pattern
-   * @param command - The voice command to execute
+   * Enter or leave full screen. Browsers only allow full screen in response
+   * to a click or key press, so voice commands fill the window instead.
    */
-  const handleCommand = (command: string) => {
+  const setFullscreen = (enabled: boolean) => {
+    if (!enabled) {
+      setFillsWindow(false);
+      if (document.fullscreenElement) {
+        document.exitFullscreen().catch((err) => console.warn('Failed to exit full screen:', err));
+      }
+      return;
+    }
+
+    const container = containerRef.current;
+    if (!container || isFullscreen) return;
+    if (!container.requestFullscreen) {
+      setFillsWindow(true);
+      return;
+    }
+    container.requestFullscreen().catch(() => setFillsWindow(true));
+  };
+
+  /**
+   * Move the video into a floating window, or back into the page; returns
+   * false when the browser has no picture in picture
+   */
+  const setPictureInPicture = (enabled: boolean): boolean => {
+    const video = videoRef.current;
+    if (!video || !canPictureInPicture) {
+      showCommandFailure('Picture in picture is not supported in this browser');
+      return false;
+    }
+
+    const request = enabled
+      ? document.pictureInPictureElement !== video && video.requestPictureInPicture()
+      : document.pictureInPictureElement && document.exitPictureInPicture();
+    if (request) {
+      // Like full screen, browsers may refuse without a click or key press
+      request.catch((err: unknown) => console.warn('Picture in picture unavailable:', err));
+    }
+    return true;
+  };
+
+  const router = useRouter();
+
+  /**
+   * Go to another episode of the series: the one at a season and episode
+   * number, or the next one; returns false when there is no such episode
+   */
+  const goToEpisode = (season?: number, number?: number): boolean => {
+    if (!episode) {
+      showCommandFailure(`${title} is not an episode of a series`);
+      return false;
+    }
+
+    const target = season === undefined ? episode.next : findEpisodeRef(episode.episodes, season, number ?? 1);
+    if (!target) {
+      showCommandFailure(
+        season === undefined
+          ? `This is the last episode of ${episode.series.title}`
+          : `${episode.series.title} has no season ${season} episode ${number}`
+      );
+      return false;
+    }
+    router.push(`/watch/${target.id}`);
+    return true;
+  };
+
+  /**
+   * Track native full screen, and let Escape leave the window-filling fallback
+   */
+  useEffect(() => {
+    setCanPictureInPicture(Boolean(document.pictureInPictureEnabled));
+
+    const handleFullscreenChange = () => {
+      setIsNativeFullscreen(document.fullscreenElement === containerRef.current);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setFillsWindow(false);
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  /**
+   * Setters the player actions work through
+   */
+  const commandContext = (video: HTMLVideoElement): VoiceCommandContext => ({
+    video,
+    setIsPlaying,
+    setSubtitles,
+    setFullscreen,
+    setPictureInPicture,
+    chapters: chapterList,
+    markers,
+    playNext: upNext.playNext,
+    cancelUpNext: upNext.cancel,
+    goToEpisode,
+  });
+
+  /**
+   * Run a player intent without recording it, for keyboard shortcuts and media keys
+   */
+  const performIntent = (intent: PlayerIntent) => {
+    const video = videoRef.current;
+    if (!video || intent.type === 'undo') return;
+
+    const action = VOICE_COMMANDS[intent.type] as (intent: PlayerIntent, context: VoiceCommandContext) => boolean | void;
+    action(intent, commandContext(video));
+  };
+
+  /**
+   * Runs a voice intent and records it in the command history: player intents
+   * go to the matching action, "undo" reverses the last reversible command,
+   * and navigation intents ("go home", "play Dog Man") go to the app-wide
+   * navigation layer
+   * @param intent - The parsed voice command
+   * @param transcript - The words it was recognised from
+   */
+  const runIntent = (intent: VoiceIntent, transcript: string) => {
     const video = videoRef.current;
     if (!video) return;
 
-    // Find and execute the matching command
-    Object.values(VOICE_COMMANDS).some(({ match, action }) => {
-      if (match(command)) {
-        action(video, setIsPlaying, setShowSubtitles);
-        return true; // Stop iteration after first match
+    const timestamp = Date.now();
+    const entry = {
+      id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      transcript,
+      intent,
+      timestamp,
+      title,
+      undone: false,
+    };
+
+    if (isNavigationIntent(intent)) {
+      dispatch(recordCommand(entry));
+      navigate(intent)
+        .then((message) => showRecognizedCommand({ transcript, outcome: 'matched', intent, message }))
+        .catch((err) => {
+          console.warn('Voice navigation failed:', err);
+          showRecognizedCommand({ transcript, outcome: 'failed', intent, message: 'Something went wrong, please try again' });
+        });
+      return;
+    }
+
+    const context = commandContext(video);
+    const before = readSnapshot(video, subtitleLanguageRef.current);
+
+    if (intent.type === 'undo') {
+      const target = findUndoTarget(history, title);
+      if (target) {
+        applySnapshot(undoChanges(target), context);
+        dispatch(markUndone(target.id));
       }
-      return false;
-    });
+      dispatch(recordCommand({
+        ...entry,
+        before,
+        after: readSnapshot(video, subtitleLanguageRef.current),
+        undoes: target?.id ?? null,
+      }));
+      return;
+    }
+
+    const action = VOICE_COMMANDS[intent.type] as (intent: PlayerIntent, context: VoiceCommandContext) => boolean | void;
+    if (action(intent, context) === false) {
+      dispatch(recordCommand({ ...entry, failed: true }));
+      return;
+    }
+    dispatch(recordCommand({ ...entry, before, after: readSnapshot(video, subtitleLanguageRef.current) }));
   };
 
-  const { isListening, error, currentMode, startListening, stopListening } = useVoiceControl(
-    { onCommand: handleCommand },
-    { mode: 'auto', language: 'en-US' }
+  const { handleResult, pending, confirm, dismiss } = useVoiceCommandDispatch({
+    language,
+    thresholds: confidenceThresholds,
+    onIntent: (intent, transcript) => {
+      showRecognizedCommand({ transcript, outcome: 'matched', intent });
+      runIntent(intent, transcript);
+    },
+    onReject: ({ reason, transcript }) =>
+      showRecognizedCommand({ transcript, outcome: reason === 'noMatch' ? 'unmatched' : 'lowConfidence' }),
+  });
+
+  /**
+   * Flag commands waiting for confirmation in the caption overlay too
+   */
+  useEffect(() => {
+    if (pending) {
+      showRecognizedCommand({ transcript: pending.transcript, outcome: 'confirm', intent: pending.intent });
+    }
+  }, [pending]);
+
+  const activation = useAppSelector((state) => state.voice.activationMode);
+  const resumeListening = useAppSelector((state) => state.voice.resumeListening);
+
+  const {
+    isListening,
+    error,
+    recovering,
+    currentMode,
+    activationMode,
+    activationState,
+    interimTranscript,
+    startListening,
+    stopListening,
+    toggleListening,
+    beginPushToTalk,
+    endPushToTalk,
+  } = useVoiceControl(
+    { onCommand: (_, result) => handleResult(result) },
+    { mode: 'auto', language, activation }
   );
 
+  const isListeningRef = useRef(isListening);
+  isListeningRef.current = isListening;
+
+  /**
+   * Take over voice commands from the app-wide navigator while mounted, and
+   * hand a live session back to it when leaving the player
+   */
+  useEffect(() => {
+    dispatch(setPlayerActive(true));
+    return () => {
+      dispatch(setResumeListening(isListeningRef.current));
+      dispatch(setPlayerActive(false));
+    };
+  }, [dispatch]);
+
+  /**
+   * Continue a listening session handed over by the navigator
+   */
+  useEffect(() => {
+    if (resumeListening) {
+      dispatch(setResumeListening(false));
+      startListening();
+    }
+  }, [dispatch, resumeListening, startListening]);
+
+  /**
+   * Publish voice status so VoiceControlInfo can display it
+   */
+  useEffect(() => {
+    dispatch(setVoiceStatus({ isListening, activationState, recognitionMode: currentMode }));
+  }, [dispatch, isListening, activationState, currentMode]);
+
+  const isPushToTalk = activationMode === 'pushToTalk';
+
+  /**
+   * Player controls that have no voice intent, for keyboard shortcuts
+   */
+  const PLAYER_CONTROLS: Record<PlayerControl, () => void> = {
+    // Holding the key talks in push-to-talk mode, see useVoiceControl
+    toggleVoice: () => {
+      if (!isPushToTalk) toggleListening();
+    },
+  };
+
+  useKeyboardShortcuts((shortcut, key) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const action = shortcut.action({
+      paused: video.paused,
+      currentTime: video.currentTime,
+      duration: video.duration,
+      muted: video.muted,
+      subtitles: subtitleLanguageRef.current !== null,
+      fullscreen: isFullscreen,
+      pictureInPicture: document.pictureInPictureElement === video,
+    }, key);
+    if (action.kind === 'intent') {
+      performIntent(action.intent);
+    } else {
+      PLAYER_CONTROLS[action.control]();
+    }
+  });
+
+  useMediaSession(videoRef, { title, poster, hasChapters: chapterList.length > 0, onIntent: performIntent });
+
+  const currentChapter = chapterList[currentChapterIndex(chapterList, currentTime)];
+  const skippableSegment = activeSkippableSegment(markers, currentTime);
+  const isAwake = activationState === 'awake';
+
   /**
    * Memoized event handlers to prevent recreating on every render
    */
@@ -133,6 +689,13 @@ export const VideoPlayer = ({ src, title, poster, subtitleUrl }: VideoPlayerProp
     }
   }, []);
 
+  const handleProgress = useCallback(() => {
+    const ranges = videoRef.current?.buffered;
+    if (ranges) {
+      setBuffered(Array.from({ length: ranges.length }, (_, i) => ({ start: ranges.start(i), end: ranges.end(i) })));
+    }
+  }, []);
+
   const handlePlay = useCallback(() => {
     setIsPlaying(true);
   }, []);
@@ -141,6 +704,30 @@ export const VideoPlayer = ({ src, title, poster, subtitleUrl }: VideoPlayerProp
     setIsPlaying(false);
   }, []);
 
+  // Volume and speed are remembered however they change (controls, keys, voice)
+  const handleVolumeChange = useCallback(() => {
+    if (videoRef.current) {
+      dispatch(setPlaybackPreference({
+        volume: Math.round(videoRef.current.volume * 100),
+        muted: videoRef.current.muted,
+      }));
+    }
+  }, [dispatch]);
+
+  const handleRateChange = useCallback(() => {
+    if (videoRef.current && PLAYBACK_RATES.includes(videoRef.current.playbackRate)) {
+      dispatch(setPlaybackPreference({ playbackRate: videoRef.current.playbackRate }));
+    }
+  }, [dispatch]);
+
+  const handleEnterPictureInPicture = useCallback(() => {
+    setIsPictureInPicture(true);
+  }, []);
+
+  const handleLeavePictureInPicture = useCallback(() => {
+    setIsPictureInPicture(false);
+  }, []);
+
   /**
    * Map of event names to their handlers
    * Using a constant outside of the effect to prevent recreation
@@ -148,8 +735,15 @@ export const VideoPlayer = ({ src, title, poster, subtitleUrl }: VideoPlayerProp
   const VIDEO_EVENT_HANDLERS: VideoEventHandlers = {
     timeupdate: handleTimeUpdate,
     loadedmetadata: handleLoadedMetadata,
+    durationchange: handleLoadedMetadata,
+    progress: handleProgress,
+    emptied: handleProgress,
     play: handlePlay,
     pause: handlePause,
+    volumechange: handleVolumeChange,
+    ratechange: handleRateChange,
+    enterpictureinpicture: handleEnterPictureInPicture,
+    leavepictureinpicture: handleLeavePictureInPicture,
   };
 
   /**
@@ -189,27 +783,41 @@ export const VideoPlayer = ({ src, title, poster, subtitleUrl }: VideoPlayerProp
   };
 
   return (
-    <div className="relative w-full aspect-video bg-black">
+    <div
+      ref={containerRef}
+      className={`${fillsWindow ? 'fixed inset-0 z-50' : 'relative w-full aspect-video'} bg-black`}
+    >
       <video
         ref={videoRef}
-        src={src}
         poster={poster}
         className="w-full h-full"
-        controls
         crossOrigin="anonymous"
+        onClick={() => performIntent({ type: isPlaying ? 'pause' : 'play' })}
+        onDoubleClick={() => setFullscreen(!isFullscreen)}
       >
-        {subtitleUrl && (
+        {subtitleTracks.map((track) => (
           <track
-            src={subtitleUrl}
-            kind="subtitles"
-            srcLang="en"
-            label="English"
-            default={showSubtitles}
+            key={track.url}
+            src={subtitleTrackSource(track)}
+            kind={track.kind}
+            srcLang={track.language}
+            label={formatTrackLabel(track)}
           />
-        )}
+        ))}
       </video>
 
       <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent">
+        <ProgressBar
+          currentTime={currentTime}
+          duration={duration}
+          buffered={buffered}
+          chapters={chapterList}
+          thumbnails={thumbnails}
+          onSeek={(seconds) => {
+            if (videoRef.current) seekVideo(videoRef.current, seconds);
+          }}
+        />
+
         <div className="flex items-center justify-between text-white">
           <div className="flex items-center gap-4">
             <button
@@ -219,57 +827,197 @@ export const VideoPlayer = ({ src, title, poster, subtitleUrl }: VideoPlayerProp
             >
               {isPlaying ? '⏸️' : '▶️'}
             </button>
+            <div className="flex items-center gap-2 group/volume">
+              <button
+                onClick={() => performIntent({ type: 'setMuted', muted: !playback.muted })}
+                className="p-2 hover:bg-white/20 rounded-full transition"
+                aria-label={playback.muted ? 'Unmute' : 'Mute'}
+              >
+                {playback.muted || playback.volume === 0 ? '🔇' : playback.volume < 50 ? '🔉' : '🔊'}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={playback.muted ? 0 : playback.volume}
+                onChange={(e) => performIntent({ type: 'setVolume', percent: Number(e.target.value) })}
+                className="w-20 accent-white cursor-pointer"
+                aria-label="Volume"
+              />
+            </div>
             <div className="text-sm">
               {formatTime(currentTime)} / {formatTime(duration)}
             </div>
+            {currentChapter && (
+              <div className="text-sm text-white/80 truncate max-w-[16rem]" title={currentChapter.title}>
+                Chapter {chapterList.indexOf(currentChapter) + 1}: {currentChapter.title}
+              </div>
+            )}
           </div>
 
           <div className="flex items-center gap-4">
             <select
-              value={quality}
-              onChange={(e) => setQuality(e.target.value as any)}
+              value={playback.playbackRate}
+              onChange={(e) => performIntent({ type: 'setPlaybackRate', rate: Number(e.target.value) })}
               className="bg-transparent border border-white/20 rounded px-2 py-1"
+              aria-label="Playback speed"
+            >
+              {PLAYBACK_RATES.map((rate) => (
+                <option key={rate} value={rate} className="text-black">
+                  {rate === 1 ? 'Normal speed' : formatPlaybackRate(rate)}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={quality}
+              onChange={(e) => setQuality(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+              disabled={levels.length === 0}
+              className="bg-transparent border border-white/20 rounded px-2 py-1 disabled:opacity-60"
               aria-label="Video quality"
+              title={engine ? `Streaming: ${engine}${rendition ? ` · Playing ${rendition.label}` : ''}` : undefined}
             >
-              <option value="auto">Auto</option>
-              <option value="1080p">1080p</option>
-              <option value="720p">720p</option>
-              <option value="480p">480p</option>
+              <option value="auto" className="text-black">
+                {rendition ? `Auto (${rendition.label})` : 'Auto'}
+              </option>
+              {levels.map(({ id, label }) => (
+                <option key={id} value={id} className="text-black">{label}</option>
+              ))}
             </select>
 
             <button
-              onClick={() => setShowSubtitles(!showSubtitles)}
+              onClick={() => setSubtitles(!activeSubtitleTrack)}
+              disabled={subtitleTracks.length === 0}
+              className="p-2 hover:bg-white/20 rounded-full transition disabled:opacity-40"
+              aria-label={activeSubtitleTrack ? 'Disable subtitles' : 'Enable subtitles'}
+            >
+              {activeSubtitleTrack ? 'CC active' : 'cc'}
+            </button>
+
+            {subtitleTracks.length > 0 && (
+              <select
+                value={activeSubtitleTrack ? subtitleTracks.indexOf(activeSubtitleTrack) : 'off'}
+                onChange={(e) => {
+                  const track = subtitleTracks[Number(e.target.value)];
+                  if (track) {
+                    setSubtitles(true, track.language, Boolean(track.sdh));
+                  } else {
+                    setSubtitles(false);
+                  }
+                }}
+                className="bg-transparent border border-white/20 rounded px-2 py-1"
+                aria-label="Subtitle language"
+              >
+                <option value="off" className="text-black">Subtitles off</option>
+                {subtitleTracks.map((track, index) => (
+                  <option key={track.url} value={index} className="text-black" lang={track.language}>
+                    {formatTrackLabel(track)}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            <button
+              onClick={() => setPictureInPicture(!isPictureInPicture)}
+              disabled={!canPictureInPicture}
+              className="p-2 hover:bg-white/20 rounded-full transition disabled:opacity-40"
+              aria-label={isPictureInPicture ? 'Exit picture in picture' : 'Picture in picture'}
+              aria-pressed={isPictureInPicture}
+            >
+              ⧉
+            </button>
+
+            <button
+              onClick={() => setFullscreen(!isFullscreen)}
               className="p-2 hover:bg-white/20 rounded-full transition"
-              aria-label={showSubtitles ? 'Disable subtitles' : 'Enable subtitles'}
+              aria-label={isFullscreen ? 'Exit full screen' : 'Full screen'}
+              aria-pressed={isFullscreen}
             >
-              {showSubtitles ? 'CC active' : 'cc'}
+              ⛶
             </button>
 
             <button
-              onClick={() => isListening ? stopListening() : startListening()}
-              className={`p-2 rounded-full transition ${
-                isListening ? 'bg-red-500 hover:bg-red-600' : 'hover:bg-white/20'
+              onClick={isPushToTalk ? undefined : () => isListening ? stopListening() : startListening()}
+              onPointerDown={isPushToTalk ? beginPushToTalk : undefined}
+              onPointerUp={isPushToTalk ? endPushToTalk : undefined}
+              onPointerLeave={isPushToTalk ? endPushToTalk : undefined}
+              className={`flex items-center gap-1 p-2 rounded-full transition ${
+                isListening && isAwake
+                  ? 'bg-red-500 hover:bg-red-600'
+                  : isListening
+                    ? 'bg-yellow-500/80 hover:bg-yellow-600'
+                    : 'hover:bg-white/20'
               }`}
-              aria-label={isListening ? 'Stop voice control' : 'Start voice control'}
-              title={`Voice Recognition Mode: ${currentMode}`}
+              aria-label={
+                isPushToTalk
+                  ? 'Hold to talk'
+                  : isListening ? 'Stop voice control' : 'Start voice control'
+              }
+              aria-pressed={isListening}
+              title={`Voice Recognition Mode: ${currentMode} · Activation: ${ACTIVATION_MODES[activationMode].label}`}
             >
               🎤
+              <span className="text-[10px] font-semibold tracking-wide">
+                {ACTIVATION_MODES[activationMode].badge}
+              </span>
             </button>
           </div>
         </div>
       </div>
 
       {error && (
-        <div className="absolute top-4 right-4 bg-red-500 text-white px-4 py-2 rounded" role="alert">
-          {error}
+        <RecognitionErrorNotice error={error} onRetry={startListening} className="absolute top-4 right-4" />
+      )}
+
+      {skippableSegment && (
+        <button
+          onClick={() => {
+            if (videoRef.current) videoRef.current.currentTime = skippableSegment.range.end;
+          }}
+          className="absolute bottom-20 right-4 bg-white/90 text-black font-semibold px-4 py-2 rounded hover:bg-white transition"
+        >
+          {skippableSegment.kind === 'recap' ? 'Skip Recap' : 'Skip Intro'}
+        </button>
+      )}
+
+      {resumeAt !== undefined && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <div className="pointer-events-auto">
+            <ResumePrompt position={resumeAt} onResume={resume} onStartOver={startOver} />
+          </div>
+        </div>
+      )}
+
+      {upNext.visible && upNext.next && (
+        <div className="absolute bottom-24 right-4">
+          <UpNextOverlay
+            next={upNext.next}
+            secondsLeft={upNext.secondsLeft}
+            onPlay={upNext.playNext}
+            onCancel={upNext.cancel}
+          />
+        </div>
+      )}
+
+      <TranscriptOverlay interim={interimTranscript} command={recognizedCommand} />
+
+      {pending && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2">
+          <CommandConfirmation pending={pending} onConfirm={confirm} onDismiss={dismiss} />
         </div>
       )}
 
       {/* Voice Recognition Status */}
       {isListening && (
-        <div className="absolute top-4 left-4 bg-green-500 text-white px-4 py-2 rounded flex items-center gap-2">
+        <div className={`absolute top-4 left-4 text-white px-4 py-2 rounded flex items-center gap-2 ${
+          recovering ? 'bg-yellow-600' : 'bg-green-500'
+        }`}>
           <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
-          Listening ({currentMode})
+          {recovering
+            ? `Reconnecting… (${RECOGNITION_ERROR_GUIDANCE[recovering.kind].title})`
+            : activationMode === 'wakePhrase' && !isAwake
+              ? `Say "Hey Stream" (${currentMode})`
+              : `Listening (${currentMode})`}
         </div>
       )}
     </div>
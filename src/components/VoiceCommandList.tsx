@@ -0,0 +1,30 @@
+'use client';
+
+import { useAppSelector } from '@/store/hooks';
+import { getCommandPack } from '@/utils/commandPacks';
+
+/**
+ * VoiceCommandList Component
+ * Lists example voice commands from the command pack of the selected
+ * recognition language, so the page always shows phrases that will work.
+ *
+ * @component
+ */
+export const VoiceCommandList = () => {
+  const language = useAppSelector((state) => state.voice.language);
+  const pack = getCommandPack(language);
+
+  return (
+    <div className="mt-8 p-4 rounded-lg bg-foreground/5">
+      <h2 className="text-xl font-semibold mb-4">Available Voice Commands</h2>
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-4" lang={pack.locale}>
+        {[...pack.playerExamples, ...pack.navigationExamples].map((example) => (
+          <li key={example} className="flex items-center gap-2">
+            <span className="text-foreground/60">🎤</span>
+            &quot;{example}&quot;
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -7,18 +7,42 @@
 
 import { useEffect, useState } from 'react';
 import { detectBrowserSupport, getBrowserCompatibilityMessage } from '@/utils/browserSupport';
+import { ACTIVATION_MODES } from '@/utils/activationModes';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { resetConfidenceThresholds, setActivationMode, setConfidenceThreshold } from '@/store/voiceSlice';
+import { ActivationMode, VoiceIntentType } from '@/types/voice';
+import { RECOGNITION_LANGUAGES, findCommandPack } from '@/utils/commandPacks';
+import { ConfidenceThreshold, resolveThresholds } from '@/utils/confidencePolicy';
+
+/**
+ * "playTitle" → "play title"
+ */
+const intentLabel = (type: VoiceIntentType): string => type.replace(/([A-Z])/g, ' $1').toLowerCase();
 
 interface VoiceControlInfoProps {
+  /** Recognition mode to display; defaults to the mode reported by the active player */
   currentMode?: string;
   isVisible?: boolean;
 }
 
 export const VoiceControlInfo = ({ 
-  currentMode = 'detecting...', 
+  currentMode, 
   isVisible = true 
 }: VoiceControlInfoProps) => {
   const [supportInfo, setSupportInfo] = useState<string>('');
   const [browserName, setBrowserName] = useState<string>('');
+  const dispatch = useAppDispatch();
+  const voice = useAppSelector((state) => state.voice);
+  const recognitionMode = currentMode ?? voice.recognitionMode;
+  const languageLabel = RECOGNITION_LANGUAGES.find(({ locale }) => locale === voice.language)?.label ?? voice.language;
+  const hasCommandPack = Boolean(findCommandPack(voice.language));
+  const thresholds = resolveThresholds(voice.confidenceThresholds);
+
+  const updateThreshold = (type: VoiceIntentType, limit: keyof ConfidenceThreshold, value: string) => {
+    const number = Number(value);
+    if (value === '' || !Number.isFinite(number) || number < 0 || number > 1) return;
+    dispatch(setConfidenceThreshold({ type, threshold: { [limit]: number } }));
+  };
 
   useEffect(() => {
     const support = detectBrowserSupport();
@@ -50,14 +74,98 @@ export const VoiceControlInfo = ({
             
             <div className="flex items-center gap-2">
               <span className="font-medium">Recognition Mode:</span>
-              <span className="capitalize">{currentMode}</span>
-              {currentMode === 'native' && (
+              <span className="capitalize">{recognitionMode}</span>
+              {recognitionMode === 'native' && (
                 <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
                   Best Performance
                 </span>
               )}
             </div>
             
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Language:</span>
+              <span>{languageLabel}</span>
+            </div>
+
+            {!hasCommandPack && (
+              <p className="text-xs leading-relaxed">
+                There are no voice commands for {languageLabel} yet, so speech is
+                recognised in {languageLabel} but commands are matched in English.
+              </p>
+            )}
+
+            <div className="flex items-center gap-2">
+              <label htmlFor="voice-activation-mode" className="font-medium">Activation:</label>
+              <select
+                id="voice-activation-mode"
+                value={voice.activationMode}
+                onChange={(e) => dispatch(setActivationMode(e.target.value as ActivationMode))}
+                className="bg-transparent border border-blue-300 dark:border-blue-700 rounded px-2 py-0.5"
+              >
+                {(Object.keys(ACTIVATION_MODES) as ActivationMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{ACTIVATION_MODES[mode].label}</option>
+                ))}
+              </select>
+              {voice.isListening && (
+                <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                  voice.activationState === 'awake'
+                    ? 'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100'
+                    : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100'
+                }`}>
+                  {voice.activationState === 'awake' ? 'Listening for commands' : 'Idle'}
+                </span>
+              )}
+            </div>
+
+            <p className="text-xs leading-relaxed">
+              {ACTIVATION_MODES[voice.activationMode].hint}
+            </p>
+
+            <details>
+              <summary className="font-medium cursor-pointer">Confidence thresholds</summary>
+              <p className="text-xs leading-relaxed mt-1">
+                Commands heard with less confidence than &quot;Ask&quot; need a yes or no first, and
+                those below &quot;Ignore&quot; are dropped (0 to 1).
+              </p>
+              <table className="mt-2 text-xs">
+                <thead>
+                  <tr>
+                    <th className="text-left font-medium pr-2">Command</th>
+                    <th className="text-left font-medium pr-2">Ask</th>
+                    <th className="text-left font-medium">Ignore</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(thresholds) as VoiceIntentType[]).map((type) => (
+                    <tr key={type}>
+                      <td className="pr-2 capitalize">{intentLabel(type)}</td>
+                      {(['confirm', 'reject'] as const).map((limit) => (
+                        <td key={limit} className="pr-2">
+                          <input
+                            type="number"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={thresholds[type][limit]}
+                            onChange={(e) => updateThreshold(type, limit, e.target.value)}
+                            aria-label={`${limit === 'confirm' ? 'Ask' : 'Ignore'} below, ${intentLabel(type)}`}
+                            className="w-16 bg-transparent border border-blue-300 dark:border-blue-700 rounded px-1"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                type="button"
+                onClick={() => dispatch(resetConfidenceThresholds())}
+                className="mt-2 text-xs underline"
+              >
+                Reset to defaults
+              </button>
+            </details>
+
             <p className="text-xs leading-relaxed">
               {supportInfo}
             </p>
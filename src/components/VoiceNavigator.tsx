@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useVoiceControl } from '@/hooks/useVoiceControl';
+import { useVoiceNavigation } from '@/hooks/useVoiceNavigation';
+import { useVoiceCommandDispatch } from '@/hooks/useVoiceCommandDispatch';
+import { VoiceIntent } from '@/types/voice';
+import { isNavigationIntent } from '@/utils/commandGrammar';
+import { getCommandPack } from '@/utils/commandPacks';
+import { ACTIVATION_MODES } from '@/utils/activationModes';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setResumeListening, setVoiceStatus } from '@/store/voiceSlice';
+import { CommandConfirmation } from './CommandConfirmation';
+import { RecognitionErrorNotice } from './RecognitionErrorNotice';
+
+/** How long navigation feedback stays on screen */
+const FEEDBACK_DURATION_MS = 4000;
+
+/**
+ * VoiceNavigator Component
+ * App-wide voice command layer mounted in the root layout. Handles navigation
+ * commands ("go home", "open new releases", "search for Avengers",
+ * "play Captain America") everywhere except while a VideoPlayer is mounted,
+ * at which point it releases the microphone and the player's own commands
+ * take over. A live listening session is handed across in both directions.
+ *
+ * @component
+ */
+export const VoiceNavigator = () => {
+  const dispatch = useAppDispatch();
+  const {
+    language,
+    activationMode: activation,
+    confidenceThresholds,
+    playerActive,
+    resumeListening,
+  } = useAppSelector((state) => state.voice);
+  const navigate = useVoiceNavigation();
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const feedbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const showFeedback = (message: string) => {
+    if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+    setFeedback(message);
+    feedbackTimerRef.current = setTimeout(() => setFeedback(null), FEEDBACK_DURATION_MS);
+  };
+
+  /**
+   * Handles navigation commands; player commands are ignored outside the player
+   * @param intent - The parsed voice command
+   * @param transcript - The words it was recognised from
+   */
+  const runIntent = async (intent: VoiceIntent, transcript: string) => {
+    if (!isNavigationIntent(intent)) {
+      showFeedback(`Didn't catch a command in "${transcript}"`);
+      return;
+    }
+
+    try {
+      showFeedback(await navigate(intent));
+    } catch (err) {
+      console.warn('Voice navigation failed:', err);
+      showFeedback(`Couldn't carry out "${transcript}". Please try again`);
+    }
+  };
+
+  const { handleResult, pending, confirm, dismiss } = useVoiceCommandDispatch({
+    language,
+    thresholds: confidenceThresholds,
+    onIntent: runIntent,
+    onReject: ({ reason, transcript }) =>
+      showFeedback(
+        reason === 'noMatch'
+          ? `Didn't catch a command in "${transcript}"`
+          : `Not sure I heard "${transcript}" right. Please try again`
+      ),
+  });
+
+  const {
+    isListening,
+    error,
+    currentMode,
+    activationMode,
+    activationState,
+    startListening,
+    stopListening,
+    beginPushToTalk,
+    endPushToTalk,
+  } = useVoiceControl(
+    { onCommand: (_, result) => handleResult(result) },
+    { mode: 'auto', language, activation, enabled: !playerActive }
+  );
+
+  // The handoff runs when the player mounts or unmounts, with the session as it is then
+  const sessionRef = useRef({ isListening, startListening, stopListening });
+  sessionRef.current = { isListening, startListening, stopListening };
+
+  /**
+   * Hand the microphone to the player when one mounts, and take it back when it unmounts
+   */
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (playerActive && session.isListening) {
+      session.stopListening();
+      dispatch(setResumeListening(true));
+    } else if (!playerActive && resumeListening) {
+      dispatch(setResumeListening(false));
+      session.startListening();
+    }
+  }, [dispatch, playerActive, resumeListening]);
+
+  /**
+   * Publish voice status while this layer owns the microphone
+   */
+  useEffect(() => {
+    if (playerActive) return;
+    dispatch(setVoiceStatus({ isListening, activationState, recognitionMode: currentMode }));
+  }, [dispatch, playerActive, isListening, activationState, currentMode]);
+
+  useEffect(() => () => {
+    if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current);
+  }, []);
+
+  if (playerActive) return null;
+
+  const isPushToTalk = activationMode === 'pushToTalk';
+  const examples = getCommandPack(language).navigationExamples;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end gap-2">
+      {pending && <CommandConfirmation pending={pending} onConfirm={confirm} onDismiss={dismiss} />}
+
+      {error ? (
+        <RecognitionErrorNotice error={error} onRetry={startListening} />
+      ) : feedback && (
+        <div className="max-w-xs px-4 py-2 rounded-lg shadow-lg text-sm text-white bg-black/80" role="status">
+          {feedback}
+        </div>
+      )}
+
+      <button
+        onClick={isPushToTalk ? undefined : () => isListening ? stopListening() : startListening()}
+        onPointerDown={isPushToTalk ? beginPushToTalk : undefined}
+        onPointerUp={isPushToTalk ? endPushToTalk : undefined}
+        onPointerLeave={isPushToTalk ? endPushToTalk : undefined}
+        className={`flex items-center gap-1 px-4 py-3 rounded-full shadow-lg text-white transition ${
+          isListening && activationState === 'awake'
+            ? 'bg-red-500 hover:bg-red-600'
+            : isListening
+              ? 'bg-yellow-500 hover:bg-yellow-600'
+              : 'bg-gray-800 hover:bg-gray-700'
+        }`}
+        aria-label={
+          isPushToTalk
+            ? 'Hold to talk'
+            : isListening ? 'Stop voice navigation' : 'Start voice navigation'
+        }
+        aria-pressed={isListening}
+        title={`Voice navigation · ${ACTIVATION_MODES[activationMode].label}. Try "${examples[1]}" or "${examples[3]}"`}
+      >
+        🎤
+        <span className="text-[10px] font-semibold tracking-wide">
+          {ACTIVATION_MODES[activationMode].badge}
+        </span>
+      </button>
+    </div>
+  );
+};
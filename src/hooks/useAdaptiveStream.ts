@@ -0,0 +1,99 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  QualityLevel,
+  StreamSource,
+  StreamingEngine,
+  StreamingOptions,
+  StreamingSession,
+  attachStream,
+} from '@/services/adaptiveStreaming';
+
+/**
+ * Quality chosen in the selector: adaptive, or a level id
+ */
+export type QualitySelection = 'auto' | number;
+
+/**
+ * Custom hook that attaches a movie's video (HLS, DASH or MP4) to a video
+ * element and exposes its quality levels for a quality selector
+ *
+ * @param videoRef - The element to play into
+ * @param source - Manifest, MP4 renditions and fallback URL
+ * @param onPlayBlocked - Called when playback cannot resume after a rendition switch
+ *
+ * @example
+ * ```tsx
+ * const { levels, quality, setQuality, rendition } = useAdaptiveStream(videoRef, {
+ *   src: movie.videoURL,
+ *   manifest: movie.manifest,
+ * });
+ * ```
+ */
+export const useAdaptiveStream = (
+  videoRef: RefObject<HTMLVideoElement>,
+  { src, renditions, manifest }: StreamSource,
+  onPlayBlocked?: StreamingOptions['onPlayBlocked']
+) => {
+  const sessionRef = useRef<StreamingSession | null>(null);
+  // Read when it fires, so a new handler each render does not re-attach the stream
+  const onPlayBlockedRef = useRef(onPlayBlocked);
+  onPlayBlockedRef.current = onPlayBlocked;
+  const [engine, setEngine] = useState<StreamingEngine | null>(null);
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [quality, setQualityState] = useState<QualitySelection>('auto');
+  const [rendition, setRendition] = useState<QualityLevel | null>(null);
+
+  // Re-attach only when the source itself changes, not when props are re-created
+  const sourceKey = JSON.stringify({ src, renditions, manifest });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let cancelled = false;
+    setLevels([]);
+    setQualityState('auto');
+    setRendition(null);
+
+    attachStream(video, JSON.parse(sourceKey), {
+      onLevels: (available) => {
+        if (!cancelled) setLevels(available);
+      },
+      onRenditionChange: (level) => {
+        if (!cancelled) setRendition(level);
+      },
+      onFallback: () => {
+        if (cancelled) return;
+        // Level ids belong to the engine that failed
+        setQualityState('auto');
+        setEngine('progressive');
+      },
+      onPlayBlocked: (error) => {
+        if (!cancelled) onPlayBlockedRef.current?.(error);
+      },
+    }).then((session) => {
+      if (cancelled) {
+        session.destroy();
+        return;
+      }
+      sessionRef.current = session;
+      setEngine(session.engine);
+    });
+
+    return () => {
+      cancelled = true;
+      sessionRef.current?.destroy();
+      sessionRef.current = null;
+    };
+  }, [videoRef, sourceKey]);
+
+  /**
+   * Lock playback to a quality level, or return to adaptive selection
+   */
+  const setQuality = useCallback((selection: QualitySelection) => {
+    setQualityState(selection);
+    sessionRef.current?.setLevel(selection);
+  }, []);
+
+  return { engine, levels, quality, setQuality, rendition };
+};
@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Chapter } from '@/types/movie';
+import { parseChapters } from '@/utils/chapters';
+
+/**
+ * Custom hook that provides a title's chapters, sorted by start: the inline
+ * list when there is one, otherwise the cues of its WebVTT chapters file
+ *
+ * @example
+ * ```tsx
+ * const chapters = useChapters(movie.chapters, movie.chaptersUrl);
+ * ```
+ */
+export const useChapters = (chapters?: Chapter[], chaptersUrl?: string): Chapter[] => {
+  const [loaded, setLoaded] = useState<Chapter[]>([]);
+
+  useEffect(() => {
+    setLoaded([]);
+    if (chapters || !chaptersUrl) return;
+
+    let cancelled = false;
+    fetch(chaptersUrl)
+      .then((response) => {
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        return response.text();
+      })
+      .then((vtt) => {
+        if (!cancelled) setLoaded(parseChapters(vtt));
+      })
+      .catch((error) => console.warn(`Failed to load chapters from ${chaptersUrl}:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chapters, chaptersUrl]);
+
+  return useMemo(
+    () => (chapters ? [...chapters].sort((a, b) => a.start - b.start) : loaded),
+    [chapters, loaded]
+  );
+};
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { KeyboardShortcut, findShortcut, isTypingTarget } from '@/utils/keyboardShortcuts';
+
+/**
+ * Custom hook that calls back for player keyboard shortcuts pressed anywhere
+ * on the page, except while typing in a field. Space and Enter on a focused
+ * button or link are left to press it.
+ *
+ * @example
+ * ```tsx
+ * useKeyboardShortcuts((shortcut, key) => run(shortcut.action(readState(), key)));
+ * ```
+ */
+export const useKeyboardShortcuts = (onShortcut: (shortcut: KeyboardShortcut, key: string) => void) => {
+  const onShortcutRef = useRef(onShortcut);
+  onShortcutRef.current = onShortcut;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTypingTarget(event.target)) return;
+      if (
+        (event.key === ' ' || event.key === 'Enter') &&
+        event.target instanceof HTMLElement &&
+        event.target.closest('button, a')
+      ) {
+        return;
+      }
+
+      const shortcut = findShortcut(event.key);
+      if (!shortcut) return;
+
+      // Also stops the page scrolling and the native controls acting on the same key
+      event.preventDefault();
+      onShortcutRef.current(shortcut, event.key);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
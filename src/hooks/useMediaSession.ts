@@ -0,0 +1,124 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { PlayerIntent } from '@/types/voice';
+
+/** Seek step for media keys that do not say how far to go */
+const DEFAULT_SEEK_OFFSET_S = 10;
+
+interface MediaSessionOptions {
+  title: string;
+  /** Artwork for the lock screen and media notifications */
+  poster?: string;
+  /** Whether the title has chapters for the previous / next track keys */
+  hasChapters: boolean;
+  /** Run a player intent, as voice commands and keyboard shortcuts do */
+  onIntent: (intent: PlayerIntent) => void;
+}
+
+/**
+ * Custom hook that publishes the title to the Media Session API and routes
+ * hardware media keys, headset buttons and lock screen controls through the
+ * player's intents. Previous / next track move between chapters.
+ *
+ * @example
+ * ```tsx
+ * useMediaSession(videoRef, { title, poster, hasChapters: chapters.length > 0, onIntent: performIntent });
+ * ```
+ */
+export const useMediaSession = (
+  videoRef: RefObject<HTMLVideoElement>,
+  { title, poster, hasChapters, onIntent }: MediaSessionOptions
+) => {
+  const onIntentRef = useRef(onIntent);
+  onIntentRef.current = onIntent;
+
+  /**
+   * Metadata and action handlers
+   */
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return;
+    const session = navigator.mediaSession;
+
+    session.metadata = new MediaMetadata({
+      title,
+      artist: 'StreamVoice',
+      artwork: poster ? [{ src: poster }] : [],
+    });
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', () => onIntentRef.current({ type: 'play' })],
+      ['pause', () => onIntentRef.current({ type: 'pause' })],
+      ['stop', () => onIntentRef.current({ type: 'pause' })],
+      [
+        'seekbackward',
+        ({ seekOffset }) => onIntentRef.current({ type: 'seekBy', seconds: -(seekOffset ?? DEFAULT_SEEK_OFFSET_S) }),
+      ],
+      [
+        'seekforward',
+        ({ seekOffset }) => onIntentRef.current({ type: 'seekBy', seconds: seekOffset ?? DEFAULT_SEEK_OFFSET_S }),
+      ],
+      [
+        'seekto',
+        ({ seekTime }) => {
+          if (seekTime !== undefined) onIntentRef.current({ type: 'seekTo', seconds: seekTime });
+        },
+      ],
+      ['previoustrack', hasChapters ? () => onIntentRef.current({ type: 'previousChapter' }) : null],
+      ['nexttrack', hasChapters ? () => onIntentRef.current({ type: 'nextChapter' }) : null],
+    ];
+
+    const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+      try {
+        session.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    };
+    handlers.forEach(([action, handler]) => setHandler(action, handler));
+
+    return () => {
+      session.metadata = null;
+      handlers.forEach(([action]) => setHandler(action, null));
+    };
+  }, [title, poster, hasChapters]);
+
+  /**
+   * Keep the OS position display and play state in step with the video
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || typeof navigator === 'undefined' || !('mediaSession' in navigator)) return;
+    const session = navigator.mediaSession;
+
+    const updatePosition = () => {
+      if (!Number.isFinite(video.duration) || video.duration <= 0) return;
+      try {
+        session.setPositionState({
+          duration: video.duration,
+          playbackRate: video.playbackRate,
+          position: Math.min(video.currentTime, video.duration),
+        });
+      } catch {
+        // Position state not supported
+      }
+    };
+    const updatePlaybackState = () => {
+      session.playbackState = video.paused ? 'paused' : 'playing';
+      updatePosition();
+    };
+
+    const events: [string, () => void][] = [
+      ['loadedmetadata', updatePosition],
+      ['durationchange', updatePosition],
+      ['ratechange', updatePosition],
+      ['seeked', updatePosition],
+      ['play', updatePlaybackState],
+      ['pause', updatePlaybackState],
+    ];
+    events.forEach(([event, handler]) => video.addEventListener(event, handler));
+
+    return () => {
+      events.forEach(([event, handler]) => video.removeEventListener(event, handler));
+      session.playbackState = 'none';
+    };
+  }, []);
+};
@@ -0,0 +1,168 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { PlaybackEventDetail } from '@/types/telemetry';
+import { QualityLevel, StreamingEngine } from '@/services/adaptiveStreaming';
+import { createTelemetryReporter } from '@/services/telemetryReporter';
+import { MEDIA_ERROR_NAMES } from '@/utils/telemetry';
+
+/** How often queued events and watch time are sent while the page is open */
+const FLUSH_INTERVAL_MS = 15000;
+
+/** Seeks closer together than this (dragging the seek bar) are reported as one */
+const SEEK_SETTLE_MS = 1000;
+
+/**
+ * Custom hook that measures quality of experience for one viewing of a
+ * title and reports it to `/api/telemetry`: time to first frame, stalls,
+ * `MediaError`s, seeks, the rendition on screen and time spent playing
+ *
+ * @param engine - Streaming engine in use, from useAdaptiveStream
+ * @param rendition - Rendition on screen, from useAdaptiveStream
+ *
+ * @example
+ * ```tsx
+ * const { engine, rendition } = useAdaptiveStream(videoRef, source);
+ * usePlaybackTelemetry(videoRef, 'dog-man', engine, rendition);
+ * ```
+ */
+export const usePlaybackTelemetry = (
+  videoRef: RefObject<HTMLVideoElement>,
+  titleId: string,
+  engine: StreamingEngine | null,
+  rendition: QualityLevel | null
+) => {
+  const trackRef = useRef<(detail: PlaybackEventDetail) => void>(() => undefined);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const reporter = createTelemetryReporter();
+    const sessionId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    const track = (detail: PlaybackEventDetail) =>
+      reporter.track({ sessionId, titleId, timestamp: Date.now(), position: video.currentTime, ...detail });
+    trackRef.current = track;
+
+    let requestedAt: number | undefined;
+    let started = false;
+    let stalledAt: number | undefined;
+    let playingSince: number | undefined;
+    let watchedMs = 0;
+    let lastPosition = video.currentTime;
+    let seekFrom: number | undefined;
+    let seekTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const stopClock = () => {
+      if (playingSince === undefined) return;
+      watchedMs += performance.now() - playingSince;
+      playingSince = undefined;
+    };
+    const startClock = () => {
+      if (playingSince === undefined) playingSince = performance.now();
+    };
+    const endStall = () => {
+      if (stalledAt === undefined) return;
+      track({ type: 'rebuffer', durationMs: Math.round(performance.now() - stalledAt) });
+      stalledAt = undefined;
+    };
+    const reportWatchTime = () => {
+      const playing = playingSince !== undefined;
+      stopClock();
+      if (watchedMs > 0) track({ type: 'watch', seconds: Math.round(watchedMs) / 1000 });
+      watchedMs = 0;
+      if (playing) startClock();
+    };
+    const reportSeek = () => {
+      clearTimeout(seekTimer);
+      seekTimer = undefined;
+      if (seekFrom === undefined) return;
+      track({ type: 'seek', from: seekFrom });
+      seekFrom = undefined;
+      lastPosition = video.currentTime;
+    };
+
+    const handlePlay = () => {
+      if (!started && requestedAt === undefined) requestedAt = performance.now();
+    };
+    const handlePlaying = () => {
+      if (!started) {
+        started = true;
+        if (requestedAt !== undefined) {
+          track({ type: 'startup', startupMs: Math.round(performance.now() - requestedAt) });
+        }
+      }
+      endStall();
+      startClock();
+    };
+    const handleWaiting = () => {
+      stopClock();
+      // Waiting for data after a seek is the seek's cost, not a stall
+      if (started && !video.seeking && stalledAt === undefined) stalledAt = performance.now();
+    };
+    const handlePause = () => {
+      stopClock();
+      endStall();
+    };
+    const handleSeeking = () => {
+      stopClock();
+      stalledAt = undefined;
+      if (seekFrom === undefined) seekFrom = lastPosition;
+    };
+    const handleSeeked = () => {
+      if (!video.paused) startClock();
+      clearTimeout(seekTimer);
+      seekTimer = setTimeout(reportSeek, SEEK_SETTLE_MS);
+    };
+    const handleTimeUpdate = () => {
+      if (!video.seeking && seekFrom === undefined) lastPosition = video.currentTime;
+    };
+    const handleError = () => {
+      const code = video.error?.code ?? 0;
+      stopClock();
+      track({ type: 'error', code, message: video.error?.message || MEDIA_ERROR_NAMES[code] });
+      reporter.flush();
+    };
+    const handleEnded = () => {
+      stopClock();
+      reportWatchTime();
+      reporter.flush();
+    };
+    const handlePageHide = () => {
+      reportSeek();
+      reportWatchTime();
+      reporter.flush(true);
+    };
+
+    const handlers: Partial<Record<keyof HTMLVideoElementEventMap, () => void>> = {
+      play: handlePlay,
+      playing: handlePlaying,
+      waiting: handleWaiting,
+      pause: handlePause,
+      seeking: handleSeeking,
+      seeked: handleSeeked,
+      timeupdate: handleTimeUpdate,
+      error: handleError,
+      ended: handleEnded,
+    };
+    Object.entries(handlers).forEach(([event, handler]) => video.addEventListener(event, handler));
+    window.addEventListener('pagehide', handlePageHide);
+    const flushTimer = setInterval(() => {
+      reportWatchTime();
+      reporter.flush();
+    }, FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(flushTimer);
+      Object.entries(handlers).forEach(([event, handler]) => video.removeEventListener(event, handler));
+      window.removeEventListener('pagehide', handlePageHide);
+      endStall();
+      handlePageHide();
+      trackRef.current = () => undefined;
+    };
+  }, [titleId]);
+
+  useEffect(() => {
+    if (engine) {
+      trackRef.current({ type: 'bitrate', bitrate: rendition?.bitrate, height: rendition?.height, engine });
+    }
+  }, [engine, rendition]);
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { ThumbnailCue, parseThumbnailTrack } from '@/utils/thumbnailTrack';
+
+/**
+ * Custom hook that loads a title's WebVTT thumbnails track for seek bar
+ * previews. Sprite URLs are resolved against the track's URL.
+ *
+ * @example
+ * ```tsx
+ * const thumbnails = useThumbnails(movie.thumbnailsUrl);
+ * ```
+ */
+export const useThumbnails = (thumbnailsUrl?: string): ThumbnailCue[] => {
+  const [thumbnails, setThumbnails] = useState<ThumbnailCue[]>([]);
+
+  useEffect(() => {
+    setThumbnails([]);
+    if (!thumbnailsUrl) return;
+
+    let cancelled = false;
+    const trackUrl = new URL(thumbnailsUrl, window.location.href).toString();
+    fetch(trackUrl)
+      .then((response) => {
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        return response.text();
+      })
+      .then((vtt) => {
+        if (!cancelled) setThumbnails(parseThumbnailTrack(vtt, trackUrl));
+      })
+      .catch((error) => console.warn(`Failed to load thumbnails from ${thumbnailsUrl}:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [thumbnailsUrl]);
+
+  return thumbnails;
+};
@@ -0,0 +1,134 @@
+import { RefObject, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Content } from '@/types/content';
+import { PlaybackMarkers } from '@/types/movie';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { removeFromQueue } from '@/store/playQueueSlice';
+import { fetchMovies, mapMovieToContent } from '@/services/moviesApi';
+import { getWatchProgressStorage } from '@/services/watchProgressStorage';
+import { UP_NEXT_COUNTDOWN_S, UpNextTitle, pickUpNext, upNextStart } from '@/utils/upNext';
+
+interface UpNextControls {
+  /** The title that plays next, once known */
+  next?: UpNextTitle;
+  /** Whether the Up Next overlay should be shown */
+  visible: boolean;
+  /** Seconds until the next title starts on its own; undefined with autoplay off */
+  secondsLeft?: number;
+  /** Go to the next title now */
+  playNext: () => void;
+  /** Hide the overlay and stay on this title */
+  cancel: () => void;
+}
+
+/**
+ * Custom hook that offers the next title near the end of the current one:
+ * from the credits (or the last seconds) it shows Up Next and, with autoplay
+ * on, counts down and moves to `/watch/[id]` of the next title. In a series
+ * that is the next episode. The countdown
+ * holds while the viewer pauses, and seeking back before the credits hides it
+ * again. Titles reaching their end leave the play queue.
+ *
+ * @example
+ * ```tsx
+ * const { next, visible, secondsLeft, playNext, cancel } = useUpNext(videoRef, 'thor', movie.markers);
+ * ```
+ */
+export const useUpNext = (
+  videoRef: RefObject<HTMLVideoElement>,
+  titleId: string,
+  markers?: PlaybackMarkers,
+  nextEpisode?: UpNextTitle
+): UpNextControls => {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const queue = useAppSelector((state) => state.playQueue.items);
+  const autoplay = useAppSelector((state) => state.playQueue.autoplay);
+
+  const [catalog, setCatalog] = useState<Content[]>([]);
+  const [watched, setWatched] = useState<Set<string>>(new Set());
+  const [reached, setReached] = useState(false);
+  const [cancelled, setCancelled] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState<number>();
+
+  useEffect(() => {
+    fetchMovies().then((movies) => setCatalog(movies.map(mapMovieToContent)));
+    getWatchProgressStorage()
+      .list()
+      .then((entries) => setWatched(new Set(entries.filter((entry) => entry.watched).map((entry) => entry.titleId))))
+      .catch((error) => console.warn('Failed to load watch progress for Up Next:', error));
+  }, []);
+
+  const next = useMemo(
+    () => pickUpNext(titleId, queue, catalog, watched, nextEpisode),
+    [titleId, queue, catalog, watched, nextEpisode]
+  );
+  const visible = reached && !cancelled && next !== undefined;
+
+  /**
+   * Effect to notice when playback enters, or seeks back out of, the Up Next stretch
+   */
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setReached(false);
+    setCancelled(false);
+
+    const handleTimeUpdate = () => {
+      if (!Number.isFinite(video.duration) || video.duration <= 0) return;
+      const inCredits = video.ended || video.currentTime >= upNextStart(video.duration, markers);
+      setReached(inCredits);
+      if (!inCredits) setCancelled(false);
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('ended', handleTimeUpdate);
+    return () => {
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('ended', handleTimeUpdate);
+    };
+  }, [titleId, markers]);
+
+  useEffect(() => {
+    if (reached) dispatch(removeFromQueue(titleId));
+  }, [reached, titleId]);
+
+  const playNext = () => {
+    if (!next) return;
+    if (next.fromQueue) dispatch(removeFromQueue(next.id));
+    router.push(`/watch/${next.id}`);
+  };
+
+  /**
+   * Effect to run the countdown while Up Next is showing
+   */
+  useEffect(() => {
+    if (!visible || !autoplay) {
+      setSecondsLeft(undefined);
+      return;
+    }
+
+    setSecondsLeft(UP_NEXT_COUNTDOWN_S);
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (video?.paused && !video.ended) return;
+      setSecondsLeft((left) => (left === undefined ? left : Math.max(0, left - 1)));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [visible, autoplay]);
+
+  useEffect(() => {
+    if (secondsLeft === 0) playNext();
+  }, [secondsLeft]);
+
+  return {
+    next,
+    visible,
+    secondsLeft,
+    playNext,
+    cancel: () => {
+      if (reached) setCancelled(true);
+    },
+  };
+};
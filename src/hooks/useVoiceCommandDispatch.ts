@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RecognitionResult, VoiceIntent } from '@/types/voice';
+import { matchConfirmation, parseVoiceCommand } from '@/utils/commandPacks';
+import {
+  CommandDecision,
+  ConfidenceThresholdOverrides,
+  decideCommand,
+  resolveThresholds,
+} from '@/utils/confidencePolicy';
+
+/** How long a "Did you mean ...?" prompt waits for an answer */
+const DEFAULT_CONFIRMATION_TIMEOUT_MS = 8000;
+
+/**
+ * A command waiting for the user to confirm it
+ */
+export interface PendingConfirmation {
+  intent: VoiceIntent;
+  /** The words the command was recognised from, shown in the prompt */
+  transcript: string;
+}
+
+interface VoiceCommandDispatchOptions {
+  /** Recognition locale; selects the command pack */
+  language: string;
+  /** Run a command that passed the confidence checks or was confirmed */
+  onIntent: (intent: VoiceIntent, transcript: string) => void;
+  /** Called when a result is ignored, e.g. to tell the user nothing matched */
+  onReject?: (decision: Extract<CommandDecision, { outcome: 'reject' }>) => void;
+  /** Per-intent confidence limits overriding the defaults */
+  thresholds?: ConfidenceThresholdOverrides;
+  /** How long a confirmation prompt stays open */
+  confirmationTimeoutMs?: number;
+}
+
+/**
+ * Custom hook turning recognition results into commands, weighing the
+ * recogniser's confidence and alternatives first
+ *
+ * Confident results run straight away, doubtful ones become a pending
+ * confirmation that the next utterance ("yes" / "no", in the active language)
+ * or the returned `confirm` / `dismiss` callbacks resolve, and anything else
+ * is passed to `onReject`. Any other command while a prompt is open replaces it.
+ *
+ * @param options - Language, handlers and thresholds
+ * @returns The handler to pass as `onCommand`, and the pending confirmation
+ *
+ * @example
+ * ```tsx
+ * const { handleResult, pending, confirm, dismiss } = useVoiceCommandDispatch({
+ *   language,
+ *   onIntent: (intent) => runIntent(intent),
+ *   thresholds: { playTitle: { confirm: 0.9 } },
+ * });
+ * useVoiceControl({ onCommand: (_, result) => handleResult(result) });
+ * ```
+ */
+export const useVoiceCommandDispatch = ({
+  language,
+  onIntent,
+  onReject,
+  thresholds,
+  confirmationTimeoutMs = DEFAULT_CONFIRMATION_TIMEOUT_MS,
+}: VoiceCommandDispatchOptions) => {
+  const [pending, setPending] = useState<PendingConfirmation | null>(null);
+  const pendingRef = useRef<PendingConfirmation | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Handlers usually change every render; the latest are read at dispatch time
+  const handlersRef = useRef({ onIntent, onReject });
+  handlersRef.current = { onIntent, onReject };
+
+  const settingsRef = useRef({ language, thresholds: resolveThresholds(thresholds), confirmationTimeoutMs });
+  settingsRef.current = { language, thresholds: resolveThresholds(thresholds), confirmationTimeoutMs };
+
+  const updatePending = useCallback((next: PendingConfirmation | null) => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    pendingRef.current = next;
+    setPending(next);
+    if (next) {
+      timeoutRef.current = setTimeout(() => updatePending(null), settingsRef.current.confirmationTimeoutMs);
+    }
+  }, []);
+
+  /**
+   * Run the pending command
+   */
+  const confirm = useCallback(() => {
+    const current = pendingRef.current;
+    if (!current) return;
+    updatePending(null);
+    handlersRef.current.onIntent(current.intent, current.transcript);
+  }, [updatePending]);
+
+  /**
+   * Drop the pending command
+   */
+  const dismiss = useCallback(() => updatePending(null), [updatePending]);
+
+  /**
+   * Weigh a recognition result and run, confirm or reject it
+   */
+  const handleResult = useCallback((result: RecognitionResult) => {
+    const { language: locale, thresholds: limits } = settingsRef.current;
+
+    if (pendingRef.current) {
+      const answer = matchConfirmation(result.transcript, locale);
+      if (answer === 'accept') {
+        confirm();
+        return;
+      }
+      if (answer === 'reject') {
+        dismiss();
+        return;
+      }
+    }
+
+    const decision = decideCommand(result, (transcript) => parseVoiceCommand(transcript, locale), limits);
+
+    switch (decision.outcome) {
+      case 'dispatch':
+        updatePending(null);
+        handlersRef.current.onIntent(decision.intent, decision.transcript);
+        break;
+      case 'confirm':
+        updatePending({ intent: decision.intent, transcript: decision.transcript });
+        break;
+      case 'reject':
+        handlersRef.current.onReject?.(decision);
+        break;
+    }
+  }, [confirm, dismiss, updatePending]);
+
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+  }, []);
+
+  return { handleResult, pending, confirm, dismiss };
+};
@@ -1,6 +1,18 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { VoiceControlProps } from '@/types/voice';
+import {
+  ActivationMode,
+  ActivationState,
+  RecognitionAlternative,
+  RecognitionError,
+  RecognitionResult,
+  VoiceControlProps,
+} from '@/types/voice';
 import { SpeechRecognitionPolyfill } from '@/services/speechRecognitionPolyfill';
+import { classifyRecognitionError } from '@/services/recognitionErrors';
+import { TranscriptionEngineName } from '@/types/transcription';
+import { StreamAudioOptions } from '@/services/speechRecognition';
+import { DEFAULT_WAKE_PHRASES, matchWakePhrase } from '@/utils/wakePhrase';
+import { isTypingTarget } from '@/utils/keyboardShortcuts';
 
 /**
  * Configuration options for voice control
@@ -8,25 +20,52 @@ import { SpeechRecognitionPolyfill } from '@/services/speechRecognitionPolyfill'
 interface VoiceControlOptions {
   /** Recognition mode: 'auto' for automatic detection, 'browser' for Web Speech API, 'server' for backend API */
   mode?: 'auto' | 'browser' | 'server';
-  /** Speech recognition engine to use when in server mode */
-  engine?: 'whisper' | 'google';
+  /** Speech recognition engine to use when in server mode ('default' lets the server choose) */
+  engine?: TranscriptionEngineName;
   /** Language for speech recognition */
   language?: string;
+  /** Report partial transcripts while the user is still speaking (defaults to true) */
+  interimResults?: boolean;
+  /** Utterance segmentation (pre-roll, hangover, max length) when in server mode */
+  segmentation?: StreamAudioOptions['segmentation'];
+  /** How speech is turned into commands (defaults to 'continuous') */
+  activation?: ActivationMode;
+  /** Phrases that wake the recogniser in 'wakePhrase' mode */
+  wakePhrases?: string[];
+  /** How long to wait for a command after waking before dropping back to idle */
+  activationTimeoutMs?: number;
+  /** Key held for push-to-talk (KeyboardEvent.key, defaults to 'v') */
+  pushToTalkKey?: string;
+  /** Set to false to suspend this instance, e.g. while another component owns the microphone */
+  enabled?: boolean;
 }
 
+/** Default time to wait for a command after the wake phrase or push-to-talk release */
+const DEFAULT_ACTIVATION_TIMEOUT_MS = 5000;
+
+/** Time after releasing push-to-talk during which a final result is still accepted */
+const PUSH_TO_TALK_RELEASE_MS = 1500;
+
 /**
  * Custom hook for voice control functionality with cross-browser support
  * Automatically detects the best speech recognition method available
- * 
+ *
+ * Supports three activation modes: 'continuous' dispatches everything heard,
+ * 'pushToTalk' only dispatches while the push-to-talk key or button is held, and
+ * 'wakePhrase' only dispatches speech that follows "Hey Stream". Outside
+ * continuous mode the hook drops back to idle after `activationTimeoutMs`.
+ * While the user is speaking, the partial transcript is exposed as
+ * `interimTranscript` (native recognition only) and cleared on the final result.
+ *
  * @param props - Voice control configuration props
- * @param options - Additional options for recognition mode and engine
+ * @param options - Additional options for recognition mode, engine and activation
  * @returns Object containing voice control state and methods
- * 
+ *
  * @example
  * ```tsx
- * const { isListening, error, startListening, stopListening, currentMode } = useVoiceControl(
+ * const { isListening, interimTranscript, startListening, stopListening } = useVoiceControl(
  *   { onCommand: handleCommand },
- *   { mode: 'auto', language: 'en-US' }
+ *   { mode: 'auto', language: 'en-US', activation: 'wakePhrase' }
  * );
  * ```
  */
@@ -34,29 +73,148 @@ export const useVoiceControl = (
   { onCommand }: VoiceControlProps,
   options: VoiceControlOptions = { mode: 'auto' }
 ) => {
+  const activationMode = options.activation || 'continuous';
+  const activationTimeoutMs = options.activationTimeoutMs ?? DEFAULT_ACTIVATION_TIMEOUT_MS;
+  const pushToTalkKey = options.pushToTalkKey || 'v';
+  const enabled = options.enabled ?? true;
+  const interimResults = options.interimResults ?? true;
+
   const [isListening, setIsListening] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<RecognitionError | null>(null);
+  const [recovering, setRecovering] = useState<RecognitionError | null>(null);
   const [currentMode, setCurrentMode] = useState<string>('detecting...');
+  const [activationState, setActivationState] = useState<ActivationState>('idle');
+  const [interimTranscript, setInterimTranscript] = useState('');
   const speechRecognitionRef = useRef<SpeechRecognitionPolyfill | null>(null);
 
+  // Callers usually pass a fresh onCommand every render; keep the latest in a ref
+  // so the recogniser is not torn down and restarted each time
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  const activationRef = useRef({ mode: activationMode, wakePhrases: options.wakePhrases, activationTimeoutMs });
+  activationRef.current = { mode: activationMode, wakePhrases: options.wakePhrases, activationTimeoutMs };
+
+  const awakeRef = useRef(false);
+  // Set when a settings change replaces a listening recogniser, so the new one carries on
+  const resumeAfterRebuildRef = useRef(false);
+  // Compared as a string so a re-created but equal segmentation object does not rebuild
+  const segmentationKey = JSON.stringify(options.segmentation ?? null);
+  const pushToTalkHeldRef = useRef(false);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearIdleTimer = () => {
+    if (idleTimerRef.current) {
+      clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = null;
+    }
+  };
+
+  /**
+   * Drop back to idle: stop accepting commands until woken again
+   */
+  const sleep = useCallback(() => {
+    clearIdleTimer();
+    awakeRef.current = false;
+    setActivationState('idle');
+
+    // Push-to-talk only keeps the microphone open while in use
+    if (activationRef.current.mode === 'pushToTalk' && !pushToTalkHeldRef.current) {
+      speechRecognitionRef.current?.stop();
+    }
+  }, []);
+
+  /**
+   * Start accepting commands, optionally dropping back to idle after `timeoutMs`
+   */
+  const wake = useCallback((timeoutMs?: number) => {
+    clearIdleTimer();
+    awakeRef.current = true;
+    setActivationState('awake');
+    if (timeoutMs !== undefined) {
+      idleTimerRef.current = setTimeout(sleep, timeoutMs);
+    }
+  }, [sleep]);
+
+  /**
+   * Route a final result according to the activation mode
+   */
+  const handleResult = useCallback((result: RecognitionResult) => {
+    const { mode, wakePhrases, activationTimeoutMs: timeoutMs } = activationRef.current;
+    const dispatch = (transform: (transcript: string) => string) => {
+      const transcript = transform(result.transcript);
+      const alternatives = result.alternatives.map((alternative) => ({
+        ...alternative,
+        transcript: transform(alternative.transcript),
+      }));
+      onCommandRef.current(transcript, { ...result, transcript, alternatives });
+    };
+
+    if (mode === 'continuous') {
+      dispatch((transcript) => transcript.toLowerCase());
+      return;
+    }
+
+    if (mode === 'wakePhrase') {
+      const phrases = wakePhrases || DEFAULT_WAKE_PHRASES;
+      const { matched, remainder } = matchWakePhrase(result.transcript, phrases);
+      if (matched && !remainder) {
+        // "Hey Stream" on its own: wait for the command in the next phrase
+        wake(timeoutMs);
+        return;
+      }
+      if (matched || awakeRef.current) {
+        dispatch((transcript) => matchWakePhrase(transcript, phrases).remainder);
+        sleep();
+      }
+      return;
+    }
+
+    // Push-to-talk
+    if (awakeRef.current) {
+      dispatch((transcript) => transcript.toLowerCase());
+      if (!pushToTalkHeldRef.current) {
+        sleep();
+      }
+    }
+  }, [sleep, wake]);
+
   /**
-   * Initialize speech recognition polyfill
+   * Initialize speech recognition polyfill, again whenever the language,
+   * engine or recognition settings change. A session that was listening
+   * keeps listening with the new recogniser.
    */
   useEffect(() => {
     const initializeSpeechRecognition = () => {
       speechRecognitionRef.current = new SpeechRecognitionPolyfill({
         continuous: true,
-        interimResults: false,
+        interimResults,
         lang: options.language || 'en-US',
-        onResult: (transcript: string, confidence: number) => {
-          console.log(`Speech recognized: "${transcript}" (confidence: ${confidence})`);
-          onCommand(transcript.toLowerCase());
+        engine: options.engine || 'default',
+        segmentation: options.segmentation,
+        onResult: (transcript: string, confidence: number | null, alternatives: RecognitionAlternative[]) => {
+          console.log(`Speech recognized: "${transcript}" (confidence: ${confidence ?? 'unknown'})`);
+          setInterimTranscript('');
+          setRecovering(null);
+          handleResult({ transcript, confidence, alternatives });
         },
-        onError: (errorMessage: string) => {
-          console.error('Speech recognition error:', errorMessage);
-          setError(errorMessage);
+        onInterimResult: (transcript: string) => {
+          setInterimTranscript(transcript);
+          setRecovering(null);
+        },
+        onError: (recognitionError: RecognitionError) => {
+          console.error(`Speech recognition error (${recognitionError.kind}):`, recognitionError.message);
+          setError(recognitionError);
+          setRecovering(null);
           setIsListening(false);
         },
+        onRecovering: (recognitionError: RecognitionError, delayMs: number) => {
+          console.warn(`Speech recognition restarting in ${delayMs}ms after ${recognitionError.kind}`);
+          // Silence is routine in continuous listening and not worth showing
+          if (recognitionError.kind !== 'noSpeech') {
+            setRecovering(recognitionError);
+          }
+        },
         onStart: () => {
           setIsListening(true);
           setError(null);
@@ -64,6 +222,8 @@ export const useVoiceControl = (
         },
         onEnd: () => {
           setIsListening(false);
+          setRecovering(null);
+          setInterimTranscript('');
           console.log('Speech recognition ended');
         }
       });
@@ -74,24 +234,53 @@ export const useVoiceControl = (
 
     initializeSpeechRecognition();
 
-    // Cleanup on unmount
+    if (resumeAfterRebuildRef.current) {
+      resumeAfterRebuildRef.current = false;
+      speechRecognitionRef.current?.start();
+    }
+
+    // Cleanup on unmount or before rebuilding
     return () => {
-      if (speechRecognitionRef.current?.isCurrentlyListening()) {
-        speechRecognitionRef.current.stop();
+      const recognition = speechRecognitionRef.current;
+      resumeAfterRebuildRef.current = Boolean(recognition?.isCurrentlyListening());
+      if (recognition?.isCurrentlyListening()) {
+        recognition.stop();
       }
     };
-  }, [onCommand, options.language]);
+  }, [handleResult, options.language, options.engine, interimResults, segmentationKey]);
+
+  /**
+   * Reset activation when the mode changes; continuous mode is always awake
+   */
+  useEffect(() => {
+    pushToTalkHeldRef.current = false;
+    if (activationMode === 'continuous') {
+      wake();
+    } else {
+      sleep();
+    }
+    return clearIdleTimer;
+  }, [activationMode, wake, sleep]);
+
+  /**
+   * Release the microphone while suspended
+   */
+  useEffect(() => {
+    if (!enabled && speechRecognitionRef.current?.isCurrentlyListening()) {
+      speechRecognitionRef.current.stop();
+    }
+  }, [enabled]);
 
   /**
    * Start speech recognition
    */
   const startListening = useCallback(async () => {
     if (!speechRecognitionRef.current) {
-      setError('Speech recognition not initialized');
+      setError({ kind: 'unsupported', message: 'Speech recognition not initialized' });
       return;
     }
 
-    if (isListening) {
+    if (speechRecognitionRef.current.isCurrentlyListening()) {
       console.log('Speech recognition already active');
       return;
     }
@@ -99,11 +288,10 @@ export const useVoiceControl = (
     try {
       await speechRecognitionRef.current.start();
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(`Failed to start speech recognition: ${errorMessage}`);
+      setError(classifyRecognitionError(err));
       console.error('Failed to start speech recognition:', err);
     }
-  }, [isListening]);
+  }, []);
 
   /**
    * Stop speech recognition
@@ -131,12 +319,67 @@ export const useVoiceControl = (
     }
   }, [isListening, startListening, stopListening]);
 
+  /**
+   * Begin push-to-talk: open the microphone and accept commands while held
+   */
+  const beginPushToTalk = useCallback(() => {
+    if (activationRef.current.mode !== 'pushToTalk' || pushToTalkHeldRef.current) return;
+
+    pushToTalkHeldRef.current = true;
+    wake();
+    startListening();
+  }, [wake, startListening]);
+
+  /**
+   * End push-to-talk: accept a trailing final result briefly, then go idle
+   */
+  const endPushToTalk = useCallback(() => {
+    if (!pushToTalkHeldRef.current) return;
+
+    pushToTalkHeldRef.current = false;
+    wake(PUSH_TO_TALK_RELEASE_MS);
+  }, [wake]);
+
+  /**
+   * Hold-to-talk keyboard handling
+   */
+  useEffect(() => {
+    if (activationMode !== 'pushToTalk' || !enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== pushToTalkKey || event.repeat || isTypingTarget(event.target)) return;
+      event.preventDefault();
+      beginPushToTalk();
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key !== pushToTalkKey) return;
+      endPushToTalk();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', endPushToTalk);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', endPushToTalk);
+    };
+  }, [activationMode, enabled, pushToTalkKey, beginPushToTalk, endPushToTalk]);
+
   return {
     isListening,
     error,
+    recovering,
     currentMode,
+    activationMode,
+    activationState,
+    interimTranscript,
     startListening,
     stopListening,
     toggleListening,
+    beginPushToTalk,
+    endPushToTalk,
   };
-}; 
\ No newline at end of file
+};
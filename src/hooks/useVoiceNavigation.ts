@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { NavigationIntent } from '@/types/voice';
+import { fetchMovies, mapMovieToContent } from '@/services/moviesApi';
+import { findBestTitleMatch } from '@/utils/titleMatch';
+import { HOME_SECTIONS } from '@/utils/homeSections';
+import { getGenre } from '@/utils/genres';
+
+/**
+ * Custom hook that carries out navigation intents ("go home", "open new releases",
+ * "show me comedies", "search for Avengers", "play Captain America") using the app router and the catalog
+ *
+ * @returns A handler that performs the navigation and resolves to a short
+ * description of what happened, suitable for on-screen feedback
+ *
+ * @example
+ * ```tsx
+ * const navigate = useVoiceNavigation();
+ * const message = await navigate({ type: 'playTitle', title: 'dog man' });
+ * ```
+ */
+export const useVoiceNavigation = () => {
+  const router = useRouter();
+
+  return useCallback(async (intent: NavigationIntent): Promise<string> => {
+    switch (intent.type) {
+      case 'goHome':
+        router.push('/');
+        return 'Going home';
+
+      case 'openSection': {
+        const section = HOME_SECTIONS.find(({ id }) => id === intent.section);
+        router.push(`/#${intent.section}`);
+        return `Opening ${section?.title ?? intent.section}`;
+      }
+
+      case 'openGenre': {
+        const genre = getGenre(intent.genre);
+        router.push(`/genre/${intent.genre}`);
+        return `Showing ${genre?.name ?? intent.genre}`;
+      }
+
+      case 'search':
+        router.push(`/search?q=${encodeURIComponent(intent.query)}`);
+        return `Searching for "${intent.query}"`;
+
+      case 'playTitle': {
+        const movies = await fetchMovies();
+        const match = findBestTitleMatch(intent.title, movies.map(mapMovieToContent));
+
+        if (!match) {
+          router.push(`/search?q=${encodeURIComponent(intent.title)}`);
+          return `No title matching "${intent.title}", showing search results`;
+        }
+
+        router.push(`/watch/${match.slug}`);
+        return `Playing ${match.title}`;
+      }
+    }
+  }, [router]);
+};
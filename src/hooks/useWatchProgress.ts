@@ -0,0 +1,115 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { PlaybackMarkers } from '@/types/movie';
+import { WatchProgress } from '@/types/watchProgress';
+import { getWatchProgressStorage } from '@/services/watchProgressStorage';
+import { isFinished, resumePosition } from '@/utils/watchProgress';
+
+/** How often progress is saved while the title plays */
+const SAVE_INTERVAL_MS = 10000;
+
+interface WatchProgressControls {
+  /** Where the viewer left off, while the resume prompt should be shown */
+  resumeAt?: number;
+  /** Continue from where the viewer left off */
+  resume: () => void;
+  /** Play from the beginning instead */
+  startOver: () => void;
+}
+
+/**
+ * Custom hook that remembers how far the viewer got through a title: saves
+ * the position every few seconds of playback and whenever playback stops or
+ * the page closes, marks the title watched once it is finished, and offers to
+ * resume a title left part way through
+ *
+ * @example
+ * ```tsx
+ * const { resumeAt, resume, startOver } = useWatchProgress(videoRef, 'dog-man', movie.markers);
+ * ```
+ */
+export const useWatchProgress = (
+  videoRef: RefObject<HTMLVideoElement>,
+  titleId: string,
+  markers?: PlaybackMarkers
+): WatchProgressControls => {
+  const [resumeAt, setResumeAt] = useState<number>();
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const storage = getWatchProgressStorage();
+    let cancelled = false;
+    let lastSaved = Date.now();
+    let dirty = false;
+    setResumeAt(undefined);
+
+    storage
+      .get(titleId)
+      .then((progress) => {
+        // Too late to offer once the viewer has started watching
+        if (!cancelled && video.paused && video.currentTime === 0) setResumeAt(resumePosition(progress));
+      })
+      .catch((error) => console.warn(`Failed to load watch progress for ${titleId}:`, error));
+
+    const save = () => {
+      const { currentTime: position, duration } = video;
+      if (!dirty || !Number.isFinite(duration) || duration <= 0) return;
+
+      dirty = false;
+      lastSaved = Date.now();
+      const progress: WatchProgress = {
+        titleId,
+        position,
+        duration,
+        updatedAt: lastSaved,
+        watched: isFinished(position, duration, markersRef.current),
+      };
+      storage.save(progress).catch((error) => console.warn(`Failed to save watch progress for ${titleId}:`, error));
+    };
+
+    const handleTimeUpdate = () => {
+      if (video.paused) return;
+      dirty = true;
+      if (Date.now() - lastSaved >= SAVE_INTERVAL_MS) save();
+    };
+    const handleSeeked = () => {
+      dirty = true;
+    };
+    const handlePlay = () => setResumeAt(undefined);
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', save);
+    video.addEventListener('ended', save);
+    window.addEventListener('pagehide', save);
+
+    return () => {
+      cancelled = true;
+      save();
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', save);
+      video.removeEventListener('ended', save);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [titleId]);
+
+  const playFrom = (position: number) => {
+    const video = videoRef.current;
+    setResumeAt(undefined);
+    if (!video) return;
+    video.currentTime = position;
+    video.play();
+  };
+
+  return {
+    resumeAt,
+    resume: () => playFrom(resumeAt ?? 0),
+    startOver: () => playFrom(0),
+  };
+};
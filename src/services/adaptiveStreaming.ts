@@ -0,0 +1,336 @@
+/**
+ * Adaptive Streaming
+ * Attaches a movie's video to a <video> element: HLS manifests through hls.js
+ * (or the browser's own HLS support in Safari), DASH manifests through
+ * dash.js, and plain MP4 renditions by swapping the element's source. Every
+ * engine reports the same quality levels, so the player's quality selector
+ * works the same way whatever is playing.
+ *
+ * A manifest that cannot be played (unsupported browser, missing playlist,
+ * fatal network error) falls back to the progressive MP4s.
+ */
+
+import { StreamingManifest, VideoRendition } from '@/types/movie';
+
+export type StreamingEngine = 'hls' | 'nativeHls' | 'dash' | 'progressive';
+
+/**
+ * One selectable quality
+ */
+export interface QualityLevel {
+  /** Engine-specific index, passed back to setLevel */
+  id: number;
+  height: number;
+  /** Bits per second, when known */
+  bitrate?: number;
+  /** Shown in the quality selector, e.g. "720p" */
+  label: string;
+}
+
+/**
+ * Everything the player knows about where a movie's video lives
+ */
+export interface StreamSource {
+  /** Progressive MP4 played when there is no manifest and no renditions */
+  src: string;
+  renditions?: VideoRendition[];
+  manifest?: StreamingManifest;
+}
+
+export interface StreamingOptions {
+  /** The available quality levels are known (empty when only "Auto" applies) */
+  onLevels?: (levels: QualityLevel[]) => void;
+  /** The rendition on screen changed; null when it is unknown */
+  onRenditionChange?: (level: QualityLevel | null) => void;
+  /** The manifest could not be played and the MP4 fallback took over */
+  onFallback?: (reason: string) => void;
+  /** Playback could not resume after a rendition switch, e.g. because autoplay is blocked */
+  onPlayBlocked?: (error: unknown) => void;
+}
+
+/**
+ * A video attached to an element by one of the engines
+ */
+export interface StreamingSession {
+  readonly engine: StreamingEngine;
+  /** Lock playback to a quality level, or return to adaptive selection */
+  setLevel: (level: number | 'auto') => void;
+  destroy: () => void;
+}
+
+/** Share of the measured bandwidth a progressive rendition may use */
+const BANDWIDTH_HEADROOM = 0.8;
+
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * Label levels by height, adding the bitrate where heights repeat
+ *
+ * @example
+ * ```ts
+ * labelLevels([{ id: 0, height: 720, bitrate: 3e6 }, { id: 1, height: 720, bitrate: 1.5e6 }]);
+ * // labels '720p (3.0 Mbps)' and '720p (1.5 Mbps)'
+ * ```
+ */
+export function labelLevels(levels: Omit<QualityLevel, 'label'>[]): QualityLevel[] {
+  return levels.map((level) => {
+    const shared = levels.filter(({ height }) => height === level.height).length > 1;
+    const label = shared && level.bitrate
+      ? `${level.height}p (${(level.bitrate / 1e6).toFixed(1)} Mbps)`
+      : `${level.height}p`;
+    return { ...level, label };
+  });
+}
+
+/**
+ * Choose an MP4 rendition for "Auto": the smallest one that fills the
+ * element at the device's pixel density, limited to what the connection
+ * reports it can sustain
+ *
+ * @param levels - Levels sorted from highest to lowest
+ */
+function pickProgressiveLevel(levels: QualityLevel[], video: HTMLVideoElement): number {
+  const targetHeight = (video.clientHeight || 720) * (window.devicePixelRatio || 1);
+  const downlink = (navigator as Navigator & { connection?: { downlink?: number } }).connection?.downlink;
+  const budget = downlink ? downlink * 1e6 * BANDWIDTH_HEADROOM : Infinity;
+
+  const affordable = levels.filter(({ bitrate }) => !bitrate || bitrate <= budget);
+  const candidates = affordable.length > 0 ? affordable : levels.slice(-1);
+  const fitting = candidates.filter(({ height }) => height >= targetHeight);
+  return (fitting.length > 0 ? fitting[fitting.length - 1] : candidates[0]).id;
+}
+
+/**
+ * Play MP4s, switching renditions by swapping the source and restoring the
+ * playback position. On "Auto", a stall during playback drops to the next
+ * lower rendition (or lower still, if the connection now reports less).
+ */
+function attachProgressive(video: HTMLVideoElement, source: StreamSource, options: StreamingOptions): StreamingSession {
+  const renditions = [...(source.renditions ?? [])].sort((a, b) => b.height - a.height);
+  const levels = labelLevels(renditions.map(({ height, bitrate }, id) => ({ id, height, bitrate })));
+  let current = -1;
+  let auto = true;
+  // Set while a new rendition loads, so the stall the switch causes is not counted
+  let switching = false;
+
+  const load = (id: number) => {
+    if (id === current) return;
+    const resumeAt = video.currentTime;
+    const wasPlaying = !video.paused;
+
+    current = id;
+    switching = true;
+    video.src = renditions[id].url;
+    if (resumeAt > 0 || wasPlaying) {
+      video.addEventListener('loadedmetadata', () => {
+        video.currentTime = resumeAt;
+        if (wasPlaying) video.play().catch((err: unknown) => options.onPlayBlocked?.(err));
+      }, { once: true });
+    }
+    options.onRenditionChange?.(levels[id]);
+  };
+
+  const handlePlaying = () => {
+    switching = false;
+  };
+  const handleWaiting = () => {
+    if (!auto || switching || video.seeking || current >= levels.length - 1) return;
+    load(Math.max(current + 1, pickProgressiveLevel(levels, video)));
+  };
+
+  options.onLevels?.(levels);
+  if (levels.length > 0) {
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('waiting', handleWaiting);
+    load(pickProgressiveLevel(levels, video));
+  } else {
+    video.src = source.src;
+    options.onRenditionChange?.(null);
+  }
+
+  return {
+    engine: 'progressive',
+    setLevel: (level) => {
+      if (levels.length === 0) return;
+      auto = level === 'auto';
+      load(level === 'auto' ? pickProgressiveLevel(levels, video) : level);
+    },
+    destroy: () => {
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeAttribute('src');
+      video.load();
+    },
+  };
+}
+
+/**
+ * Play HLS through the browser (Safari); renditions are chosen by the
+ * browser, so only the one on screen is reported
+ */
+function attachNativeHls(
+  video: HTMLVideoElement,
+  url: string,
+  options: StreamingOptions,
+  onFatal: (reason: string) => void
+): StreamingSession {
+  const handleResize = () => {
+    options.onRenditionChange?.(video.videoHeight ? labelLevels([{ id: -1, height: video.videoHeight }])[0] : null);
+  };
+  const handleError = () => onFatal(`Native HLS error ${video.error?.code ?? 'unknown'}`);
+
+  video.addEventListener('resize', handleResize);
+  video.addEventListener('error', handleError);
+  video.src = url;
+  options.onLevels?.([]);
+
+  return {
+    engine: 'nativeHls',
+    setLevel: () => {},
+    destroy: () => {
+      video.removeEventListener('resize', handleResize);
+      video.removeEventListener('error', handleError);
+      video.removeAttribute('src');
+      video.load();
+    },
+  };
+}
+
+/**
+ * Play HLS through hls.js, falling back to the browser's own HLS support
+ * where Media Source Extensions are missing (iOS)
+ */
+async function attachHls(
+  video: HTMLVideoElement,
+  url: string,
+  options: StreamingOptions,
+  onFatal: (reason: string) => void
+): Promise<StreamingSession> {
+  const { default: Hls } = await import('hls.js');
+
+  if (!Hls.isSupported()) {
+    if (video.canPlayType(HLS_MIME_TYPE)) return attachNativeHls(video, url, options, onFatal);
+    throw new Error('HLS is not supported in this browser');
+  }
+
+  const hls = new Hls();
+  let levels: QualityLevel[] = [];
+
+  hls.on(Hls.Events.MANIFEST_PARSED, (_, { levels: parsed }) => {
+    levels = labelLevels(parsed.map(({ height, bitrate }, id) => ({ id, height, bitrate })));
+    options.onLevels?.([...levels].sort((a, b) => b.height - a.height || (b.bitrate ?? 0) - (a.bitrate ?? 0)));
+  });
+  hls.on(Hls.Events.LEVEL_SWITCHED, (_, { level }) => {
+    options.onRenditionChange?.(levels.find(({ id }) => id === level) ?? null);
+  });
+  hls.on(Hls.Events.ERROR, (_, { fatal, type, details }) => {
+    if (fatal) onFatal(`HLS ${type}: ${details}`);
+  });
+
+  hls.loadSource(url);
+  hls.attachMedia(video);
+
+  return {
+    engine: 'hls',
+    setLevel: (level) => {
+      hls.currentLevel = level === 'auto' ? -1 : level;
+    },
+    destroy: () => hls.destroy(),
+  };
+}
+
+/**
+ * Play DASH through dash.js
+ */
+async function attachDash(
+  video: HTMLVideoElement,
+  url: string,
+  options: StreamingOptions,
+  onFatal: (reason: string) => void
+): Promise<StreamingSession> {
+  const dashjs = await import('dashjs');
+  const player = dashjs.MediaPlayer().create();
+  let levels: QualityLevel[] = [];
+
+  player.on('streamInitialized', () => {
+    levels = labelLevels(
+      player.getBitrateInfoListFor('video').map(({ qualityIndex, height, bitrate }) => ({ id: qualityIndex, height, bitrate }))
+    );
+    options.onLevels?.([...levels].sort((a, b) => b.height - a.height || (b.bitrate ?? 0) - (a.bitrate ?? 0)));
+  });
+  player.on('qualityChangeRendered', ({ mediaType, newQuality }) => {
+    if (mediaType === 'video') {
+      options.onRenditionChange?.(levels.find(({ id }) => id === newQuality) ?? null);
+    }
+  });
+  player.on('error', ({ error }) => {
+    onFatal(typeof error === 'string' ? `DASH ${error} error` : `DASH error ${error.code}: ${error.message}`);
+  });
+
+  player.initialize(video, url, false);
+
+  return {
+    engine: 'dash',
+    setLevel: (level) => {
+      const auto = level === 'auto';
+      player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: auto } } } });
+      if (!auto) player.setQualityFor('video', level, true);
+    },
+    destroy: () => player.reset(),
+  };
+}
+
+/**
+ * Attach a movie's video to a <video> element using the best available
+ * engine
+ *
+ * @example
+ * ```ts
+ * const session = await attachStream(video, {
+ *   src: movie.videoURL,
+ *   manifest: { type: 'hls', url: '/streams/sample/master.m3u8' },
+ * }, { onLevels: setLevels, onRenditionChange: setRendition });
+ * session.setLevel(levels[0].id); // lock to the highest quality
+ * session.setLevel('auto');
+ * ```
+ */
+export async function attachStream(
+  video: HTMLVideoElement,
+  source: StreamSource,
+  options: StreamingOptions = {}
+): Promise<StreamingSession> {
+  let active: StreamingSession | null = null;
+  let destroyed = false;
+
+  const fallBack = (reason: string) => {
+    if (destroyed || active?.engine === 'progressive') return;
+    console.warn(`${reason}; falling back to progressive video`);
+    active?.destroy();
+    active = attachProgressive(video, source, options);
+    options.onFallback?.(reason);
+  };
+
+  if (source.manifest) {
+    const attach = source.manifest.type === 'hls' ? attachHls : attachDash;
+    try {
+      active = await attach(video, source.manifest.url, options, fallBack);
+    } catch (err) {
+      fallBack(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  if (!active) {
+    active = attachProgressive(video, source, options);
+  }
+
+  return {
+    get engine() {
+      return active?.engine ?? 'progressive';
+    },
+    setLevel: (level) => active?.setLevel(level),
+    destroy: () => {
+      destroyed = true;
+      active?.destroy();
+    },
+  };
+}
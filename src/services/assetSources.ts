@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+/**
+ * Hosts remote files may be fetched from: the movies bucket plus any listed
+ * in the given environment variable (comma separated). Anything else is
+ * refused so the API routes cannot be used to reach arbitrary servers.
+ */
+export const allowedHosts = (envVar: string): Set<string> => {
+  const hosts = (process.env[envVar] ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  if (process.env.NEXT_PUBLIC_API_HOST) {
+    try {
+      hosts.push(new URL(process.env.NEXT_PUBLIC_API_HOST).host.toLowerCase());
+    } catch {
+      // Not a URL; nothing to allow
+    }
+  }
+  return new Set(hosts);
+};
+
+/**
+ * A source file that could not be loaded, with the status to report
+ */
+export class SourceError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SourceError';
+  }
+}
+
+interface SourceOptions {
+  /** Hosts remote sources may come from, see {@link allowedHosts} */
+  hosts: Set<string>;
+  /** Largest accepted file */
+  maxBytes: number;
+  /** What the file is, for error messages, e.g. 'subtitle' */
+  kind: string;
+}
+
+/**
+ * Read a response or request body, giving up as soon as it passes `maxBytes`
+ * rather than trusting content-length (chunked bodies have none)
+ *
+ * @throws SourceError with status 413 when the body is too large
+ */
+export async function readLimited(response: Response | Request, maxBytes: number): Promise<ArrayBuffer> {
+  const tooLarge = () => new SourceError(`File exceeds ${maxBytes} bytes`, 413);
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body.buffer;
+}
+
+/**
+ * Load a file from a path under `public/` or an allowed remote host.
+ * Redirects are not followed, since they could lead to any host.
+ */
+export async function loadSource(src: string, { hosts, maxBytes, kind }: SourceOptions): Promise<ArrayBuffer> {
+  if (/^https?:\/\//i.test(src)) {
+    let url: URL;
+    try {
+      url = new URL(src);
+    } catch {
+      throw new SourceError(`"${src}" is not a valid URL`, 400);
+    }
+    if (!hosts.has(url.host.toLowerCase())) {
+      throw new SourceError(`Host "${url.host}" is not an allowed ${kind} source`, 403);
+    }
+
+    const response = await fetch(url, { redirect: 'manual', next: { revalidate: 3600 } });
+    if (response.type === 'opaqueredirect' || (response.status >= 300 && response.status < 400)) {
+      throw new SourceError(`Fetching ${src} was redirected; link to the file itself`, 502);
+    }
+    if (!response.ok) {
+      throw new SourceError(`Fetching ${src} returned ${response.status}`, 502);
+    }
+    return readLimited(response, maxBytes);
+  }
+
+  const filePath = path.join(PUBLIC_DIR, path.normalize(src));
+  if (!filePath.startsWith(PUBLIC_DIR + path.sep)) {
+    throw new SourceError(`Local ${kind} paths must stay inside public/`, 400);
+  }
+
+  try {
+    const file = await fs.readFile(filePath);
+    return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+  } catch {
+    throw new SourceError(`No ${kind} file at ${src}`, 404);
+  }
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CatalogReport, CatalogSource } from '@/types/catalog';
+
+/**
+ * Base URL of the public API bucket that hosts movies.json and series.json (optional).
+ * If not provided, we fall back to local copies in the repo root.
+ */
+const MOVIES_API_URL = process.env.NEXT_PUBLIC_API_HOST;
+
+/** Issues last logged for each catalog file, so each problem is logged once rather than per request */
+const loggedIssues = new Map<string, string>();
+
+/**
+ * Log quarantined entries and warnings as structured objects, once per change
+ */
+function logIssues(file: string, report: CatalogReport) {
+  const { source, quarantined, warnings } = report;
+  const issues = JSON.stringify([quarantined.map(({ index, errors }) => ({ index, errors })), warnings]);
+  if (issues === loggedIssues.get(file)) return;
+  loggedIssues.set(file, issues);
+
+  quarantined.forEach(({ index, errors }) =>
+    console.warn(`Catalog entry ${index} left out of the ${source} ${file}`, { index, entry: errors[0]?.entry, errors })
+  );
+  warnings.forEach((warning) => console.warn(`Catalog warning (${source} ${file})`, warning));
+}
+
+/**
+ * Fetch and validate a catalog file, trying the remote bucket first (if
+ * configured) and falling back to the local copy bundled with the repo.
+ * Invalid entries are left out and logged; a remote catalog that is not an
+ * array at all is ignored in favour of the local one.
+ *
+ * @param file - File name in the bucket and the project root, e.g. 'movies.json'
+ * @param validate - Checks the parsed file, keeping the valid entries
+ * @param fallback - Result when there is no local file; without one a missing file throws
+ */
+export async function loadCatalog<T extends { report: CatalogReport }>(
+  file: string,
+  validate: (data: unknown, source: CatalogSource) => T,
+  fallback?: T
+): Promise<T> {
+  // 1. Try remote bucket if URL is supplied
+  if (MOVIES_API_URL) {
+    try {
+      const response = await fetch(`${MOVIES_API_URL}/${file}`, {
+        headers: { 'Accept': 'application/json' },
+        next: { revalidate: 3600 },
+      });
+
+      if (response.ok) {
+        const catalog = validate(await response.json(), 'remote');
+        if (catalog.report.errors.length === 0) {
+          logIssues(file, catalog.report);
+          return catalog;
+        }
+        console.warn(`Remote ${file} is not a catalog array. Falling back to local file.`, catalog.report.errors);
+      } else {
+        console.warn(`Remote ${file} returned ${response.status}. Falling back to local file.`);
+      }
+    } catch (err) {
+      console.warn(`Failed to fetch remote ${file}. Falling back to local file.`, err);
+    }
+  }
+
+  // 2. Fallback: read the local file from project root
+  const filePath = path.join(process.cwd(), file);
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if (fallback && (err as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw err;
+  }
+  const catalog = validate(JSON.parse(fileContent), 'local');
+  logIssues(file, catalog.report);
+  return catalog;
+}
@@ -0,0 +1,61 @@
+import { Movie } from '@/types/movie';
+import { CatalogReport } from '@/types/catalog';
+import { validateCatalog } from '@/utils/catalogValidation';
+import { legacyTitleId } from '@/utils/slug';
+import { loadCatalog } from './catalogLoader';
+import { fetchSeriesData } from './seriesCatalog';
+
+/**
+ * The catalog entries that passed validation, and the report on the rest
+ */
+export interface CheckedCatalog {
+  movies: Movie[];
+  report: CatalogReport;
+}
+
+/**
+ * Fetch and validate movies.json. Movies reusing an episode id from
+ * series.json are left out, since both are played at `/watch/[id]`.
+ */
+export async function fetchCatalog(): Promise<CheckedCatalog> {
+  const series = await fetchSeriesData();
+  return loadCatalog('movies.json', (data, source) => validateCatalog(data, source, series));
+}
+
+/**
+ * The movies in the catalog that passed validation
+ */
+export async function fetchMoviesData(): Promise<Movie[]> {
+  return (await fetchCatalog()).movies;
+}
+
+/**
+ * A movie looked up by id or slug
+ */
+export interface MovieLookup {
+  movie: Movie;
+  /** Found by a former slug or pre-id link rather than its id or slug; send the client to `movie.slug` */
+  moved: boolean;
+}
+
+/**
+ * Find a movie by its id or slug, or by a slug it had before (`previousSlugs`
+ * and the title-derived ids of old links)
+ *
+ * @example
+ * ```ts
+ * await findMovie('captain-america:-brave-new-world');
+ * // { movie: { id: 'captain-america-brave-new-world', ... }, moved: true }
+ * ```
+ */
+export async function findMovie(idOrSlug: string): Promise<MovieLookup | undefined> {
+  const movies = await fetchMoviesData();
+
+  const current = movies.find((movie) => movie.id === idOrSlug) ?? movies.find((movie) => movie.slug === idOrSlug);
+  if (current) return { movie: current, moved: false };
+
+  const former = movies.find(
+    (movie) => movie.previousSlugs?.includes(idOrSlug) || legacyTitleId(movie.title) === idOrSlug
+  );
+  return former && { movie: former, moved: true };
+}
@@ -1,9 +1,19 @@
 import { Content } from '@/types/content';
 import { Movie } from '@/types/movie';
 
-export const fetchMovies = async (): Promise<Movie[]> => {
+/**
+ * Fetch movies from the catalog, optionally filtered, sorted or limited by
+ * `/api/movies` query parameters
+ *
+ * @example
+ * ```ts
+ * const newest = await fetchMovies({ sort: '-year', limit: '10' });
+ * ```
+ */
+export const fetchMovies = async (params?: Record<string, string>): Promise<Movie[]> => {
   try {
-    const response = await fetch('/api/movies', {
+    const search = params ? `?${new URLSearchParams(params)}` : '';
+    const response = await fetch(`/api/movies${search}`, {
       next: { revalidate: 3600 } // Cache for 1 hour
     });
 
@@ -46,7 +56,8 @@ export const fetchMovieByVideoUrl = async (videoURL: string): Promise<Movie | nu
 };
 
 export const mapMovieToContent = (movie: Movie): Content => ({
-  id: movie.title.toLowerCase().replace(/\s+/g, '-'),
+  id: movie.id,
+  slug: movie.slug,
   title: movie.title,
   description: movie.description,
   imageUrl: movie.thumbnail,
@@ -54,5 +65,5 @@ export const mapMovieToContent = (movie: Movie): Content => ({
   type: 'movie',
   year: movie.year,
   rating: movie.rating,
-  genres: [], // Our movie data doesn't include genres yet
+  genres: movie.genres ?? [],
 }); 
\ No newline at end of file
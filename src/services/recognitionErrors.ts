@@ -0,0 +1,74 @@
+/**
+ * Recognition Error Classification
+ * Maps the many ways recognition can fail (Web Speech API error codes,
+ * getUserMedia DOMExceptions, fetch failures, annyang callbacks) onto a
+ * small set of {@link RecognitionErrorKind}s the UI can give guidance for.
+ */
+
+import { RecognitionError, RecognitionErrorKind } from '@/types/voice';
+
+/**
+ * Web Speech API `SpeechRecognitionErrorEvent.error` codes
+ */
+const SPEECH_ERROR_CODES: Record<string, RecognitionErrorKind> = {
+  'not-allowed': 'permissionDenied',
+  'service-not-allowed': 'permissionDenied',
+  'audio-capture': 'noMicrophone',
+  network: 'network',
+  'no-speech': 'noSpeech',
+  'language-not-supported': 'unsupported',
+};
+
+/**
+ * getUserMedia DOMException names
+ */
+const MEDIA_ERROR_NAMES: Record<string, RecognitionErrorKind> = {
+  NotAllowedError: 'permissionDenied',
+  SecurityError: 'permissionDenied',
+  NotFoundError: 'noMicrophone',
+  NotReadableError: 'noMicrophone',
+  OverconstrainedError: 'noMicrophone',
+  NotSupportedError: 'unsupported',
+};
+
+/**
+ * Errors the supervisor restarts after; the rest end the session
+ */
+const RECOVERABLE_KINDS = new Set<RecognitionErrorKind>(['network', 'noSpeech', 'unknown']);
+
+/**
+ * Whether a session that failed this way is worth restarting
+ */
+export const isRecoverable = (error: RecognitionError): boolean => RECOVERABLE_KINDS.has(error.kind);
+
+/**
+ * Classify anything thrown or reported during recognition
+ *
+ * @param error - A Web Speech API error code, an Error/DOMException, or any other value
+ * @returns The classified error
+ *
+ * @example
+ * ```ts
+ * classifyRecognitionError('not-allowed'); // { kind: 'permissionDenied', message: 'not-allowed' }
+ * classifyRecognitionError(new DOMException('', 'NotFoundError')); // { kind: 'noMicrophone', ... }
+ * ```
+ */
+export function classifyRecognitionError(error: unknown): RecognitionError {
+  if (typeof error === 'string') {
+    return { kind: SPEECH_ERROR_CODES[error] ?? 'unknown', message: error };
+  }
+
+  if (error instanceof Error) {
+    const message = error.message || error.name;
+    if (error.name in MEDIA_ERROR_NAMES) {
+      return { kind: MEDIA_ERROR_NAMES[error.name], message };
+    }
+    // fetch() rejects with a TypeError when the request never reaches the server
+    if (error.name === 'TypeError' && /fetch|network/i.test(error.message)) {
+      return { kind: 'network', message };
+    }
+    return { kind: 'unknown', message };
+  }
+
+  return { kind: 'unknown', message: String(error) };
+}
@@ -0,0 +1,82 @@
+import { Content } from '@/types/content';
+import { EpisodeDetail, SeriesSummary } from '@/types/series';
+import { formatEpisodeNumber } from '@/utils/series';
+
+/**
+ * Fetch series, without their episodes, optionally filtered, sorted or
+ * limited by `/api/series` query parameters
+ *
+ * @example
+ * ```ts
+ * const popular = await fetchSeries({ sort: '-rating', limit: '10' });
+ * ```
+ */
+export const fetchSeries = async (params?: Record<string, string>): Promise<SeriesSummary[]> => {
+  try {
+    const search = params ? `?${new URLSearchParams(params)}` : '';
+    const response = await fetch(`/api/series${search}`, {
+      next: { revalidate: 3600 } // Cache for 1 hour
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch series: ${response.status} ${response.statusText}`);
+    }
+
+    const series = await response.json();
+
+    if (!Array.isArray(series)) {
+      throw new Error('Invalid response format: expected an array of series');
+    }
+
+    return series;
+  } catch (error) {
+    console.error('Failed to fetch series:', error);
+    return [];
+  }
+};
+
+/**
+ * Fetch an episode with its series, or null if there is no episode with that id
+ */
+export const fetchEpisode = async (id: string): Promise<EpisodeDetail | null> => {
+  try {
+    const response = await fetch(`/api/episodes/${encodeURIComponent(id)}`, {
+      next: { revalidate: 3600 } // Cache for 1 hour
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      throw new Error(`Failed to fetch episode: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch episode:', error);
+    return null;
+  }
+};
+
+export const mapSeriesToContent = (series: SeriesSummary): Content => ({
+  id: series.id,
+  slug: series.slug,
+  title: series.title,
+  description: series.description,
+  imageUrl: series.thumbnail,
+  type: 'series',
+  year: series.year,
+  rating: series.rating,
+  genres: series.genres ?? [],
+});
+
+export const mapEpisodeToContent = ({ series, season, episode }: EpisodeDetail): Content => ({
+  id: episode.id,
+  slug: episode.id,
+  title: `${series.title} · ${formatEpisodeNumber(season, episode.number)} · ${episode.title}`,
+  description: episode.description,
+  imageUrl: episode.thumbnail || series.thumbnail,
+  videoUrl: episode.videoURL,
+  type: 'episode',
+  year: series.year,
+});
@@ -0,0 +1,66 @@
+import { Series, EpisodeDetail } from '@/types/series';
+import { CatalogReport } from '@/types/catalog';
+import { validateSeriesCatalog } from '@/utils/catalogValidation';
+import { episodeDetail } from '@/utils/series';
+import { loadCatalog } from './catalogLoader';
+
+/**
+ * The series that passed validation, and the report on the rest
+ */
+export interface CheckedSeriesCatalog {
+  series: Series[];
+  report: CatalogReport;
+}
+
+/**
+ * Fetch and validate series.json the same way as movies.json. Without a
+ * series.json the catalog simply has no series.
+ */
+export async function fetchSeriesCatalog(): Promise<CheckedSeriesCatalog> {
+  return loadCatalog('series.json', validateSeriesCatalog, validateSeriesCatalog([], 'local'));
+}
+
+/**
+ * The series in the catalog that passed validation
+ */
+export async function fetchSeriesData(): Promise<Series[]> {
+  return (await fetchSeriesCatalog()).series;
+}
+
+/**
+ * A series looked up by id or slug
+ */
+export interface SeriesLookup {
+  series: Series;
+  /** Found by a former slug rather than its id or slug; send the client to `series.slug` */
+  moved: boolean;
+}
+
+/**
+ * Find a series by its id or slug, or by a slug it had before
+ *
+ * @example
+ * ```ts
+ * await findSeries('sample-series'); // { series: { id: 'sample-series', ... }, moved: false }
+ * ```
+ */
+export async function findSeries(idOrSlug: string): Promise<SeriesLookup | undefined> {
+  const series = await fetchSeriesData();
+
+  const current = series.find(({ id }) => id === idOrSlug) ?? series.find(({ slug }) => slug === idOrSlug);
+  if (current) return { series: current, moved: false };
+
+  const former = series.find(({ previousSlugs }) => previousSlugs?.includes(idOrSlug));
+  return former && { series: former, moved: true };
+}
+
+/**
+ * Find an episode by its id, with its series and neighbours
+ */
+export async function findEpisode(id: string): Promise<EpisodeDetail | undefined> {
+  for (const series of await fetchSeriesData()) {
+    const detail = episodeDetail(series, id);
+    if (detail) return detail;
+  }
+  return undefined;
+}
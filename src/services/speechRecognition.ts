@@ -1,8 +1,15 @@
+import { TranscriptionEngineName, TranscriptionResponse } from '@/types/transcription';
+import { RecognitionAlternative } from '@/types/voice';
+import { UtteranceSegmenter, UtteranceSegmenterOptions } from './utteranceSegmenter';
+
+export type { TranscriptionResponse } from '@/types/transcription';
+
 /**
  * Base URL for the speech recognition API
- * Can be overridden using NEXT_PUBLIC_API_URL environment variable
+ * Defaults to the app's own `/api/transcribe` route; can be overridden using
+ * the NEXT_PUBLIC_API_URL environment variable to point at an external service
  */
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || '';
 
 // Add WebkitAudioContext type declaration
 declare global {
@@ -12,13 +19,17 @@ declare global {
 }
 
 /**
- * Interface representing the response from the transcription API
+ * Options for streaming microphone audio to the transcription API
  */
-export interface TranscriptionResponse {
-  /** The transcribed text from the audio */
-  text: string;
-  /** Confidence score of the transcription (0-1) */
-  confidence: number;
+export interface StreamAudioOptions {
+  /** The speech recognition engine to use */
+  engine?: TranscriptionEngineName;
+  /** BCP 47 language of the speech */
+  language?: string;
+  /** Voice activity detection tuning (pre-roll, hangover, max utterance length, ...) */
+  segmentation?: Omit<UtteranceSegmenterOptions, 'sampleRate'>;
+  /** Called when an utterance could not be transcribed; capture carries on */
+  onError?: (error: unknown) => void;
 }
 
 /**
@@ -26,23 +37,26 @@ export interface TranscriptionResponse {
  */
 export class SpeechRecognitionService {
   private static readonly SAMPLE_RATE = 16000; // Standard sample rate for speech recognition
-  private static readonly BUFFER_SIZE = 4096;
-  private static readonly CHANNELS = 1; // Mono audio
+  private static readonly BATCH_SIZE = 2048; // Samples per message from the capture worklet
+  private static readonly WORKLET_URL = '/worklets/pcm-capture-processor.js';
 
   /**
    * Transcribe an audio blob using the specified engine
    * 
    * @param audioBlob - The audio data to transcribe
-   * @param engine - The speech recognition engine to use ('whisper' or 'google')
+   * @param engine - The speech recognition engine to use
+   * @param language - BCP 47 language of the speech
    * @returns Promise resolving to the transcription response
    * @throws Error if transcription fails
    */
   static async transcribeAudio(
     audioBlob: Blob,
-    engine: 'whisper' | 'google' = 'whisper'
+    engine: TranscriptionEngineName = 'default',
+    language = 'en-US'
   ): Promise<TranscriptionResponse> {
     const formData = new FormData();
     formData.append('file', audioBlob, 'audio.wav');
+    formData.append('language', language);
 
     const response = await fetch(`${API_BASE_URL}/api/transcribe/${engine}`, {
       method: 'POST',
@@ -50,7 +64,7 @@ export class SpeechRecognitionService {
     });
 
     if (!response.ok) {
-      const error = await response.json();
+      const error = await response.json().catch(() => ({}));
       throw new Error(error.detail || 'Failed to transcribe audio');
     }
 
@@ -58,87 +72,99 @@ export class SpeechRecognitionService {
   }
 
   /**
-   * Stream audio to text using a MediaRecorder instance
-   * Continuously captures audio and sends it for transcription
+   * Stream audio to text from a microphone stream
+   * Captures audio with an AudioWorklet, segments it into complete utterances
+   * using voice activity detection and sends each utterance for transcription.
+   * Utterances are transcribed one at a time, in the order they were spoken.
    * 
-   * @param mediaRecorder - The MediaRecorder instance to use for recording
-   * @param onTranscription - Callback function to handle transcribed text
-   * @param engine - The speech recognition engine to use ('whisper' or 'google')
-   * @returns Promise that resolves when streaming ends
-   * @throws Error if streaming or transcription fails
+   * @param stream - The microphone MediaStream to capture
+   * @param onTranscription - Callback function to handle transcribed text, its confidence and any alternatives
+   * @param options - Engine, language and segmentation settings
+   * @returns Promise resolving, once capture is running, to a function that stops
+   * capture and transcribes any utterance still in progress
+   * @throws Error if the audio pipeline cannot be started
    */
   static async streamAudioToText(
-    mediaRecorder: MediaRecorder,
-    onTranscription: (text: string) => void,
-    engine: 'whisper' | 'google' = 'whisper'
-  ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const audioChunks: Blob[] = [];
-
-      // Configure audio context with specific sample rate
-      const audioContext = new (window.AudioContext || window.webkitAudioContext)({
-        sampleRate: this.SAMPLE_RATE,
-      });
-
-      const audioStream = mediaRecorder.stream;
-      const source = audioContext.createMediaStreamSource(audioStream);
-
-      // Create a worklet for audio processing
-      const processor = audioContext.createScriptProcessor(
-        this.BUFFER_SIZE,
-        this.CHANNELS,
-        this.CHANNELS
-      );
-
-      source.connect(processor);
-      processor.connect(audioContext.destination);
-
-      let isProcessing = false;
-      processor.onaudioprocess = async (e) => {
-        if (!isProcessing) {
-          isProcessing = true;
+    stream: MediaStream,
+    onTranscription: (text: string, confidence: number, alternatives: RecognitionAlternative[]) => void,
+    options: StreamAudioOptions = {}
+  ): Promise<() => Promise<void>> {
+    const { engine = 'default', language = 'en-US', segmentation, onError } = options;
+
+    // Use the device sample rate: Firefox refuses to connect a microphone
+    // stream to a context running at a different rate, so we resample instead
+    const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+    await audioContext.audioWorklet.addModule(this.WORKLET_URL);
+
+    const source = audioContext.createMediaStreamSource(stream);
+    const captureNode = new AudioWorkletNode(audioContext, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions: { batchSize: this.BATCH_SIZE },
+    });
+
+    let queue = Promise.resolve();
+    const segmenter = new UtteranceSegmenter(
+      { ...segmentation, sampleRate: audioContext.sampleRate },
+      (utterance) => {
+        queue = queue.then(async () => {
           try {
-            const inputData = e.inputBuffer.getChannelData(0);
-            const wavBlob = await this.convertToWav(inputData, this.SAMPLE_RATE);
-            audioChunks.push(wavBlob);
-
-            // Process accumulated audio every second
-            if (audioChunks.length >= 2) { // About 1 second of audio
-              const audioBlob = new Blob(audioChunks, { type: 'audio/wav' });
-              const result = await this.transcribeAudio(audioBlob, engine);
-              if (result.text.trim()) {
-                onTranscription(result.text.trim().toLowerCase());
-              }
-              audioChunks.length = 0; // Clear processed chunks
+            const samples = this.resample(utterance, audioContext.sampleRate, this.SAMPLE_RATE);
+            const wavBlob = await this.convertToWav(samples, this.SAMPLE_RATE);
+            const result = await this.transcribeAudio(wavBlob, engine, language);
+            if (result.text.trim()) {
+              const alternatives = (result.alternatives ?? []).map(({ text, confidence }) => ({
+                transcript: text.toLowerCase(),
+                confidence: confidence ?? null,
+              }));
+              onTranscription(result.text.trim().toLowerCase(), result.confidence, alternatives);
             }
           } catch (error) {
-            console.error('Error processing audio chunk:', error);
-          } finally {
-            isProcessing = false;
+            console.error('Error transcribing utterance:', error);
+            onError?.(error);
           }
-        }
-      };
-
-      // Cleanup function
-      const cleanup = () => {
-        processor.disconnect();
-        source.disconnect();
-        audioContext.close();
-      };
-
-      mediaRecorder.onstop = () => {
-        cleanup();
-        resolve();
-      };
-
-      mediaRecorder.onerror = (event) => {
-        cleanup();
-        reject(event.error);
-      };
-
-      // Start recording with specific options
-      mediaRecorder.start();
-    });
+        });
+      }
+    );
+
+    captureNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      segmenter.push(event.data);
+    };
+    source.connect(captureNode);
+
+    return async () => {
+      captureNode.port.onmessage = null;
+      source.disconnect();
+      captureNode.disconnect();
+      segmenter.flush();
+      await audioContext.close();
+      await queue;
+    };
+  }
+
+  /**
+   * Resample audio by averaging the source samples that fall into each output sample
+   */
+  private static resample(
+    audioData: Float32Array,
+    fromRate: number,
+    toRate: number
+  ): Float32Array {
+    if (fromRate === toRate) return audioData;
+
+    const ratio = fromRate / toRate;
+    const result = new Float32Array(Math.floor(audioData.length / ratio));
+    for (let i = 0; i < result.length; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(audioData.length, Math.floor((i + 1) * ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) {
+        sum += audioData[j];
+      }
+      result[i] = end > start ? sum / (end - start) : audioData[start];
+    }
+    return result;
   }
 
   /**
@@ -1,16 +1,52 @@
 /**
  * Speech Recognition Polyfill
  * Provides cross-browser speech recognition support using multiple fallback strategies
+ *
+ * A started session is supervised: native recognition ends on its own after
+ * silence, network trouble or when the tab is hidden, so it is restarted with
+ * exponential backoff until stop() is called. Fatal errors such as a blocked
+ * microphone end the session instead. All errors are reported classified.
  */
 
-import { SpeechRecognitionService } from './speechRecognition';
+import { SpeechRecognitionService, StreamAudioOptions } from './speechRecognition';
+import { TranscriptionEngineName } from '@/types/transcription';
+import { RecognitionAlternative, RecognitionError } from '@/types/voice';
+import { classifyRecognitionError, isRecoverable } from './recognitionErrors';
+
+/** Alternatives requested from the native recogniser for each result */
+const MAX_ALTERNATIVES = 3;
+
+/** Delay before the second restart in a row; doubles with each further attempt */
+const RESTART_BASE_DELAY_MS = 500;
+
+/** Longest wait between restarts */
+const RESTART_MAX_DELAY_MS = 10000;
+
+/** Consecutive failed restarts after which the session gives up */
+const MAX_RESTART_ATTEMPTS = 6;
+
+/** A session that ran this long ended normally (e.g. silence), not by failing */
+const STABLE_SESSION_MS = 5000;
 
 export interface SpeechRecognitionPolyfillOptions {
   continuous?: boolean;
   interimResults?: boolean;
   lang?: string;
-  onResult?: (transcript: string, confidence: number) => void;
-  onError?: (error: string) => void;
+  /** Transcription engine used in server mode */
+  engine?: TranscriptionEngineName;
+  /** Voice activity detection tuning used in server mode */
+  segmentation?: StreamAudioOptions['segmentation'];
+  /**
+   * Final result; confidence is null when the recogniser does not report one,
+   * and alternatives lists less likely interpretations where available
+   */
+  onResult?: (transcript: string, confidence: number | null, alternatives: RecognitionAlternative[]) => void;
+  /** Partial transcript of the utterance in progress, when `interimResults` is on (native mode only) */
+  onInterimResult?: (transcript: string) => void;
+  /** The session ended because of this error (fatal, or restarts exhausted) */
+  onError?: (error: RecognitionError) => void;
+  /** A recoverable error occurred and the session will restart after `delayMs` */
+  onRecovering?: (error: RecognitionError, delayMs: number) => void;
   onStart?: () => void;
   onEnd?: () => void;
 }
@@ -18,15 +54,24 @@ export interface SpeechRecognitionPolyfillOptions {
 export class SpeechRecognitionPolyfill {
   private options: SpeechRecognitionPolyfillOptions;
   private recognition: any = null;
-  private mediaRecorder: MediaRecorder | null = null;
+  private mediaStream: MediaStream | null = null;
+  private stopCapture: (() => Promise<void>) | null = null;
   private isListening = false;
   private fallbackMode: 'native' | 'server' | 'annyang' = 'native';
 
+  /** Session supervision (native mode) */
+  private restartAttempts = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionStartedAt = 0;
+  private sessionError: RecognitionError | null = null;
+  private resumeWhenVisible: (() => void) | null = null;
+
   constructor(options: SpeechRecognitionPolyfillOptions = {}) {
     this.options = {
       continuous: true,
       interimResults: false,
       lang: 'en-US',
+      engine: 'default',
       ...options
     };
     
@@ -45,7 +90,7 @@ export class SpeechRecognitionPolyfill {
     }
 
     // Check if we can use server-side processing
-    if (this.hasMediaRecorderSupport()) {
+    if (this.hasAudioCaptureSupport()) {
       this.fallbackMode = 'server';
       console.log('Using server-side speech recognition');
       return;
@@ -64,12 +109,12 @@ export class SpeechRecognitionPolyfill {
   }
 
   /**
-   * Check if browser supports MediaRecorder for server-side processing
+   * Check if browser supports microphone capture via AudioWorklet for server-side processing
    */
-  private hasMediaRecorderSupport(): boolean {
+  private hasAudioCaptureSupport(): boolean {
     return !!(navigator.mediaDevices && 
-              navigator.mediaDevices.getUserMedia && 
-              'MediaRecorder' in window);
+              typeof navigator.mediaDevices.getUserMedia === 'function' && 
+              'AudioWorkletNode' in window);
   }
 
   /**
@@ -78,11 +123,15 @@ export class SpeechRecognitionPolyfill {
   async start(): Promise<void> {
     if (this.isListening) return;
 
+    this.restartAttempts = 0;
     try {
       switch (this.fallbackMode) {
         case 'native':
           await this.startNativeRecognition();
           break;
+        case 'server':
+          await this.startServerRecognition();
+          break;
         case 'annyang':
           await this.startAnnyangRecognition();
           break;
@@ -90,7 +139,7 @@ export class SpeechRecognitionPolyfill {
       this.isListening = true;
       this.options.onStart?.();
     } catch (error) {
-      this.options.onError?.(`Failed to start speech recognition: ${error}`);
+      this.options.onError?.(classifyRecognitionError(error));
     }
   }
 
@@ -100,23 +149,105 @@ export class SpeechRecognitionPolyfill {
   stop(): void {
     if (!this.isListening) return;
 
+    // Mark the session over first so the native onend does not restart it
+    this.isListening = false;
+    this.cancelRestart();
+
     try {
       switch (this.fallbackMode) {
         case 'native':
           this.recognition?.stop();
           break;
         case 'server':
-          this.mediaRecorder?.stop();
+          this.releaseMicrophone();
           break;
         case 'annyang':
           // @ts-ignore
           if (window.annyang) window.annyang.pause();
           break;
       }
-      this.isListening = false;
+    } catch (error) {
+      console.error('Failed to stop speech recognition:', error);
+    }
+    this.options.onEnd?.();
+  }
+
+  /**
+   * End a supervised session that cannot continue, reporting why
+   */
+  private fail(error: RecognitionError): void {
+    const wasListening = this.isListening;
+    this.isListening = false;
+    this.cancelRestart();
+    this.recognition?.abort?.();
+    if (this.fallbackMode === 'server') {
+      this.releaseMicrophone();
+    }
+    this.options.onError?.(error);
+    if (wasListening) {
       this.options.onEnd?.();
+    }
+  }
+
+  /**
+   * Restart native recognition after it ended on its own. Sessions that ran
+   * for a while restart straight away; quick failures back off exponentially
+   * and give up after MAX_RESTART_ATTEMPTS. Hidden tabs wait until visible.
+   */
+  private scheduleRestart(): void {
+    const error = this.sessionError;
+    this.sessionError = null;
+
+    if (Date.now() - this.sessionStartedAt >= STABLE_SESSION_MS) {
+      this.restartAttempts = 0;
+    }
+    if (this.restartAttempts >= MAX_RESTART_ATTEMPTS) {
+      this.fail(error ?? { kind: 'unknown', message: 'Speech recognition kept stopping' });
+      return;
+    }
+
+    const delayMs = this.restartAttempts === 0
+      ? 0
+      : Math.min(RESTART_BASE_DELAY_MS * 2 ** (this.restartAttempts - 1), RESTART_MAX_DELAY_MS);
+    this.restartAttempts++;
+    if (error) {
+      this.options.onRecovering?.(error, delayMs);
+    }
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (document.hidden) {
+        this.resumeWhenVisible = () => {
+          if (document.hidden) return;
+          this.cancelRestart();
+          this.restartNative();
+        };
+        document.addEventListener('visibilitychange', this.resumeWhenVisible);
+        return;
+      }
+      this.restartNative();
+    }, delayMs);
+  }
+
+  private restartNative(): void {
+    if (!this.isListening) return;
+    try {
+      this.sessionStartedAt = Date.now();
+      this.recognition.start();
     } catch (error) {
-      this.options.onError?.(`Failed to stop speech recognition: ${error}`);
+      this.sessionError = classifyRecognitionError(error);
+      this.scheduleRestart();
+    }
+  }
+
+  private cancelRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    if (this.resumeWhenVisible) {
+      document.removeEventListener('visibilitychange', this.resumeWhenVisible);
+      this.resumeWhenVisible = null;
     }
   }
 
@@ -125,46 +256,114 @@ export class SpeechRecognitionPolyfill {
    */
   private async startNativeRecognition(): Promise<void> {
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    this.recognition = new SpeechRecognition();
+    const recognition: any = new SpeechRecognition();
+    this.recognition = recognition;
+    // A stopped recogniser still fires onend (and late results) after the
+    // next one has started; only the current instance may act on events
+    const isCurrent = () => this.recognition === recognition;
 
-    this.recognition.continuous = this.options.continuous;
-    this.recognition.interimResults = this.options.interimResults;
-    this.recognition.lang = this.options.lang;
+    recognition.continuous = this.options.continuous;
+    recognition.interimResults = this.options.interimResults;
+    recognition.lang = this.options.lang;
+    recognition.maxAlternatives = MAX_ALTERNATIVES;
 
-    this.recognition.onresult = (event: any) => {
-      const result = event.results[event.results.length - 1];
-      const transcript = result[0].transcript;
-      const confidence = result[0].confidence || 1.0;
-      this.options.onResult?.(transcript, confidence);
+    recognition.onresult = (event: any) => {
+      if (!isCurrent()) return;
+      let interim = '';
+      // Hearing speech proves the session is healthy
+      this.restartAttempts = 0;
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (!result.isFinal) {
+          interim += result[0].transcript;
+          continue;
+        }
+
+        // Some platforms report 0 when they have no score rather than a real 0
+        const [best, ...alternatives]: RecognitionAlternative[] = Array.from(
+          result as ArrayLike<{ transcript: string; confidence: number }>,
+          ({ transcript, confidence }) => ({ transcript, confidence: confidence || null })
+        );
+        this.options.onResult?.(best.transcript, best.confidence, alternatives);
+      }
+
+      if (interim) {
+        this.options.onInterimResult?.(interim);
+      }
     };
 
-    this.recognition.onerror = (event: any) => {
-      this.options.onError?.(`Speech recognition error: ${event.error}`);
+    recognition.onerror = (event: any) => {
+      // 'aborted' follows our own stop()/abort()
+      if (!isCurrent() || event.error === 'aborted') return;
+
+      const error = classifyRecognitionError(event.error);
+      if (isRecoverable(error)) {
+        this.sessionError = error;
+      } else {
+        this.fail(error);
+      }
     };
 
-    this.recognition.onend = () => {
-      this.isListening = false;
-      this.options.onEnd?.();
+    recognition.onend = () => {
+      if (isCurrent() && this.isListening) {
+        this.scheduleRestart();
+      }
     };
 
-    this.recognition.start();
+    this.sessionStartedAt = Date.now();
+    recognition.start();
   }
 
   /**
    * Start server-side speech recognition
+   * Captures the microphone and streams complete utterances to `/api/transcribe`.
+   * Resolves once capture has begun; transcription keeps running until stop().
+   */
+  private async startServerRecognition(): Promise<void> {
+    this.mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+    // Unplugging the microphone ends its track; nothing more can be captured
+    this.mediaStream.getAudioTracks().forEach((track) => {
+      track.addEventListener('ended', () => {
+        if (this.isListening) {
+          this.fail({ kind: 'noMicrophone', message: 'Microphone disconnected' });
+        }
+      });
+    });
+
+    try {
+      this.stopCapture = await SpeechRecognitionService.streamAudioToText(
+        this.mediaStream,
+        (transcript, confidence, alternatives) => {
+          this.options.onResult?.(transcript, confidence, alternatives);
+        },
+        {
+          engine: this.options.engine,
+          language: this.options.lang,
+          segmentation: this.options.segmentation,
+          // A failed upload loses one utterance; capture itself keeps going
+          onError: (error) => this.options.onRecovering?.(classifyRecognitionError(error), 0),
+        }
+      );
+    } catch (error) {
+      this.releaseMicrophone();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop capture (transcribing any utterance in progress) and all microphone
+   * tracks so the browser's recording indicator turns off
    */
-  // private async startServerRecognition(): Promise<void> {
-  //   const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-  //   this.mediaRecorder = new MediaRecorder(stream);
-
-  //   await SpeechRecognitionService.streamAudioToText(
-  //     this.mediaRecorder,
-  //     (transcript) => {
-  //       this.options.onResult?.(transcript, 1.0);
-  //     },
-  //     'whisper'
-  //   );
-  // }
+  private releaseMicrophone(): void {
+    this.stopCapture?.().catch((error) => {
+      console.error('Failed to stop audio capture:', error);
+    });
+    this.stopCapture = null;
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = null;
+  }
 
   /**
    * Start annyang.js polyfill recognition
@@ -182,19 +381,34 @@ export class SpeechRecognitionPolyfill {
       // @ts-ignore
       window.annyang.addCallback('result', (phrases: string[]) => {
         if (phrases && phrases.length > 0) {
-          this.options.onResult?.(phrases[0], 1.0);
+          // annyang offers several phrasings but no confidence scores
+          const [best, ...alternatives] = phrases;
+          this.options.onResult?.(
+            best,
+            null,
+            alternatives.map((transcript) => ({ transcript, confidence: null }))
+          );
         }
       });
 
+      // annyang restarts itself after recoverable errors, so only report the fatal ones
+      // @ts-ignore
+      window.annyang.addCallback('errorPermissionBlocked', () => {
+        this.fail({ kind: 'permissionDenied', message: 'annyang: permission blocked' });
+      });
+      // @ts-ignore
+      window.annyang.addCallback('errorPermissionDenied', () => {
+        this.fail({ kind: 'permissionDenied', message: 'annyang: permission denied' });
+      });
       // @ts-ignore
-      window.annyang.addCallback('error', (error: any) => {
-        this.options.onError?.(`Annyang error: ${error}`);
+      window.annyang.addCallback('errorNetwork', () => {
+        this.options.onRecovering?.({ kind: 'network', message: 'annyang: network error' }, 0);
       });
 
       // @ts-ignore
       window.annyang.start({ continuous: this.options.continuous });
     } else {
-      throw new Error('Failed to load annyang.js polyfill');
+      throw Object.assign(new Error('Failed to load annyang.js polyfill'), { name: 'NotSupportedError' });
     }
   }
 
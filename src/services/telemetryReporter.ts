@@ -0,0 +1,56 @@
+/**
+ * Playback telemetry reporter
+ * Queues playback events in the browser and posts them to `/api/telemetry` in
+ * batches. Telemetry is best effort: a failed batch is dropped rather than
+ * retried. Set `NEXT_PUBLIC_TELEMETRY=off` to send nothing.
+ */
+
+import { PlaybackEvent } from '@/types/telemetry';
+
+const TELEMETRY_URL = '/api/telemetry';
+
+/** Queue length that triggers a send without waiting for the next flush */
+const MAX_QUEUED_EVENTS = 50;
+
+export interface TelemetryReporter {
+  /** Queue an event for the next batch */
+  track: (event: PlaybackEvent) => void;
+  /**
+   * Send the queued events. While the page is unloading, pass `unloading` so
+   * the batch goes out with `sendBeacon` and survives the page closing.
+   */
+  flush: (unloading?: boolean) => void;
+}
+
+/**
+ * Create a reporter with its own queue (one per playback session)
+ */
+export function createTelemetryReporter(): TelemetryReporter {
+  const enabled = process.env.NEXT_PUBLIC_TELEMETRY !== 'off';
+  let queue: PlaybackEvent[] = [];
+
+  const flush = (unloading = false) => {
+    if (queue.length === 0) return;
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+
+    if (unloading && navigator.sendBeacon?.(TELEMETRY_URL, new Blob([body], { type: 'application/json' }))) {
+      return;
+    }
+    fetch(TELEMETRY_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: unloading,
+    }).catch((error) => console.warn('Failed to send playback telemetry:', error));
+  };
+
+  return {
+    track: (event) => {
+      if (!enabled) return;
+      queue.push(event);
+      if (queue.length >= MAX_QUEUED_EVENTS) flush();
+    },
+    flush,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Telemetry sinks
+ * Pluggable destinations for the playback events received by `/api/telemetry`.
+ * `TELEMETRY_SINK` picks one by name (default `file`); other sinks, such as
+ * a queue or analytics service, can be added with `registerTelemetrySink`.
+ *
+ * Only import this module from server code: it writes to the file system.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlaybackEvent, TelemetrySink } from '@/types/telemetry';
+import { isPlaybackEvent } from '@/utils/telemetry';
+
+/**
+ * JSON Lines file the file sink appends to
+ */
+const telemetryFile = (): string =>
+  process.env.TELEMETRY_FILE || path.join(process.cwd(), '.data', 'telemetry.jsonl');
+
+/** Pending appends, chained so concurrent batches never interleave */
+let appends: Promise<unknown> = Promise.resolve();
+
+/**
+ * Appends one JSON object per line, and reads them back for the QoE summary.
+ * Lines that no longer parse as events are skipped.
+ */
+const fileSink: TelemetrySink = {
+  name: 'file',
+  write: (events) => {
+    const append = appends.then(async () => {
+      const file = telemetryFile();
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, events.map((event) => `${JSON.stringify(event)}\n`).join(''));
+    });
+    appends = append.catch(() => undefined);
+    return append;
+  },
+  read: async (titleId) => {
+    let contents: string;
+    try {
+      contents = await fs.readFile(telemetryFile(), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const events: PlaybackEvent[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line);
+        if (isPlaybackEvent(event) && (!titleId || event.titleId === titleId)) events.push(event);
+      } catch {
+        // A line cut short by a crash; the rest of the file is still usable
+      }
+    }
+    return events;
+  },
+};
+
+/**
+ * Logs each event as a JSON line, for hosts that collect stdout. Cannot be
+ * read back, so the QoE summary is unavailable with it.
+ */
+const consoleSink: TelemetrySink = {
+  name: 'console',
+  write: async (events) => {
+    events.forEach((event) => console.log(JSON.stringify({ telemetry: event })));
+  },
+};
+
+const sinks = new Map<string, TelemetrySink>([fileSink, consoleSink].map((sink) => [sink.name, sink]));
+
+/**
+ * Register an additional sink, or replace a built-in one with the same name
+ */
+export function registerTelemetrySink(sink: TelemetrySink): void {
+  sinks.set(sink.name, sink);
+}
+
+/**
+ * The sink named by `TELEMETRY_SINK`, or the file sink
+ *
+ * @throws Error if `TELEMETRY_SINK` names a sink that is not registered
+ */
+export function getTelemetrySink(): TelemetrySink {
+  const name = process.env.TELEMETRY_SINK || fileSink.name;
+  const sink = sinks.get(name);
+  if (!sink) {
+    throw new Error(`Unknown TELEMETRY_SINK "${name}"; registered sinks: ${Array.from(sinks.keys()).join(', ')}`);
+  }
+  return sink;
+}
@@ -0,0 +1,250 @@
+/**
+ * Server-side transcription engines
+ * Pluggable registry used by the `/api/transcribe/[engine]` route. Engines are
+ * looked up by name; `default` resolves to `TRANSCRIPTION_ENGINE` or the first
+ * configured engine, falling back to the deterministic mock engine outside production.
+ *
+ * Only import this module from server code: it reads API keys from the environment.
+ */
+
+import { TranscriptionEngine } from '@/types/transcription';
+
+/**
+ * Decoded mono 16-bit PCM audio
+ */
+interface PcmAudio {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+/**
+ * Uploaded audio that cannot be decoded: a client error rather than an engine failure
+ */
+export class AudioDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioDecodeError';
+  }
+}
+
+/**
+ * Decode a PCM WAV file as produced by `SpeechRecognitionService.convertToWav`
+ *
+ * @throws AudioDecodeError if the buffer is not a complete 16-bit PCM WAV file
+ */
+export function decodeWav(buffer: ArrayBuffer): PcmAudio {
+  const view = new DataView(buffer);
+  const readString = (offset: number, length: number) =>
+    String.fromCharCode(...Array.from(new Uint8Array(buffer, offset, length)));
+
+  if (buffer.byteLength < 12 || readString(0, 4) !== 'RIFF' || readString(8, 4) !== 'WAVE') {
+    throw new AudioDecodeError('Audio is not a WAV file');
+  }
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readString(offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+
+    if (chunkId === 'fmt ') {
+      if (chunkSize < 16 || offset + 24 > buffer.byteLength) {
+        throw new AudioDecodeError('WAV format chunk is truncated');
+      }
+      const format = view.getUint16(offset + 8, true);
+      const bitsPerSample = view.getUint16(offset + 22, true);
+      if (format !== 1 || bitsPerSample !== 16) {
+        throw new AudioDecodeError('Only 16-bit PCM WAV audio is supported');
+      }
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (chunkId === 'data') {
+      if (sampleRate === 0) {
+        throw new AudioDecodeError('WAV data chunk comes before its format chunk');
+      }
+      const length = Math.min(chunkSize, buffer.byteLength - offset - 8);
+      const samples = new Int16Array(buffer.slice(offset + 8, offset + 8 + length - (length % 2)));
+      return { samples, sampleRate };
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new AudioDecodeError('WAV file has no data chunk');
+}
+
+/**
+ * Phrases the mock engine can "hear", chosen deterministically from the audio
+ */
+const MOCK_PHRASES = [
+  'play movie',
+  'pause movie',
+  'skip intro',
+  'turn on subtitles',
+  'turn off subtitles',
+  'skip forward 30 seconds',
+  'go back 10 seconds',
+];
+
+/** RMS level (0-1) under which the mock engine treats audio as silence */
+const MOCK_SILENCE_RMS = 0.01;
+
+/**
+ * Deterministic local engine for development and testing.
+ * Silent audio yields an empty transcript; anything else maps to one of
+ * {@link MOCK_PHRASES} by hashing the samples, so the same recording always
+ * produces the same result without any network access.
+ */
+const mockEngine: TranscriptionEngine = {
+  name: 'mock',
+  isAvailable: () => true,
+  transcribe: async ({ audio }) => {
+    const { samples } = decodeWav(audio);
+    if (samples.length === 0) {
+      return { text: '', confidence: 0, engine: 'mock' };
+    }
+
+    let energy = 0;
+    let hash = 0x811c9dc5; // FNV-1a offset basis
+    for (let i = 0; i < samples.length; i++) {
+      const sample = samples[i] / 0x8000;
+      energy += sample * sample;
+      hash = Math.imul(hash ^ (samples[i] & 0xffff), 0x01000193) >>> 0;
+    }
+
+    if (Math.sqrt(energy / samples.length) < MOCK_SILENCE_RMS) {
+      return { text: '', confidence: 0, engine: 'mock' };
+    }
+
+    return {
+      text: MOCK_PHRASES[hash % MOCK_PHRASES.length],
+      confidence: 0.75 + (hash % 25) / 100,
+      engine: 'mock',
+    };
+  },
+};
+
+/**
+ * OpenAI Whisper (or any server exposing the same `/audio/transcriptions` API)
+ */
+const whisperEngine: TranscriptionEngine = {
+  name: 'whisper',
+  isAvailable: () => !!process.env.OPENAI_API_KEY,
+  transcribe: async ({ audio, mimeType, language }) => {
+    const baseUrl = process.env.WHISPER_API_URL || 'https://api.openai.com/v1';
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: mimeType }), 'audio.wav');
+    form.append('model', process.env.WHISPER_MODEL || 'whisper-1');
+    form.append('language', language.split('-')[0]);
+    form.append('response_format', 'verbose_json');
+
+    const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Whisper returned ${response.status} ${response.statusText}`);
+    }
+
+    const result: { text: string; segments?: { avg_logprob: number }[] } = await response.json();
+    // Whisper has no confidence score; the mean segment probability is a fair proxy
+    const segments = result.segments ?? [];
+    const confidence = segments.length
+      ? segments.reduce((sum, segment) => sum + Math.exp(segment.avg_logprob), 0) / segments.length
+      : 1.0;
+
+    return { text: result.text.trim(), confidence, engine: 'whisper' };
+  },
+};
+
+/** Alternatives requested from engines that can return more than one */
+const MAX_ALTERNATIVES = 3;
+
+/**
+ * Google Cloud Speech-to-Text (REST, API key authentication)
+ */
+const googleEngine: TranscriptionEngine = {
+  name: 'google',
+  isAvailable: () => !!process.env.GOOGLE_SPEECH_API_KEY,
+  transcribe: async ({ audio, language }) => {
+    const { sampleRate } = decodeWav(audio);
+    const response = await fetch(
+      `https://speech.googleapis.com/v1/speech:recognize?key=${process.env.GOOGLE_SPEECH_API_KEY}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          config: {
+            encoding: 'LINEAR16',
+            sampleRateHertz: sampleRate,
+            languageCode: language,
+            maxAlternatives: MAX_ALTERNATIVES,
+          },
+          audio: { content: Buffer.from(audio).toString('base64') },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google Speech returned ${response.status} ${response.statusText}`);
+    }
+
+    const result: {
+      results?: { alternatives: { transcript: string; confidence?: number }[] }[];
+    } = await response.json();
+    const [best, ...others] = result.results?.[0]?.alternatives ?? [];
+
+    return {
+      text: best?.transcript.trim() ?? '',
+      confidence: best?.confidence ?? 0,
+      engine: 'google',
+      alternatives: others.map(({ transcript, confidence }) => ({ text: transcript.trim(), confidence })),
+    };
+  },
+};
+
+const engines = new Map<string, TranscriptionEngine>(
+  [whisperEngine, googleEngine, mockEngine].map((engine) => [engine.name, engine])
+);
+
+/**
+ * Register an additional engine, or replace a built-in one with the same name
+ */
+export function registerTranscriptionEngine(engine: TranscriptionEngine): void {
+  engines.set(engine.name, engine);
+}
+
+/**
+ * Look up an engine by name
+ *
+ * @param name - Engine name from the route, or `default`
+ * @returns The engine, or undefined if no engine has that name
+ */
+export function getTranscriptionEngine(name: string): TranscriptionEngine | undefined {
+  if (name !== 'default') {
+    return engines.get(name);
+  }
+
+  const configured = process.env.TRANSCRIPTION_ENGINE;
+  if (configured && engines.has(configured)) {
+    return engines.get(configured);
+  }
+
+  const available = Array.from(engines.values()).find(
+    (engine) => engine !== mockEngine && engine.isAvailable()
+  );
+  if (available) {
+    return available;
+  }
+
+  // Never answer real users with mock transcripts; surface the missing configuration instead
+  return process.env.NODE_ENV === 'production' ? whisperEngine : mockEngine;
+}
+
+/**
+ * Names of all registered engines
+ */
+export function listTranscriptionEngines(): string[] {
+  return Array.from(engines.keys());
+}
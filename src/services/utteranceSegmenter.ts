@@ -0,0 +1,184 @@
+/**
+ * Utterance Segmenter
+ * Energy-based voice activity detection that turns a continuous stream of
+ * microphone samples into complete utterances. Audio before speech starts is
+ * kept as pre-roll so the first syllable is not clipped, and an utterance only
+ * ends after a hangover period of silence so pauses between words do not
+ * split it. Framework-free, so it can run in a worker or under Node.
+ */
+
+/**
+ * Tuning options for utterance segmentation
+ */
+export interface UtteranceSegmenterOptions {
+  /** Sample rate of the pushed audio in Hz */
+  sampleRate: number;
+  /** Analysis frame length in milliseconds */
+  frameMs?: number;
+  /** Audio kept from before the detected start of speech */
+  preRollMs?: number;
+  /** Silence required after speech before the utterance is closed */
+  hangoverMs?: number;
+  /** Utterances shorter than this (excluding pre-roll and hangover) are discarded as noise */
+  minUtteranceMs?: number;
+  /** Utterances are force-closed once they reach this length */
+  maxUtteranceMs?: number;
+  /** Consecutive voiced time needed before speech is considered started */
+  speechStartMs?: number;
+  /** Absolute RMS level (0-1) below which audio is always treated as silence */
+  minThreshold?: number;
+  /** How far above the adaptive noise floor a frame must be to count as speech */
+  noiseRatio?: number;
+}
+
+const DEFAULTS: Required<Omit<UtteranceSegmenterOptions, 'sampleRate'>> = {
+  frameMs: 20,
+  preRollMs: 300,
+  hangoverMs: 700,
+  minUtteranceMs: 200,
+  maxUtteranceMs: 8000,
+  speechStartMs: 60,
+  minThreshold: 0.01,
+  noiseRatio: 3,
+};
+
+/** Smoothing factor for the noise floor estimate */
+const NOISE_FLOOR_ALPHA = 0.05;
+
+type SegmenterState = 'silence' | 'speech';
+
+export class UtteranceSegmenter {
+  private options: Required<UtteranceSegmenterOptions>;
+  private onUtterance: (samples: Float32Array) => void;
+  private frameSize: number;
+
+  private pending: Float32Array;
+  private pendingLength = 0;
+  private preRoll: Float32Array[] = [];
+  private utterance: Float32Array[] = [];
+  private state: SegmenterState = 'silence';
+  private noiseFloor: number;
+  private voicedFrames = 0;
+  private silentFrames = 0;
+  private speechFrames = 0;
+
+  constructor(
+    options: UtteranceSegmenterOptions,
+    onUtterance: (samples: Float32Array) => void
+  ) {
+    this.options = { ...DEFAULTS, ...options };
+    this.onUtterance = onUtterance;
+    this.frameSize = Math.round((this.options.sampleRate * this.options.frameMs) / 1000);
+    this.pending = new Float32Array(this.frameSize);
+    this.noiseFloor = this.options.minThreshold / this.options.noiseRatio;
+  }
+
+  /**
+   * Feed captured samples; any completed utterances are emitted synchronously
+   */
+  push(samples: Float32Array): void {
+    for (let i = 0; i < samples.length; i++) {
+      this.pending[this.pendingLength++] = samples[i];
+      if (this.pendingLength === this.frameSize) {
+        this.processFrame(this.pending.slice());
+        this.pendingLength = 0;
+      }
+    }
+  }
+
+  /**
+   * Close any utterance in progress, e.g. when capture stops
+   */
+  flush(): void {
+    if (this.state === 'speech') {
+      this.emit();
+    }
+    this.reset();
+  }
+
+  /**
+   * Current state, mainly useful for driving a "speaking" indicator
+   */
+  isSpeaking(): boolean {
+    return this.state === 'speech';
+  }
+
+  private framesFor(ms: number): number {
+    return Math.max(1, Math.round(ms / this.options.frameMs));
+  }
+
+  private processFrame(frame: Float32Array): void {
+    let energy = 0;
+    for (let i = 0; i < frame.length; i++) {
+      energy += frame[i] * frame[i];
+    }
+    const rms = Math.sqrt(energy / frame.length);
+    const threshold = Math.max(this.options.minThreshold, this.noiseFloor * this.options.noiseRatio);
+    const voiced = rms >= threshold;
+
+    if (this.state === 'silence') {
+      if (!voiced) {
+        this.noiseFloor += NOISE_FLOOR_ALPHA * (rms - this.noiseFloor);
+      }
+      this.voicedFrames = voiced ? this.voicedFrames + 1 : 0;
+      this.preRoll.push(frame);
+
+      if (this.voicedFrames >= this.framesFor(this.options.speechStartMs)) {
+        // Speech confirmed: pre-roll (which includes the voiced frames) opens the utterance
+        this.state = 'speech';
+        this.utterance = this.preRoll;
+        this.preRoll = [];
+        this.speechFrames = this.voicedFrames;
+        this.silentFrames = 0;
+        return;
+      }
+
+      const maxPreRoll = this.framesFor(this.options.preRollMs) + this.voicedFrames;
+      while (this.preRoll.length > maxPreRoll) {
+        this.preRoll.shift();
+      }
+      return;
+    }
+
+    this.utterance.push(frame);
+    if (voiced) {
+      this.speechFrames += 1;
+      this.silentFrames = 0;
+    } else {
+      this.silentFrames += 1;
+    }
+
+    const utteranceMs = this.utterance.length * this.options.frameMs;
+    if (
+      this.silentFrames >= this.framesFor(this.options.hangoverMs) ||
+      utteranceMs >= this.options.maxUtteranceMs
+    ) {
+      this.emit();
+      this.reset();
+    }
+  }
+
+  private emit(): void {
+    if (this.speechFrames * this.options.frameMs < this.options.minUtteranceMs) {
+      return;
+    }
+
+    const length = this.utterance.reduce((total, frame) => total + frame.length, 0);
+    const samples = new Float32Array(length);
+    let offset = 0;
+    this.utterance.forEach((frame) => {
+      samples.set(frame, offset);
+      offset += frame.length;
+    });
+    this.onUtterance(samples);
+  }
+
+  private reset(): void {
+    this.state = 'silence';
+    this.utterance = [];
+    this.preRoll = [];
+    this.voicedFrames = 0;
+    this.silentFrames = 0;
+    this.speechFrames = 0;
+  }
+}
@@ -0,0 +1,57 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { WatchProgress, WatchProgressStorage } from '@/types/watchProgress';
+import { byMostRecent, progressRecords } from '@/utils/watchProgress';
+
+/**
+ * JSON file the `/api/progress` routes keep progress in
+ */
+const progressFile = (): string =>
+  process.env.WATCH_PROGRESS_FILE || path.join(process.cwd(), '.data', 'watch-progress.json');
+
+const readFile = async (): Promise<Record<string, WatchProgress>> => {
+  try {
+    return progressRecords(JSON.parse(await fs.readFile(progressFile(), 'utf-8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return progressRecords({});
+    throw error;
+  }
+};
+
+/** Pending writes, chained so concurrent saves never interleave */
+let writes: Promise<unknown> = Promise.resolve();
+
+/**
+ * Apply a change to the stored records. Writes go through a temporary file
+ * and a rename, so a crash never leaves half a file behind.
+ */
+const update = (change: (entries: Record<string, WatchProgress>) => void): Promise<void> => {
+  const write = writes.then(async () => {
+    const entries = await readFile();
+    change(entries);
+
+    const file = progressFile();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(entries, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  });
+  writes = write.catch(() => undefined);
+  return write;
+};
+
+/**
+ * Server-side progress store behind the `/api/progress` routes. There are no
+ * user accounts yet, so every viewer shares one set of records.
+ */
+export const fileWatchProgressStore: WatchProgressStorage = {
+  get: async (titleId) => (await readFile())[titleId] ?? null,
+  list: async () => Object.values(await readFile()).sort(byMostRecent),
+  save: (progress) =>
+    update((entries) => {
+      entries[progress.titleId] = progress;
+    }),
+  remove: (titleId) =>
+    update((entries) => {
+      delete entries[titleId];
+    }),
+};
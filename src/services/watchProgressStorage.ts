@@ -0,0 +1,100 @@
+import { WatchProgress, WatchProgressStorage } from '@/types/watchProgress';
+import { byMostRecent, progressRecords } from '@/utils/watchProgress';
+
+const STORAGE_KEY = 'streamvoice:watch-progress';
+
+/** Titles remembered in localStorage; the least recently watched are dropped first */
+const MAX_LOCAL_ENTRIES = 200;
+
+/**
+ * Read every saved record, skipping any that are no longer valid
+ */
+const readLocal = (): Record<string, WatchProgress> => {
+  try {
+    return progressRecords(JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}'));
+  } catch {
+    return progressRecords({});
+  }
+};
+
+const writeLocal = (entries: Record<string, WatchProgress>) => {
+  try {
+    const kept = Object.values(entries).sort(byMostRecent).slice(0, MAX_LOCAL_ENTRIES);
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(Object.fromEntries(kept.map((progress) => [progress.titleId, progress])))
+    );
+  } catch {
+    // Progress just won't survive a reload
+  }
+};
+
+/**
+ * Keeps progress in this browser only
+ */
+export const localWatchProgressStorage: WatchProgressStorage = {
+  get: async (titleId) => readLocal()[titleId] ?? null,
+  list: async () => Object.values(readLocal()).sort(byMostRecent),
+  save: async (progress) => {
+    const entries = readLocal();
+    entries[progress.titleId] = progress;
+    writeLocal(entries);
+  },
+  remove: async (titleId) => {
+    const entries = readLocal();
+    delete entries[titleId];
+    writeLocal(entries);
+  },
+};
+
+const progressUrl = (titleId?: string) =>
+  titleId === undefined ? '/api/progress' : `/api/progress/${encodeURIComponent(titleId)}`;
+
+/**
+ * Throw for error responses so callers see failed saves
+ */
+const ensureOk = (response: Response): Response => {
+  if (!response.ok) {
+    throw new Error(`Watch progress request failed: ${response.status} ${response.statusText}`);
+  }
+  return response;
+};
+
+/**
+ * Keeps progress on the server through `/api/progress`, so it follows the
+ * viewer between devices
+ */
+export const apiWatchProgressStorage: WatchProgressStorage = {
+  get: async (titleId) => {
+    const response = await fetch(progressUrl(titleId), { cache: 'no-store' });
+    if (response.status === 404) return null;
+    return ensureOk(response).json();
+  },
+  list: async () => {
+    const response = await fetch(progressUrl(), { cache: 'no-store' });
+    return ensureOk(response).json();
+  },
+  save: async (progress) => {
+    ensureOk(await fetch(progressUrl(progress.titleId), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(progress),
+      // Lets the final save go through while the page unloads
+      keepalive: true,
+    }));
+  },
+  remove: async (titleId) => {
+    const response = await fetch(progressUrl(titleId), { method: 'DELETE' });
+    if (response.status !== 404) ensureOk(response);
+  },
+};
+
+/**
+ * The storage configured for this deployment: the server API when
+ * NEXT_PUBLIC_WATCH_PROGRESS_STORAGE is `server`, otherwise localStorage
+ */
+export function getWatchProgressStorage(): WatchProgressStorage {
+  return process.env.NEXT_PUBLIC_WATCH_PROGRESS_STORAGE === 'server'
+    ? apiWatchProgressStorage
+    : localWatchProgressStorage;
+}
@@ -0,0 +1,41 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { CommandHistoryEntry } from '@/types/commandHistory';
+
+/** Oldest entries are dropped beyond this many */
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Voice commands run during this browser session, oldest first
+ */
+export interface CommandHistoryState {
+  entries: CommandHistoryEntry[];
+}
+
+const initialState: CommandHistoryState = {
+  entries: [],
+};
+
+const commandHistorySlice = createSlice({
+  name: 'commandHistory',
+  initialState,
+  reducers: {
+    recordCommand(state, action: PayloadAction<CommandHistoryEntry>) {
+      state.entries.push(action.payload);
+      if (state.entries.length > MAX_HISTORY_ENTRIES) {
+        state.entries.splice(0, state.entries.length - MAX_HISTORY_ENTRIES);
+      }
+    },
+    markUndone(state, action: PayloadAction<string>) {
+      const entry = state.entries.find(({ id }) => id === action.payload);
+      if (entry) {
+        entry.undone = true;
+      }
+    },
+    clearHistory(state) {
+      state.entries = [];
+    },
+  },
+});
+
+export const { recordCommand, markUndone, clearHistory } = commandHistorySlice.actions;
+export const commandHistoryReducer = commandHistorySlice.reducer;
@@ -0,0 +1,72 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+
+/** Titles beyond this many are not added */
+export const MAX_QUEUE_LENGTH = 50;
+
+/**
+ * A title waiting in the play queue, with what the queue needs to show it
+ */
+export interface QueuedTitle {
+  /** Title id as used in `/watch/[id]` */
+  id: string;
+  title: string;
+  imageUrl: string;
+}
+
+/**
+ * Titles the viewer chose to watch next, in order, and whether Up Next
+ * counts down to the next title on its own
+ */
+export interface PlayQueueState {
+  items: QueuedTitle[];
+  autoplay: boolean;
+}
+
+const initialState: PlayQueueState = {
+  items: [],
+  autoplay: true,
+};
+
+const playQueueSlice = createSlice({
+  name: 'playQueue',
+  initialState,
+  reducers: {
+    /** Add a title to the end of the queue; titles already queued stay where they are */
+    addToQueue(state, action: PayloadAction<QueuedTitle>) {
+      if (state.items.length >= MAX_QUEUE_LENGTH) return;
+      if (!state.items.some(({ id }) => id === action.payload.id)) {
+        state.items.push(action.payload);
+      }
+    },
+    removeFromQueue(state, action: PayloadAction<string>) {
+      state.items = state.items.filter(({ id }) => id !== action.payload);
+    },
+    /** Move a queued title by `offset` places; negative moves it towards the front */
+    moveInQueue(state, action: PayloadAction<{ id: string; offset: number }>) {
+      const from = state.items.findIndex(({ id }) => id === action.payload.id);
+      if (from === -1) return;
+      const to = Math.min(state.items.length - 1, Math.max(0, from + action.payload.offset));
+      const [item] = state.items.splice(from, 1);
+      state.items.splice(to, 0, item);
+    },
+    clearQueue(state) {
+      state.items = [];
+    },
+    setAutoplay(state, action: PayloadAction<boolean>) {
+      state.autoplay = action.payload;
+    },
+    restorePlayQueue(state, action: PayloadAction<Partial<PlayQueueState>>) {
+      Object.assign(state, action.payload);
+    },
+  },
+});
+
+export const {
+  addToQueue,
+  removeFromQueue,
+  moveInQueue,
+  clearQueue,
+  setAutoplay,
+  restorePlayQueue,
+} = playQueueSlice.actions;
+export const playQueueReducer = playQueueSlice.reducer;
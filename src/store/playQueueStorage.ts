@@ -0,0 +1,47 @@
+import { MAX_QUEUE_LENGTH, PlayQueueState, QueuedTitle } from './playQueueSlice';
+
+const STORAGE_KEY = 'streamvoice:play-queue';
+
+const isQueuedTitle = (value: unknown): value is QueuedTitle => {
+  const item = value as QueuedTitle | null;
+  return (
+    !!item &&
+    typeof item.id === 'string' &&
+    item.id !== '' &&
+    typeof item.title === 'string' &&
+    typeof item.imageUrl === 'string'
+  );
+};
+
+/**
+ * Read the saved play queue, skipping entries that are no longer valid
+ */
+export function loadPlayQueue(): Partial<PlayQueueState> {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    const queue: Partial<PlayQueueState> = {};
+    if (Array.isArray(saved.items)) {
+      queue.items = saved.items
+        .filter(isQueuedTitle)
+        .map(({ id, title, imageUrl }: QueuedTitle) => ({ id, title, imageUrl }))
+        .slice(0, MAX_QUEUE_LENGTH);
+    }
+    if (typeof saved.autoplay === 'boolean') {
+      queue.autoplay = saved.autoplay;
+    }
+    return queue;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save the play queue; failures (private mode, quota) are ignored
+ */
+export function savePlayQueue(queue: PlayQueueState): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch {
+    // The queue just won't survive a reload
+  }
+}
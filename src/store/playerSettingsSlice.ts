@@ -0,0 +1,42 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { PlaybackPreference, SubtitlePreference } from '@/types/playerSettings';
+
+/**
+ * Playback preferences that carry over from one title to the next
+ */
+export interface PlayerSettingsState {
+  subtitles: SubtitlePreference;
+  playback: PlaybackPreference;
+}
+
+const initialState: PlayerSettingsState = {
+  subtitles: {
+    enabled: false,
+    language: null,
+    sdh: false,
+  },
+  playback: {
+    playbackRate: 1,
+    volume: 100,
+    muted: false,
+  },
+};
+
+const playerSettingsSlice = createSlice({
+  name: 'playerSettings',
+  initialState,
+  reducers: {
+    setSubtitlePreference(state, action: PayloadAction<Partial<SubtitlePreference>>) {
+      Object.assign(state.subtitles, action.payload);
+    },
+    setPlaybackPreference(state, action: PayloadAction<Partial<PlaybackPreference>>) {
+      Object.assign(state.playback, action.payload);
+    },
+    restorePlayerSettings(state, action: PayloadAction<Partial<PlayerSettingsState>>) {
+      Object.assign(state, action.payload);
+    },
+  },
+});
+
+export const { setSubtitlePreference, setPlaybackPreference, restorePlayerSettings } = playerSettingsSlice.actions;
+export const playerSettingsReducer = playerSettingsSlice.reducer;
@@ -0,0 +1,48 @@
+import { PlayerSettingsState } from './playerSettingsSlice';
+import { PLAYBACK_RATES } from '@/utils/playbackRates';
+
+const STORAGE_KEY = 'streamvoice:player-settings';
+
+/**
+ * Read saved player settings, ignoring anything missing or no longer valid
+ */
+export function loadPlayerSettings(): Partial<PlayerSettingsState> {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    const settings: Partial<PlayerSettingsState> = {};
+    const subtitles = saved.subtitles;
+    if (
+      subtitles &&
+      typeof subtitles.enabled === 'boolean' &&
+      (subtitles.language === null || typeof subtitles.language === 'string') &&
+      typeof subtitles.sdh === 'boolean'
+    ) {
+      settings.subtitles = { enabled: subtitles.enabled, language: subtitles.language, sdh: subtitles.sdh };
+    }
+    const playback = saved.playback;
+    if (
+      playback &&
+      PLAYBACK_RATES.includes(playback.playbackRate) &&
+      Number.isFinite(playback.volume) &&
+      playback.volume >= 0 &&
+      playback.volume <= 100 &&
+      typeof playback.muted === 'boolean'
+    ) {
+      settings.playback = { playbackRate: playback.playbackRate, volume: playback.volume, muted: playback.muted };
+    }
+    return settings;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save player settings; failures (private mode, quota) are ignored
+ */
+export function savePlayerSettings(settings: PlayerSettingsState): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Settings just won't survive a reload
+  }
+}
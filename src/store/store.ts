@@ -0,0 +1,23 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { voiceReducer } from './voiceSlice';
+import { commandHistoryReducer } from './commandHistorySlice';
+import { playerSettingsReducer } from './playerSettingsSlice';
+import { playQueueReducer } from './playQueueSlice';
+
+/**
+ * Create a new store instance. Called once per request on the server and once
+ * per page load in the browser by StoreProvider.
+ */
+export const makeStore = () =>
+  configureStore({
+    reducer: {
+      voice: voiceReducer,
+      commandHistory: commandHistoryReducer,
+      playerSettings: playerSettingsReducer,
+      playQueue: playQueueReducer,
+    },
+  });
+
+export type AppStore = ReturnType<typeof makeStore>;
+export type RootState = ReturnType<AppStore['getState']>;
+export type AppDispatch = AppStore['dispatch'];
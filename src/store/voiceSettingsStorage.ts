@@ -0,0 +1,39 @@
+import { ActivationMode } from '@/types/voice';
+import { ACTIVATION_MODES } from '@/utils/activationModes';
+import { parseThresholdOverrides } from '@/utils/confidencePolicy';
+import { VoiceSettings } from './voiceSlice';
+
+const STORAGE_KEY = 'streamvoice:voice-settings';
+
+/**
+ * Read saved voice settings, ignoring anything missing or no longer valid
+ */
+export function loadVoiceSettings(): Partial<VoiceSettings> {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    const settings: Partial<VoiceSettings> = {};
+    if (typeof saved.language === 'string') {
+      settings.language = saved.language;
+    }
+    if (saved.activationMode in ACTIVATION_MODES) {
+      settings.activationMode = saved.activationMode as ActivationMode;
+    }
+    if (saved.confidenceThresholds !== undefined) {
+      settings.confidenceThresholds = parseThresholdOverrides(saved.confidenceThresholds);
+    }
+    return settings;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save voice settings; failures (private mode, quota) are ignored
+ */
+export function saveVoiceSettings({ language, activationMode, confidenceThresholds }: VoiceSettings): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ language, activationMode, confidenceThresholds }));
+  } catch {
+    // Settings just won't survive a reload
+  }
+}
@@ -0,0 +1,92 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ActivationMode, ActivationState, VoiceIntentType } from '@/types/voice';
+import { ConfidenceThreshold, ConfidenceThresholdOverrides } from '@/utils/confidencePolicy';
+
+/**
+ * Voice control settings chosen by the user, and the live status reported by
+ * the active player so other components (e.g. VoiceControlInfo) can show it
+ */
+export interface VoiceState {
+  /** Recognition locale; commands use the matching command pack */
+  language: string;
+  /** How speech is turned into commands */
+  activationMode: ActivationMode;
+  /** Per-intent confidence limits replacing the defaults */
+  confidenceThresholds: ConfidenceThresholdOverrides;
+  /** Whether commands are currently being accepted */
+  activationState: ActivationState;
+  /** Recognition backend in use: native, server or annyang */
+  recognitionMode: string;
+  /** Whether the recogniser is running */
+  isListening: boolean;
+  /** Whether a video player is mounted and owns voice commands */
+  playerActive: boolean;
+  /** Set when one voice layer hands a live session to the other (player <-> navigator) */
+  resumeListening: boolean;
+}
+
+/**
+ * The part of the voice state chosen by the user and kept between visits
+ */
+export type VoiceSettings = Pick<VoiceState, 'language' | 'activationMode' | 'confidenceThresholds'>;
+
+const initialState: VoiceState = {
+  language: 'en-US',
+  activationMode: 'continuous',
+  confidenceThresholds: {},
+  activationState: 'idle',
+  recognitionMode: 'detecting...',
+  isListening: false,
+  playerActive: false,
+  resumeListening: false,
+};
+
+const voiceSlice = createSlice({
+  name: 'voice',
+  initialState,
+  reducers: {
+    setLanguage(state, action: PayloadAction<string>) {
+      state.language = action.payload;
+    },
+    setActivationMode(state, action: PayloadAction<ActivationMode>) {
+      state.activationMode = action.payload;
+    },
+    setConfidenceThreshold(
+      state,
+      action: PayloadAction<{ type: VoiceIntentType; threshold: Partial<ConfidenceThreshold> }>
+    ) {
+      const { type, threshold } = action.payload;
+      state.confidenceThresholds[type] = { ...state.confidenceThresholds[type], ...threshold };
+    },
+    resetConfidenceThresholds(state) {
+      state.confidenceThresholds = {};
+    },
+    setVoiceStatus(
+      state,
+      action: PayloadAction<Partial<Pick<VoiceState, 'activationState' | 'recognitionMode' | 'isListening'>>>
+    ) {
+      Object.assign(state, action.payload);
+    },
+    setPlayerActive(state, action: PayloadAction<boolean>) {
+      state.playerActive = action.payload;
+    },
+    setResumeListening(state, action: PayloadAction<boolean>) {
+      state.resumeListening = action.payload;
+    },
+    restoreVoiceSettings(state, action: PayloadAction<Partial<VoiceSettings>>) {
+      Object.assign(state, action.payload);
+    },
+  },
+});
+
+export const {
+  setLanguage,
+  setActivationMode,
+  setConfidenceThreshold,
+  resetConfidenceThresholds,
+  setVoiceStatus,
+  setPlayerActive,
+  setResumeListening,
+  restoreVoiceSettings,
+} = voiceSlice.actions;
+export const voiceReducer = voiceSlice.reducer;
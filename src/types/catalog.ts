@@ -0,0 +1,46 @@
+/**
+ * Where a catalog was read from
+ * - `remote`: movies.json in the `NEXT_PUBLIC_API_HOST` bucket
+ * - `local`: movies.json in the project root
+ * - `upload`: a candidate catalog sent for checking, not served
+ */
+export type CatalogSource = 'remote' | 'local' | 'upload';
+
+/**
+ * Something wrong with a catalog entry. Errors keep the entry out of the
+ * catalog; warnings are fixed up or ignored and the entry is still served.
+ */
+export interface CatalogIssue {
+  severity: 'error' | 'warning';
+  /** Position of the entry in the catalog array; absent for problems with the catalog as a whole */
+  index?: number;
+  /** The entry's id, or failing that its title, when it has one */
+  entry?: string;
+  /** Path to the offending value within the entry, e.g. 'renditions[1].height' */
+  path?: string;
+  message: string;
+}
+
+/**
+ * An entry kept out of the catalog, as it was read
+ */
+export interface QuarantinedEntry {
+  index: number;
+  value: unknown;
+  errors: CatalogIssue[];
+}
+
+/**
+ * The outcome of checking a catalog
+ */
+export interface CatalogReport {
+  source: CatalogSource;
+  /** Entries read */
+  total: number;
+  /** Entries served */
+  valid: number;
+  quarantined: QuarantinedEntry[];
+  warnings: CatalogIssue[];
+  /** Problems with the catalog as a whole, e.g. it not being an array */
+  errors: CatalogIssue[];
+}
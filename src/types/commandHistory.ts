@@ -0,0 +1,40 @@
+import { VoiceIntent } from './voice';
+
+/**
+ * The parts of player state voice commands can change
+ */
+export interface PlayerSnapshot {
+  /** Playback position in seconds */
+  currentTime: number;
+  paused: boolean;
+  /** Volume between 0 and 100 */
+  volume: number;
+  muted: boolean;
+  /** Playback speed, 1 being normal */
+  playbackRate: number;
+  /** Language of the subtitles on screen, null when they are off */
+  subtitles: string | null;
+}
+
+/**
+ * One voice command and its effect on the player
+ */
+export interface CommandHistoryEntry {
+  id: string;
+  /** What the user said */
+  transcript: string;
+  intent: VoiceIntent;
+  /** When the command ran (ms since epoch) */
+  timestamp: number;
+  /** Title that was playing, so undo never reaches into another title */
+  title: string;
+  /** Player state before and after; absent for commands that left the player or failed */
+  before?: PlayerSnapshot;
+  after?: PlayerSnapshot;
+  /** Set when the command could not be carried out, e.g. subtitles in a missing language */
+  failed?: boolean;
+  /** Set once the command has been reversed by "undo" */
+  undone: boolean;
+  /** For undo commands, the entry that was reversed (null if there was nothing to undo) */
+  undoes?: string | null;
+}
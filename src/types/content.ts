@@ -1,18 +1,29 @@
 export interface Content {
   id: string;
+  /** URL-safe name the card links to: `/watch/[slug]`, or `/series/[slug]` for a series */
+  slug: string;
   title: string;
   description: string;
   imageUrl: string;
-  videoUrl: string;
-  type: 'movie' | 'series';
+  /** Absent for a series, whose episodes each have their own */
+  videoUrl?: string;
+  /** A series card opens the series page; movies and episodes play */
+  type: 'movie' | 'series' | 'episode';
   year: number;
   rating?: number;
+  /** Genre ids, shown as chips */
   genres?: string[];
+  /** Fraction already watched (0-1), shown as a bar in Continue Watching */
+  progress?: number;
 }
 
 export interface ContentCarouselProps {
+  /** Anchor id, so voice navigation can scroll to the row */
+  id?: string;
   title: string;
   items: Content[];
+  /** Page listing everything in the row, linked as "See all" next to the heading */
+  href?: string;
 } 
 
 
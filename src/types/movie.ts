@@ -1,14 +1,99 @@
+/**
+ * A progressive MP4 encoding of a movie at one resolution
+ */
+export interface VideoRendition {
+  /** Frame height in pixels, e.g. 720 */
+  height: number;
+  /** Average bitrate in bits per second, if known */
+  bitrate?: number;
+  url: string;
+}
+
+/**
+ * An adaptive streaming manifest (HLS master playlist or DASH MPD)
+ */
+export interface StreamingManifest {
+  type: 'hls' | 'dash';
+  url: string;
+}
+
+/**
+ * A subtitle or caption file for one language
+ */
+export interface SubtitleTrack {
+  /** BCP 47 language tag, e.g. 'es' or 'pt-BR' */
+  language: string;
+  /** Name shown in the track picker, e.g. 'Español' */
+  label: string;
+  /** 'captions' also transcribe sound effects and music */
+  kind: 'subtitles' | 'captions';
+  /** Subtitles for the deaf and hard of hearing (speaker names, sound cues) */
+  sdh?: boolean;
+  /** WebVTT, SRT or ASS/SSA file; anything but WebVTT is converted by /api/subtitles */
+  url: string;
+  /** Timing correction in milliseconds for out-of-sync files; positive shows cues later */
+  offset?: number;
+}
+
+/**
+ * A span of a title, in seconds from the start
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parts of a title viewers may want to skip
+ */
+export interface PlaybackMarkers {
+  intro?: TimeRange;
+  /** "Previously on..." */
+  recap?: TimeRange;
+  credits?: TimeRange;
+}
+
+/**
+ * A named section of a title
+ */
+export interface Chapter {
+  title: string;
+  /** Start in seconds; a chapter runs until the next one starts */
+  start: number;
+}
+
 /**
  * Movie interface representing the structure of movie data
  */
 export interface Movie {
+  /** Stable identifier; never changes, even if the title does */
+  id: string;
+  /** URL-safe name used in `/watch/[id]`, e.g. 'captain-america-brave-new-world' */
+  slug: string;
+  /** Slugs the movie was known by before a rename; links using them redirect to `slug` */
+  previousSlugs?: string[];
   title: string;
+  /** Progressive MP4, played when there is no manifest and no renditions */
   videoURL: string;
+  /** MP4 encodings the quality selector can switch between */
+  renditions?: VideoRendition[];
+  /** Adaptive stream, preferred over the MP4s when present */
+  manifest?: StreamingManifest;
   year: number;
   rating: number;
   duration: string;
   cast: string[];
+  /** Genre ids from `GENRES` in utils/genres, e.g. ['action', 'comedy'] */
+  genres?: string[];
   thumbnail: string;
+  subtitles?: SubtitleTrack[];
+  markers?: PlaybackMarkers;
+  chapters?: Chapter[];
+  /** WebVTT chapters file, used when `chapters` is not given */
+  chaptersUrl?: string;
+  /** WebVTT thumbnails track for seek bar previews; cues point into sprite sheets with `#xywh=` */
+  thumbnailsUrl?: string;
+  /** @deprecated Single English WebVTT file; use `subtitles` */
   subtitleUrl?: string;
   description: string;
 }
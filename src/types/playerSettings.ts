@@ -0,0 +1,21 @@
+/**
+ * Which subtitles to show, remembered between titles
+ */
+export interface SubtitlePreference {
+  enabled: boolean;
+  /** Preferred language (BCP 47), null to use the title's first track */
+  language: string | null;
+  /** Prefer SDH tracks where a title has both */
+  sdh: boolean;
+}
+
+/**
+ * Speed and loudness, remembered between titles
+ */
+export interface PlaybackPreference {
+  /** Playback speed, 1 being normal */
+  playbackRate: number;
+  /** Volume between 0 and 100 */
+  volume: number;
+  muted: boolean;
+}
@@ -0,0 +1,97 @@
+import { Chapter, PlaybackMarkers, StreamingManifest, SubtitleTrack, VideoRendition } from './movie';
+
+/**
+ * One episode of a series; plays at `/watch/[id]` like a movie
+ */
+export interface Episode {
+  /** Stable identifier, unique across movies and episodes, e.g. 'sample-series-s01e02' */
+  id: string;
+  /** Position in its season, from 1 */
+  number: number;
+  title: string;
+  description: string;
+  duration: string;
+  /** Still shown in the episode list; the series thumbnail is used when absent */
+  thumbnail?: string;
+  /** Progressive MP4, played when there is no manifest and no renditions */
+  videoURL: string;
+  renditions?: VideoRendition[];
+  manifest?: StreamingManifest;
+  subtitles?: SubtitleTrack[];
+  /** Intro, recap and credits, for "skip intro" and Up Next */
+  markers?: PlaybackMarkers;
+  chapters?: Chapter[];
+  chaptersUrl?: string;
+  thumbnailsUrl?: string;
+}
+
+/**
+ * A season of a series, with its episodes in order
+ */
+export interface Season {
+  /** Season number, from 1 */
+  number: number;
+  /** Name shown instead of "Season N", e.g. 'Limited Series' */
+  title?: string;
+  /** Year the season aired */
+  year?: number;
+  episodes: Episode[];
+}
+
+/**
+ * A series: seasons of episodes under one title
+ */
+export interface Series {
+  /** Stable identifier; never changes, even if the title does */
+  id: string;
+  /** URL-safe name used in `/series/[slug]` */
+  slug: string;
+  /** Slugs the series was known by before a rename; links using them redirect to `slug` */
+  previousSlugs?: string[];
+  title: string;
+  description: string;
+  /** Year the first season aired */
+  year: number;
+  rating: number;
+  cast: string[];
+  /** Genre ids from `GENRES` in utils/genres */
+  genres?: string[];
+  thumbnail: string;
+  seasons: Season[];
+}
+
+/**
+ * Where an episode sits in its series
+ */
+export interface EpisodeRef {
+  id: string;
+  /** Season number */
+  season: number;
+  /** Episode number within the season */
+  number: number;
+  title: string;
+}
+
+/**
+ * An episode with its series, as returned by `/api/episodes/[id]`
+ */
+export interface EpisodeDetail {
+  series: Pick<Series, 'id' | 'slug' | 'title' | 'year' | 'thumbnail'>;
+  /** Season number */
+  season: number;
+  episode: Episode;
+  previous?: EpisodeRef;
+  next?: EpisodeRef;
+  /** Every episode of the series in viewing order, for "play season 2 episode 3" */
+  episodes: EpisodeRef[];
+}
+
+/**
+ * A series as listed by `/api/series`: everything but the episodes
+ */
+export type SeriesSummary = Omit<Series, 'seasons'> & {
+  /** Season numbers, in order */
+  seasons: number[];
+  /** Episodes across all seasons */
+  episodeCount: number;
+};
@@ -0,0 +1,73 @@
+/**
+ * Fields every playback event carries
+ */
+interface PlaybackEventBase {
+  /** Random id shared by the events of one viewing of one title */
+  sessionId: string;
+  /** Title id as used in `/watch/[id]` */
+  titleId: string;
+  /** When it happened (ms since epoch, client clock) */
+  timestamp: number;
+  /** Playback position in seconds */
+  position: number;
+}
+
+/**
+ * What happened during playback, as reported by the player
+ * - `startup`: first frame shown, `startupMs` after playback was requested
+ * - `rebuffer`: playback stalled for `durationMs` waiting for data (not counting seeks)
+ * - `error`: the video element failed with a `MediaError` code (1 aborted,
+ *   2 network, 3 decode, 4 source not supported)
+ * - `seek`: the viewer moved from `from` to `position`
+ * - `bitrate`: the rendition on screen changed (bitrate unknown for single MP4s)
+ * - `watch`: `seconds` of actual playback since the last report
+ */
+export type PlaybackEventDetail =
+  | { type: 'startup'; startupMs: number }
+  | { type: 'rebuffer'; durationMs: number }
+  | { type: 'error'; code: number; message?: string }
+  | { type: 'seek'; from: number }
+  | { type: 'bitrate'; bitrate?: number; height?: number; engine: string }
+  | { type: 'watch'; seconds: number };
+
+/**
+ * One playback event as sent to `/api/telemetry`
+ */
+export type PlaybackEvent = PlaybackEventBase & PlaybackEventDetail;
+
+/**
+ * Where `/api/telemetry` puts the events it receives. Sinks that can read
+ * events back also back the QoE summary.
+ */
+export interface TelemetrySink {
+  /** Identifier used in `TELEMETRY_SINK` */
+  name: string;
+  write: (events: PlaybackEvent[]) => Promise<void>;
+  /** Every stored event, or those of one title */
+  read?: (titleId?: string) => Promise<PlaybackEvent[]>;
+}
+
+/**
+ * Quality of experience for one title, aggregated over its playback sessions
+ */
+export interface QoeSummary {
+  titleId: string;
+  /** Distinct playback sessions reported */
+  sessions: number;
+  /** Sessions that reached the first frame, and how long that took */
+  startup: { count: number; medianMs?: number; p95Ms?: number };
+  /** Stalls after startup */
+  rebuffers: { count: number; totalSeconds: number; perHour: number };
+  /** Share of playing-or-stalled time spent stalled (0-1) */
+  rebufferRatio: number;
+  /** Errors by `MediaError` code */
+  errors: Record<string, number>;
+  /** Sessions that hit at least one error */
+  failedSessions: number;
+  seeks: number;
+  /** Watch-time weighted bitrate of the renditions played, in bits per second */
+  averageBitrate?: number;
+  watchSeconds: number;
+  /** Most recent event (ms since epoch) */
+  lastSeen: number;
+}
@@ -0,0 +1,43 @@
+/**
+ * Names of the built-in transcription engines.
+ * `default` resolves on the server to the configured or first available engine.
+ */
+export type TranscriptionEngineName = 'default' | 'whisper' | 'google' | 'mock';
+
+/**
+ * Interface representing the response from the transcription API
+ */
+export interface TranscriptionResponse {
+  /** The transcribed text from the audio */
+  text: string;
+  /** Confidence score of the transcription (0-1) */
+  confidence: number;
+  /** Engine that produced the transcription */
+  engine?: string;
+  /** Less likely transcriptions, most likely first, for engines that offer them */
+  alternatives?: { text: string; confidence?: number }[];
+}
+
+/**
+ * Audio submitted to a transcription engine
+ */
+export interface TranscriptionRequest {
+  /** Raw audio file contents (16-bit PCM WAV from the client) */
+  audio: ArrayBuffer;
+  /** MIME type reported by the client */
+  mimeType: string;
+  /** BCP 47 language tag, e.g. 'en-US' */
+  language: string;
+}
+
+/**
+ * Contract implemented by every server-side transcription engine
+ */
+export interface TranscriptionEngine {
+  /** Identifier used in the `/api/transcribe/[engine]` route */
+  name: string;
+  /** Whether the engine is configured (API keys present, etc.) */
+  isAvailable: () => boolean;
+  /** Transcribe a single utterance */
+  transcribe: (request: TranscriptionRequest) => Promise<TranscriptionResponse>;
+}
@@ -1,6 +1,20 @@
+import { Chapter, PlaybackMarkers, StreamingManifest, SubtitleTrack, VideoRendition } from './movie';
+import { EpisodeDetail } from './series';
+
 export interface VideoPlayerProps {
+  /** Title id, used to save and resume watch progress */
+  id: string;
   src: string;
   title: string;
   poster?: string;
-  subtitleUrl?: string;
-}
\ No newline at end of file
+  subtitles?: SubtitleTrack[];
+  renditions?: VideoRendition[];
+  manifest?: StreamingManifest;
+  markers?: PlaybackMarkers;
+  chapters?: Chapter[];
+  chaptersUrl?: string;
+  /** WebVTT thumbnails track for seek bar previews */
+  thumbnailsUrl?: string;
+  /** Where the title sits in its series, when it is an episode */
+  episode?: Omit<EpisodeDetail, 'episode'>;
+}
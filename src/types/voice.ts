@@ -2,10 +2,133 @@
  * Props for components that use voice control functionality
  */
 export interface VoiceControlProps {
-  /** Callback function to handle recognized voice commands */
-  onCommand: (command: string) => void;
+  /** Callback function to handle recognized voice commands, with the recogniser's confidence and alternatives */
+  onCommand: (command: string, result: RecognitionResult) => void;
 }
 
+/**
+ * One interpretation of an utterance offered by the recogniser
+ */
+export interface RecognitionAlternative {
+  transcript: string;
+  /** Confidence between 0 and 1, or null when the engine does not report one */
+  confidence: number | null;
+}
+
+/**
+ * A final recognition result: the best interpretation plus any runners-up,
+ * most likely first
+ */
+export interface RecognitionResult extends RecognitionAlternative {
+  alternatives: RecognitionAlternative[];
+}
+
+/**
+ * Why speech recognition failed:
+ * - `permissionDenied`: the user or browser policy blocked the microphone
+ * - `noMicrophone`: no usable input device (missing, unplugged or in use)
+ * - `network`: the recognition service could not be reached
+ * - `noSpeech`: nothing was heard
+ * - `unsupported`: the browser cannot do speech recognition at all
+ * - `unknown`: anything else
+ */
+export type RecognitionErrorKind =
+  | 'permissionDenied'
+  | 'noMicrophone'
+  | 'network'
+  | 'noSpeech'
+  | 'unsupported'
+  | 'unknown';
+
+/**
+ * A classified speech recognition error
+ */
+export interface RecognitionError {
+  kind: RecognitionErrorKind;
+  /** Technical detail, for logs */
+  message: string;
+}
+
+/**
+ * How recognised speech becomes a command:
+ * - `continuous`: every phrase heard is dispatched
+ * - `pushToTalk`: only speech while a key or button is held is dispatched
+ * - `wakePhrase`: only speech following the wake phrase ("Hey Stream ...") is dispatched
+ */
+export type ActivationMode = 'continuous' | 'pushToTalk' | 'wakePhrase';
+
+/**
+ * Whether speech is currently being dispatched as commands
+ */
+export type ActivationState = 'idle' | 'awake';
+
+/**
+ * Intents handled by the video player.
+ * Slot values are already normalised (seconds, percentages, booleans).
+ */
+export type PlayerIntent =
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'skipIntro' }
+  /** Relative seek; negative values seek backwards */
+  | { type: 'seekBy'; seconds: number }
+  /** Absolute seek to a position in the title */
+  | { type: 'seekTo'; seconds: number }
+  /** Volume level between 0 and 100 */
+  | { type: 'setVolume'; percent: number }
+  /** Relative volume change in percentage points; negative is quieter */
+  | { type: 'adjustVolume'; percent: number }
+  | { type: 'setMuted'; muted: boolean }
+  /** Playback speed, 1 being normal */
+  | { type: 'setPlaybackRate'; rate: number }
+  /** Move through the speed steps; positive is faster */
+  | { type: 'stepPlaybackRate'; steps: number }
+  | { type: 'setFullscreen'; enabled: boolean }
+  | { type: 'setPictureInPicture'; enabled: boolean }
+  | { type: 'setSubtitles'; enabled: boolean; language?: string }
+  | { type: 'nextChapter' }
+  | { type: 'previousChapter' }
+  /** Jump to a chapter by its 1-based number */
+  | { type: 'goToChapter'; chapter: number }
+  /** Start the Up Next title now instead of waiting for the countdown */
+  | { type: 'playNext' }
+  /** Stop the Up Next countdown and stay on the current title */
+  | { type: 'cancelUpNext' }
+  /** Go to the episode after the one playing */
+  | { type: 'nextEpisode' }
+  /** Go to an episode of the series playing, by season and episode number */
+  | { type: 'playEpisode'; season: number; episode: number }
+  /** Reverse the last reversible command ("undo that", "go back") */
+  | { type: 'undo' };
+
+/**
+ * Intents handled by the app-wide navigation layer
+ */
+export type NavigationIntent =
+  | { type: 'goHome' }
+  /** Scroll to a home page row, by section id */
+  | { type: 'openSection'; section: string }
+  /** Browse a genre's page, by genre id */
+  | { type: 'openGenre'; genre: string }
+  | { type: 'search'; query: string }
+  /** Find a title in the catalog and start watching it */
+  | { type: 'playTitle'; title: string };
+
+/**
+ * Structured result of parsing a spoken command
+ */
+export type VoiceIntent = PlayerIntent | NavigationIntent;
+
+/**
+ * Discriminator values of {@link VoiceIntent}
+ */
+export type VoiceIntentType = VoiceIntent['type'];
+
+/**
+ * Discriminator values of {@link PlayerIntent}
+ */
+export type PlayerIntentType = PlayerIntent['type'];
+
 /**
  * Web Speech API type declarations
  * These extend the global namespace to provide TypeScript support for the Web Speech API
@@ -21,6 +144,8 @@ declare global {
     interimResults: boolean;
     /** Language for speech recognition */
     lang: string;
+    /** Maximum number of alternatives returned per result */
+    maxAlternatives: number;
     /** Start speech recognition */
     start(): void;
     /** Stop speech recognition */
@@ -69,9 +194,13 @@ declare global {
    * Event interface for speech recognition results
    */
   interface SpeechRecognitionEvent extends Event {
+    /** Index of the first result that changed in this event */
+    resultIndex: number;
     /** The results of speech recognition */
     results: {
       [index: number]: {
+        /** Whether this result is final or may still change */
+        isFinal: boolean;
         [index: number]: {
           /** The recognized text */
           transcript: string;
@@ -0,0 +1,28 @@
+/**
+ * How far the viewer got through one title
+ */
+export interface WatchProgress {
+  /** Title id as used in `/watch/[id]` */
+  titleId: string;
+  /** Last playback position in seconds */
+  position: number;
+  /** Length of the title in seconds */
+  duration: number;
+  /** When the progress was saved (ms since epoch) */
+  updatedAt: number;
+  /** Set once the title has been played to the end (or into the credits) */
+  watched: boolean;
+}
+
+/**
+ * Where watch progress is kept. The client uses the localStorage or server
+ * API implementation; the API route is backed by a file store.
+ */
+export interface WatchProgressStorage {
+  /** Progress for one title, or null if it has never been played */
+  get: (titleId: string) => Promise<WatchProgress | null>;
+  /** Progress for every title played, most recently updated first */
+  list: () => Promise<WatchProgress[]>;
+  save: (progress: WatchProgress) => Promise<void>;
+  remove: (titleId: string) => Promise<void>;
+}
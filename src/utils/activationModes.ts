@@ -0,0 +1,22 @@
+import { ActivationMode } from '@/types/voice';
+
+/**
+ * Display metadata for each voice activation mode
+ */
+export const ACTIVATION_MODES: Record<ActivationMode, { label: string; badge: string; hint: string }> = {
+  continuous: {
+    label: 'Continuous',
+    badge: 'ON',
+    hint: 'Every phrase heard is treated as a command.',
+  },
+  pushToTalk: {
+    label: 'Push to talk',
+    badge: 'PTT',
+    hint: 'Hold the mic button or the V key while speaking.',
+  },
+  wakePhrase: {
+    label: 'Wake phrase',
+    badge: 'HEY',
+    hint: 'Start commands with "Hey Stream", e.g. "Hey Stream, pause".',
+  },
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import movies from '../../movies.json';
+import series from '../../series.json';
+import { validateCatalog, validateSeriesCatalog } from './catalogValidation';
+
+describe('validateCatalog', () => {
+  const { series: servedSeries } = validateSeriesCatalog(series, 'local');
+  const episodeId = servedSeries[0].seasons[0].episodes[0].id;
+
+  it('accepts the bundled catalog alongside the bundled series', () => {
+    const { report } = validateCatalog(movies, 'local', servedSeries);
+    expect(report.quarantined).toEqual([]);
+    expect(report.valid).toBe(movies.length);
+  });
+
+  it('leaves out a movie whose id is an episode id', () => {
+    const clash = { ...movies[0], id: episodeId, slug: 'another-slug' };
+    const { movies: kept, report } = validateCatalog([clash], 'upload', servedSeries);
+    expect(kept).toEqual([]);
+    expect(report.quarantined[0].errors[0].message).toContain(`"${episodeId}" is already used by an episode of`);
+  });
+
+  it('leaves out a movie whose slug is an episode id', () => {
+    const clash = { ...movies[0], slug: episodeId };
+    const { report } = validateCatalog([clash], 'upload', servedSeries);
+    expect(report.quarantined).toHaveLength(1);
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Catalog Validation
+ * Runtime checks of movies.json and series.json against the `Movie` and
+ * `Series` shapes, so a bad entry is left out of the catalog with a report of
+ * what is wrong instead of breaking pages that read it.
+ */
+
+import { Movie } from '@/types/movie';
+import { Series } from '@/types/series';
+import { CatalogIssue, CatalogReport, CatalogSource } from '@/types/catalog';
+import { slugify } from './slug';
+import { findGenre, getGenre } from './genres';
+
+/** Lowercase letters and digits in hyphen-separated words */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Hours and minutes as written in the catalog: '2h 29m', '1h', '45m' */
+const DURATION_PATTERN = /^(?:\d+h(?: [0-5]?\dm)?|\d+m)$/;
+
+/** Earliest and latest plausible release years */
+const YEAR_RANGE = { min: 1888, max: 2100 };
+
+type Value = Record<string, unknown>;
+
+/**
+ * Collects the problems found in one entry
+ */
+type Report = (path: string, message: string, severity?: CatalogIssue['severity']) => void;
+
+const isObject = (value: unknown): value is Value => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check an optional field with `check`, reporting a wrong type as `expected`
+ */
+function optional(entry: Value, field: string, report: Report, expected: string, check: (value: unknown) => boolean) {
+  if (entry[field] !== undefined && !check(entry[field])) report(field, `must be ${expected}`);
+}
+
+/**
+ * Check each item of an optional array field
+ */
+function eachItem(entry: Value, field: string, report: Report, check: (item: unknown, path: string) => void) {
+  const items = entry[field];
+  if (items === undefined) return;
+  if (!Array.isArray(items)) {
+    report(field, 'must be an array');
+    return;
+  }
+  items.forEach((item, i) => check(item, `${field}[${i}]`));
+}
+
+/**
+ * Report an inner value's problems with paths relative to the entry
+ */
+const within = (report: Report, prefix: string): Report => (path, message, severity) =>
+  report(`${prefix}.${path}`, message, severity);
+
+/**
+ * Check a playback marker: a span with 0 ≤ start < end
+ */
+function checkRange(value: unknown, path: string, report: Report) {
+  if (value === undefined) return;
+  if (!isObject(value) || !isNumber(value.start) || !isNumber(value.end)) {
+    report(path, 'must be { start, end } in seconds');
+  } else if (value.start < 0 || value.start >= value.end) {
+    report(path, 'must start at 0 or later and end after it starts');
+  }
+}
+
+/** Fields of the video itself, shared by movies and episodes */
+const PLAYBACK_KEYS = [
+  'videoURL', 'renditions', 'manifest', 'duration', 'subtitles', 'markers', 'chapters', 'chaptersUrl', 'thumbnailsUrl',
+] as const;
+
+/** Fields that describe a movie or series in listings, shared by both */
+const LISTING_KEYS = [
+  'id', 'slug', 'previousSlugs', 'title', 'description', 'year', 'rating', 'cast', 'genres', 'thumbnail',
+] as const;
+
+/** Fields each kind of entry may have, for spotting misspelt ones */
+const MOVIE_KEYS = new Set<string>([...LISTING_KEYS, ...PLAYBACK_KEYS, 'subtitleUrl'] satisfies (keyof Movie)[]);
+const SERIES_KEYS = new Set<string>([...LISTING_KEYS, 'seasons'] satisfies (keyof Series)[]);
+const SEASON_KEYS = new Set<string>(['number', 'title', 'year', 'episodes'] satisfies (keyof Series['seasons'][number])[]);
+const EPISODE_KEYS = new Set<string>([
+  'id', 'number', 'title', 'description', 'thumbnail', ...PLAYBACK_KEYS,
+] satisfies (keyof Series['seasons'][number]['episodes'][number])[]);
+
+/**
+ * Warn about fields the shape does not have
+ *
+ * @param shape - Type name with its article, e.g. 'an Episode'
+ */
+function checkKnownFields(entry: Value, known: Set<string>, shape: string, report: Report) {
+  Object.keys(entry)
+    .filter((field) => !known.has(field))
+    .forEach((field) => report(field, `is not ${shape} field and is ignored`, 'warning'));
+}
+
+/**
+ * Check the video of a movie or episode: where to stream it from, its
+ * length, subtitles, markers and chapters
+ */
+function checkPlayback(entry: Value, report: Report) {
+  if (!isText(entry.videoURL)) report('videoURL', 'must be a non-empty string');
+  if (typeof entry.duration !== 'string' || !DURATION_PATTERN.test(entry.duration)) {
+    report('duration', "must be hours and minutes such as '2h 29m', '1h' or '45m'");
+  }
+
+  eachItem(entry, 'renditions', report, (rendition, path) => {
+    if (!isObject(rendition)) return report(path, 'must be { height, bitrate?, url }');
+    if (!Number.isInteger(rendition.height) || (rendition.height as number) <= 0) report(`${path}.height`, 'must be a positive whole number');
+    if (rendition.bitrate !== undefined && !(isNumber(rendition.bitrate) && rendition.bitrate > 0)) {
+      report(`${path}.bitrate`, 'must be a positive number');
+    }
+    if (!isText(rendition.url)) report(`${path}.url`, 'must be a non-empty string');
+  });
+
+  if (entry.manifest !== undefined) {
+    const { manifest } = entry;
+    if (!isObject(manifest) || (manifest.type !== 'hls' && manifest.type !== 'dash') || !isText(manifest.url)) {
+      report('manifest', "must be { type: 'hls' | 'dash', url }");
+    }
+  }
+
+  eachItem(entry, 'subtitles', report, (track, path) => {
+    if (!isObject(track)) return report(path, 'must be { language, label, kind, url }');
+    if (!isText(track.language)) report(`${path}.language`, 'must be a language tag');
+    if (!isText(track.label)) report(`${path}.label`, 'must be a non-empty string');
+    if (track.kind !== 'subtitles' && track.kind !== 'captions') report(`${path}.kind`, "must be 'subtitles' or 'captions'");
+    if (!isText(track.url)) report(`${path}.url`, 'must be a non-empty string');
+    if (track.sdh !== undefined && typeof track.sdh !== 'boolean') report(`${path}.sdh`, 'must be true or false');
+    if (track.offset !== undefined && !isNumber(track.offset)) report(`${path}.offset`, 'must be a number of milliseconds');
+  });
+
+  if (entry.markers !== undefined) {
+    if (!isObject(entry.markers)) report('markers', 'must be an object');
+    else (['intro', 'recap', 'credits'] as const).forEach((name) => checkRange((entry.markers as Value)[name], `markers.${name}`, report));
+  }
+
+  eachItem(entry, 'chapters', report, (chapter, path) => {
+    if (!isObject(chapter) || typeof chapter.title !== 'string' || !isNumber(chapter.start) || chapter.start < 0) {
+      report(path, 'must be { title, start } with start in seconds');
+    }
+  });
+
+  optional(entry, 'chaptersUrl', report, 'a non-empty string', isText);
+  optional(entry, 'thumbnailsUrl', report, 'a non-empty string', isText);
+}
+
+/**
+ * Check what listings show of a movie or series: identity, title, artwork,
+ * year, rating, cast and genres
+ */
+function checkListing(entry: Value, report: Report) {
+  if (!isText(entry.title)) report('title', 'must be a non-empty string');
+  if (typeof entry.description !== 'string') report('description', 'must be a string');
+  if (typeof entry.thumbnail !== 'string') report('thumbnail', 'must be a string');
+
+  if (!Number.isInteger(entry.year) || (entry.year as number) < YEAR_RANGE.min || (entry.year as number) > YEAR_RANGE.max) {
+    report('year', `must be a whole year from ${YEAR_RANGE.min} to ${YEAR_RANGE.max}`);
+  }
+  if (!isNumber(entry.rating) || entry.rating < 0 || entry.rating > 10) {
+    report('rating', 'must be a number from 0 to 10');
+  }
+  if (!Array.isArray(entry.cast) || !entry.cast.every((member) => typeof member === 'string')) {
+    report('cast', 'must be an array of names');
+  }
+
+  if (entry.id === undefined) report('id', 'is missing; one is made from the title, but it changes if the title does', 'warning');
+  else if (!isText(entry.id)) report('id', 'must be a non-empty string');
+  if (entry.slug === undefined) report('slug', 'is missing; one is made from the title', 'warning');
+  else if (typeof entry.slug !== 'string' || !SLUG_PATTERN.test(entry.slug)) {
+    report('slug', 'must be lowercase letters and digits separated by hyphens');
+  }
+  eachItem(entry, 'previousSlugs', report, (slug, path) => {
+    if (typeof slug !== 'string' || !SLUG_PATTERN.test(slug)) report(path, 'must be a slug');
+  });
+  eachItem(entry, 'genres', report, (genre, path) => {
+    if (!isText(genre)) return report(path, 'must be a non-empty string');
+    if (getGenre(genre)) return;
+    const match = findGenre(genre);
+    if (match) report(path, `"${genre}" should be the genre id "${match.id}"`, 'warning');
+    else report(path, `"${genre}" is not a genre in the taxonomy and is ignored`, 'warning');
+  });
+}
+
+/**
+ * Check one entry against the `Movie` shape
+ */
+function checkMovie(entry: Value, report: Report) {
+  checkListing(entry, report);
+  checkPlayback(entry, report);
+  optional(entry, 'subtitleUrl', report, 'a non-empty string', isText);
+  checkKnownFields(entry, MOVIE_KEYS, 'a Movie', report);
+}
+
+/**
+ * Check a whole number from 1, such as a season or episode number
+ */
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Check one episode against the `Episode` shape
+ */
+function checkEpisode(episode: Value, report: Report) {
+  if (!isText(episode.id)) report('id', 'must be a non-empty string');
+  if (!isPositiveInteger(episode.number)) report('number', 'must be a whole number from 1');
+  if (!isText(episode.title)) report('title', 'must be a non-empty string');
+  if (typeof episode.description !== 'string') report('description', 'must be a string');
+  optional(episode, 'thumbnail', report, 'a non-empty string', isText);
+  checkPlayback(episode, report);
+  checkKnownFields(episode, EPISODE_KEYS, 'an Episode', report);
+}
+
+/**
+ * Check one entry against the `Series` shape, down to each episode. Season
+ * numbers, episode ids, and episode numbers within a season must not repeat.
+ */
+function checkSeries(entry: Value, report: Report) {
+  checkListing(entry, report);
+  checkKnownFields(entry, SERIES_KEYS, 'a Series', report);
+
+  if (!Array.isArray(entry.seasons) || entry.seasons.length === 0) {
+    report('seasons', 'must be a non-empty array');
+    return;
+  }
+
+  const seasonNumbers = new Set<unknown>();
+  const episodeIds = new Set<unknown>();
+  entry.seasons.forEach((season: unknown, i: number) => {
+    const path = `seasons[${i}]`;
+    if (!isObject(season)) return report(path, 'must be { number, episodes }');
+    if (!isPositiveInteger(season.number)) report(`${path}.number`, 'must be a whole number from 1');
+    else if (seasonNumbers.has(season.number)) report(`${path}.number`, `${season.number} is used by an earlier season`);
+    seasonNumbers.add(season.number);
+    optional(season, 'title', within(report, path), 'a non-empty string', isText);
+    optional(season, 'year', within(report, path), 'a whole year', Number.isInteger);
+    checkKnownFields(season, SEASON_KEYS, 'a Season', within(report, path));
+
+    if (!Array.isArray(season.episodes) || season.episodes.length === 0) {
+      report(`${path}.episodes`, 'must be a non-empty array');
+      return;
+    }
+    const episodeNumbers = new Set<unknown>();
+    season.episodes.forEach((episode: unknown, j: number) => {
+      const episodePath = `${path}.episodes[${j}]`;
+      if (!isObject(episode)) return report(episodePath, 'must be an object');
+      checkEpisode(episode, within(report, episodePath));
+      if (episodeNumbers.has(episode.number)) report(`${episodePath}.number`, `${episode.number} is used by an earlier episode`);
+      if (episodeIds.has(episode.id)) report(`${episodePath}.id`, `"${episode.id}" is used by an earlier episode`);
+      episodeNumbers.add(episode.number);
+      episodeIds.add(episode.id);
+    });
+  });
+}
+
+/**
+ * Give an entry that passed its checks an id and slug made from its title
+ * when it has none, and genre ids for genres given by name
+ */
+function withIdentity<T extends { id: string; slug: string; genres?: string[] }>(entry: Value): T {
+  const slug = (entry.slug as string | undefined) ?? slugify(entry.title as string);
+  const item = { ...entry, id: (entry.id as string | undefined) ?? slug, slug } as T;
+  if (item.genres) {
+    // Names and aliases become ids; genres outside the taxonomy are dropped
+    const genres = item.genres.map((genre) => findGenre(genre)?.id).filter((id): id is string => !!id);
+    item.genres = Array.from(new Set(genres));
+  }
+  return item;
+}
+
+/**
+ * Check every entry of a parsed catalog with `check`, keeping those that
+ * pass. Ids returned by `idsOf` (the entry's own, and for series its
+ * episodes') and slugs must not repeat across entries, nor match a key of
+ * `taken` (ids used by another catalog, with what uses them).
+ */
+function validateEntries<T extends { id: string; slug: string; genres?: string[] }>(
+  data: unknown,
+  source: CatalogSource,
+  shape: string,
+  check: (entry: Value, report: Report) => void,
+  idsOf: (item: T) => string[],
+  taken = new Map<string, string>()
+): { entries: T[]; report: CatalogReport } {
+  const report: CatalogReport = { source, total: 0, valid: 0, quarantined: [], warnings: [], errors: [] };
+  if (!Array.isArray(data)) {
+    report.errors.push({ severity: 'error', message: `The catalog must be a JSON array of ${shape}` });
+    return { entries: [], report };
+  }
+
+  const entries: T[] = [];
+  const ids = new Set<string>();
+  const slugs = new Set<string>();
+  report.total = data.length;
+
+  data.forEach((value, index) => {
+    const entry = isObject(value) ? value : undefined;
+    const name = entry && (isText(entry.id) ? entry.id : isText(entry.title) ? entry.title : undefined);
+    const errors: CatalogIssue[] = [];
+    const reportIssue: Report = (path, message, severity = 'error') => {
+      const issue: CatalogIssue = { severity, index, entry: name, path, message: `${path} ${message}` };
+      (severity === 'error' ? errors : report.warnings).push(issue);
+    };
+
+    if (!entry) {
+      errors.push({ severity: 'error', index, message: 'Each entry must be an object' });
+    } else {
+      check(entry, reportIssue);
+    }
+
+    if (!entry || errors.length > 0) {
+      report.quarantined.push({ index, value, errors });
+      return;
+    }
+
+    const item = withIdentity<T>(entry);
+    const itemIds = idsOf(item);
+    if (!item.slug) reportIssue('slug', 'is missing and the title has no letters or digits to make one from');
+    itemIds
+      .filter((id) => ids.has(id))
+      .forEach((id) => reportIssue('id', `"${id}" is already used by an earlier entry`));
+    if (slugs.has(item.slug)) reportIssue('slug', `"${item.slug}" is already used by an earlier entry`);
+    itemIds
+      .filter((id) => taken.has(id))
+      .forEach((id) => reportIssue('id', `"${id}" is already used by ${taken.get(id)}`));
+    if (taken.has(item.slug) && !itemIds.includes(item.slug)) {
+      reportIssue('slug', `"${item.slug}" is already used by ${taken.get(item.slug)}`);
+    }
+    if (errors.length > 0) {
+      report.quarantined.push({ index, value, errors });
+      return;
+    }
+
+    itemIds.forEach((id) => ids.add(id));
+    slugs.add(item.slug);
+    entries.push(item);
+  });
+
+  report.valid = entries.length;
+  return { entries, report };
+}
+
+/**
+ * Check a parsed movies catalog, keeping the entries that match the `Movie`
+ * shape. Entries without an id or slug get ones made from the title, and
+ * genres given by name become genre ids; entries that reuse an earlier
+ * entry's id or slug, or the id of an episode in `series`, are quarantined,
+ * since movies and episodes share `/watch/[id]`.
+ *
+ * @example
+ * ```ts
+ * const { movies, report } = validateCatalog(JSON.parse(text), 'local');
+ * report.quarantined; // [{ index: 4, value: {...}, errors: [{ path: 'rating', message: 'rating must be a number from 0 to 10', ... }] }]
+ * ```
+ */
+export function validateCatalog(
+  data: unknown,
+  source: CatalogSource,
+  series: Series[] = []
+): { movies: Movie[]; report: CatalogReport } {
+  const episodeIds = new Map<string, string>();
+  series.forEach(({ title, seasons }) =>
+    seasons.forEach(({ episodes }) => episodes.forEach(({ id }) => episodeIds.set(id, `an episode of ${title}`)))
+  );
+
+  const { entries, report } = validateEntries<Movie>(
+    data,
+    source,
+    'movies',
+    checkMovie,
+    (movie) => [movie.id],
+    episodeIds
+  );
+  return { movies: entries, report };
+}
+
+/**
+ * Check a parsed series catalog the same way, down to every season and
+ * episode. A problem with any episode quarantines the whole series, and
+ * episode ids must be unique across all series.
+ */
+export function validateSeriesCatalog(data: unknown, source: CatalogSource): { series: Series[]; report: CatalogReport } {
+  const { entries, report } = validateEntries<Series>(data, source, 'series', checkSeries, (series) => [
+    series.id,
+    ...series.seasons.flatMap(({ episodes }) => episodes.map(({ id }) => id)),
+  ]);
+  return { series: entries, report };
+}
@@ -0,0 +1,86 @@
+/**
+ * Chapters and Markers
+ * Where to seek for chapter navigation and "skip intro", given a title's
+ * chapter list and intro/recap ranges. Times are in seconds.
+ */
+
+import { Chapter, PlaybackMarkers, TimeRange } from '@/types/movie';
+import { parseVtt } from './subtitleConversion';
+
+/**
+ * Within this many seconds of a chapter's start, "previous chapter" goes to
+ * the chapter before instead of restarting the current one
+ */
+const PREVIOUS_CHAPTER_GRACE_S = 3;
+
+/**
+ * Index of the chapter playing at a position, or -1 before the first one
+ *
+ * @param chapters - Chapters sorted by start
+ */
+export function currentChapterIndex(chapters: Chapter[], time: number): number {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (chapters[i].start <= time) return i;
+  }
+  return -1;
+}
+
+/**
+ * Start of the chapter after the one playing, if there is one
+ */
+export function nextChapterStart(chapters: Chapter[], time: number): number | undefined {
+  return chapters[currentChapterIndex(chapters, time) + 1]?.start;
+}
+
+/**
+ * Start of the current chapter, or of the one before when the current one
+ * has only just started (like a CD player's back button)
+ */
+export function previousChapterStart(chapters: Chapter[], time: number): number | undefined {
+  const index = currentChapterIndex(chapters, time);
+  if (index === -1) return undefined;
+  if (time - chapters[index].start > PREVIOUS_CHAPTER_GRACE_S || index === 0) {
+    return chapters[index].start;
+  }
+  return chapters[index - 1].start;
+}
+
+/**
+ * Start of a chapter by its 1-based number
+ */
+export function chapterStart(chapters: Chapter[], chapter: number): number | undefined {
+  return chapters[chapter - 1]?.start;
+}
+
+/**
+ * The intro or recap playing at a position, for the on-screen skip button
+ */
+export function activeSkippableSegment(
+  markers: PlaybackMarkers | undefined,
+  time: number
+): { kind: 'intro' | 'recap'; range: TimeRange } | undefined {
+  const within = (range?: TimeRange) => range && time >= range.start && time < range.end;
+  if (within(markers?.recap)) return { kind: 'recap', range: markers!.recap! };
+  if (within(markers?.intro)) return { kind: 'intro', range: markers!.intro! };
+  return undefined;
+}
+
+/**
+ * Where "skip intro" should jump: past the recap or intro that is playing,
+ * or past the intro if it is still to come. Undefined once the intro is over.
+ */
+export function skipIntroTarget(markers: PlaybackMarkers, time: number): number | undefined {
+  const segment = activeSkippableSegment(markers, time);
+  if (segment) return segment.range.end;
+  if (markers.intro && time < markers.intro.start) return markers.intro.end;
+  return undefined;
+}
+
+/**
+ * Read a WebVTT chapters file; each cue's text is the chapter title
+ */
+export function parseChapters(vtt: string): Chapter[] {
+  return parseVtt(vtt)
+    .map(({ start, text }) => ({ title: text.replace(/<[^>]*>/g, '').trim(), start: start / 1000 }))
+    .sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,300 @@
+/**
+ * Voice Command Grammar
+ * Turns a recognised transcript into a structured {@link VoiceIntent}.
+ *
+ * Each rule lists phrase templates that must match the whole utterance, so
+ * "pause the display" can never be mistaken for "play". Templates are regular
+ * expression fragments in which `{slot}` placeholders capture typed values.
+ * Rules and vocabulary (number words, time units, fillers) are supplied per
+ * locale by the command packs in `./commandPacks`. The module has no DOM
+ * dependencies and can be exercised outside a browser.
+ */
+
+import { NavigationIntent, VoiceIntent, VoiceIntentType } from '@/types/voice';
+import { ENGLISH_NUMBERS, NumberVocabulary, normalizeSpokenNumbers } from './spokenNumbers';
+
+/**
+ * Values captured by slot placeholders, already converted to their types
+ */
+export interface CommandSlots {
+  /** Length of time in seconds, from `{duration}` */
+  duration?: number;
+  /** Position in seconds, from `{timestamp}` */
+  timestamp?: number;
+  /** Percentage clamped to 0-100, from `{percent}` */
+  percent?: number;
+  /** Plain integer, from `{number}` */
+  number?: number;
+  /** Season number, from `{season}` */
+  season?: number;
+  /** Episode number, from `{episode}`, alongside `{season}` */
+  episode?: number;
+  /** Free text such as a title or search query, from `{text}` */
+  text?: string;
+  /** ISO 639-1 language code, from `{language}` */
+  language?: string;
+}
+
+/**
+ * A single grammar rule mapping phrase templates to an intent
+ */
+export interface CommandRule {
+  /** Phrase templates, matched against the full normalised utterance */
+  phrases: string[];
+  /** Build the intent from captured slots; return null to reject the match */
+  toIntent: (slots: CommandSlots) => VoiceIntent | null;
+}
+
+/**
+ * Language-specific words the grammar needs besides the rules themselves
+ */
+export interface LanguageVocabulary {
+  numbers: NumberVocabulary;
+  /** Spoken time units, used by `{duration}` and `{timestamp}` */
+  timeUnits: { hours: string[]; minutes: string[]; seconds: string[] };
+  /** Words that mark a percentage, used by `{percent}` */
+  percentWords: string[];
+  /** Politeness and attention words stripped from the start of an utterance */
+  fillerPrefixes: string[];
+  /** Politeness words stripped from the end of an utterance */
+  fillerSuffixes: string[];
+  /** Spoken language names mapped to ISO 639-1 codes, used by `{language}` */
+  languageNames: Record<string, string>;
+}
+
+type SlotName = keyof CommandSlots;
+
+/**
+ * Rules compiled against a vocabulary, ready for repeated matching
+ */
+export interface CompiledGrammar {
+  vocabulary: LanguageVocabulary;
+  rules: {
+    regex: RegExp;
+    slots: SlotName[];
+    toIntent: CommandRule['toIntent'];
+  }[];
+}
+
+/**
+ * English vocabulary, also the default for normalisation helpers
+ */
+export const ENGLISH_VOCABULARY: LanguageVocabulary = {
+  numbers: ENGLISH_NUMBERS,
+  timeUnits: {
+    hours: ['hour', 'hours', 'hr', 'hrs'],
+    minutes: ['minute', 'minutes', 'min', 'mins'],
+    seconds: ['second', 'seconds', 'sec', 'secs'],
+  },
+  percentWords: ['percent', 'per cent'],
+  fillerPrefixes: ['please', 'ok', 'okay', 'hey', 'can you', 'could you', 'would you'],
+  fillerSuffixes: ['please', 'now', 'thanks', 'thank you'],
+  languageNames: {
+    english: 'en', spanish: 'es', french: 'fr', german: 'de', italian: 'it',
+    portuguese: 'pt', japanese: 'ja',
+  },
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Non-capturing alternation of words, longest first so "minutes" wins over "min"
+ */
+const alternation = (words: string[]): string =>
+  `(?:${[...words].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`;
+
+const allTimeUnits = ({ timeUnits }: LanguageVocabulary): string[] => [
+  ...timeUnits.hours,
+  ...timeUnits.minutes,
+  ...timeUnits.seconds,
+];
+
+/**
+ * Regular expressions for each slot type in the given language
+ */
+const slotPatterns = (vocabulary: LanguageVocabulary): Record<SlotName, string> => {
+  const unit = alternation(allTimeUnits(vocabulary));
+  const conjunction = alternation(vocabulary.numbers.conjunctions);
+  const amount = `\\d+(?:\\.\\d+)? ?${unit}`;
+  // "1 hour 5" leaves the minutes unnamed
+  const duration = `${amount}(?:(?: ${conjunction})? ${amount})*(?:(?: ${conjunction})? \\d+)?`;
+  const clock = '\\d+(?::\\d{1,2}){1,2}';
+
+  return {
+    duration,
+    timestamp: `(?:${clock}|${duration})`,
+    percent: `\\d+(?: ?(?:${alternation(vocabulary.percentWords)}|%))?`,
+    number: '\\d+',
+    season: '\\d+',
+    episode: '\\d+',
+    text: '.+?',
+    language: alternation(Object.keys(vocabulary.languageNames)),
+  };
+};
+
+/**
+ * Parse a duration such as "1 hour 5 minutes" or "90 seconds" into seconds.
+ * A number without a unit after the last one counts in the next smaller
+ * unit, so "1 hour 5" is 1 hour 5 minutes and "2 minutes 30" is 2 minutes
+ * 30 seconds.
+ */
+export function parseDuration(text: string, vocabulary: LanguageVocabulary = ENGLISH_VOCABULARY): number {
+  const { hours, minutes } = vocabulary.timeUnits;
+  const unitSeconds = (unit: string) => (hours.includes(unit) ? 3600 : minutes.includes(unit) ? 60 : 1);
+  const pattern = new RegExp(`(\\d+(?:\\.\\d+)?)(?: ?(${alternation(allTimeUnits(vocabulary))}))?`, 'gu');
+
+  let lastUnitSeconds = 1;
+  return Array.from(text.matchAll(pattern)).reduce((sum, [, amount, unit]) => {
+    const seconds = unit ? unitSeconds(unit) : Math.max(1, lastUnitSeconds / 60);
+    lastUnitSeconds = seconds;
+    return sum + parseFloat(amount) * seconds;
+  }, 0);
+}
+
+/**
+ * Parse a clock position ("1:05:00", "12:30") or spoken duration into seconds
+ */
+export function parseTimestamp(text: string, vocabulary: LanguageVocabulary = ENGLISH_VOCABULARY): number {
+  if (!text.includes(':')) {
+    return parseDuration(text, vocabulary);
+  }
+  return text
+    .split(':')
+    .map(Number)
+    .reduce((sum, part) => sum * 60 + part, 0);
+}
+
+const slotParsers = (
+  vocabulary: LanguageVocabulary
+): { [K in SlotName]-?: (raw: string) => CommandSlots[K] } => ({
+  duration: (raw) => parseDuration(raw, vocabulary),
+  timestamp: (raw) => parseTimestamp(raw, vocabulary),
+  percent: (raw) => Math.min(100, Math.max(0, parseInt(raw, 10))),
+  number: (raw) => parseInt(raw, 10),
+  season: (raw) => parseInt(raw, 10),
+  episode: (raw) => parseInt(raw, 10),
+  text: (raw) => raw,
+  language: (raw) => vocabulary.languageNames[raw],
+});
+
+const NAVIGATION_INTENT_TYPES = new Set<VoiceIntentType>(['goHome', 'openSection', 'openGenre', 'search', 'playTitle']);
+
+/**
+ * Whether an intent is handled by the navigation layer rather than the player
+ */
+export const isNavigationIntent = (intent: VoiceIntent): intent is NavigationIntent =>
+  NAVIGATION_INTENT_TYPES.has(intent.type);
+
+/**
+ * Lower-case the transcript, strip punctuation and fillers and turn spoken
+ * numbers into digits
+ *
+ * @param transcript - Raw text from the recogniser
+ * @param vocabulary - Language of the transcript (defaults to English)
+ */
+export function normalizeTranscript(
+  transcript: string,
+  vocabulary: LanguageVocabulary = ENGLISH_VOCABULARY
+): string {
+  const cleaned = transcript
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s:%.'-]/gu, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const fillerPrefix = new RegExp(`^(?:${alternation(vocabulary.fillerPrefixes)} )+`, 'u');
+  const fillerSuffix = new RegExp(`(?: ${alternation(vocabulary.fillerSuffixes)})+$`, 'u');
+
+  return normalizeSpokenNumbers(cleaned, vocabulary.numbers)
+    .replace(fillerPrefix, '')
+    .replace(fillerSuffix, '')
+    .trim();
+}
+
+/**
+ * Compile a phrase template into an anchored regular expression
+ */
+const compileTemplate = (
+  template: string,
+  patterns: Record<SlotName, string>
+): { regex: RegExp; slots: SlotName[] } => {
+  const slots: SlotName[] = [];
+  const source = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    if (!(name in patterns)) {
+      throw new Error(`Unknown slot "{${name}}" in command template "${template}"`);
+    }
+    slots.push(name as SlotName);
+    return `(?<${name}>${patterns[name as SlotName]})`;
+  });
+  return { regex: new RegExp(`^${source}$`, 'u'), slots };
+};
+
+/**
+ * Compile a list of rules so they can be matched repeatedly
+ *
+ * @param rules - Grammar rules, in priority order
+ * @param vocabulary - Language the rules are written in (defaults to English)
+ */
+export function compileGrammar(
+  rules: CommandRule[],
+  vocabulary: LanguageVocabulary = ENGLISH_VOCABULARY
+): CompiledGrammar {
+  const patterns = slotPatterns(vocabulary);
+  return {
+    vocabulary,
+    rules: rules.flatMap(({ phrases, toIntent }) =>
+      phrases.map((phrase) => ({ ...compileTemplate(phrase, patterns), toIntent }))
+    ),
+  };
+}
+
+/**
+ * Match a transcript against a compiled grammar
+ *
+ * @param transcript - Raw text from the recogniser
+ * @param grammar - Compiled grammar of the transcript's language
+ * @returns The matched intent, or null when nothing in the grammar matches
+ */
+export function matchGrammar(transcript: string, grammar: CompiledGrammar): VoiceIntent | null {
+  const utterance = normalizeTranscript(transcript, grammar.vocabulary);
+  if (!utterance) return null;
+
+  const parsers = slotParsers(grammar.vocabulary);
+
+  for (const { regex, slots, toIntent } of grammar.rules) {
+    const match = utterance.match(regex);
+    if (!match) continue;
+
+    const values: Record<string, number | string | undefined> = {};
+    slots.forEach((slot) => {
+      const raw = match.groups?.[slot];
+      if (raw !== undefined) {
+        values[slot] = parsers[slot](raw.trim());
+      }
+    });
+
+    const intent = toIntent(values as CommandSlots);
+    if (intent) return intent;
+  }
+
+  return null;
+}
+
+/**
+ * Everything needed to understand voice commands in one language
+ */
+export interface CommandPack {
+  /** BCP 47 locale the pack was written for, e.g. 'es-ES' */
+  locale: string;
+  /** Language name in that language, for pickers */
+  label: string;
+  rules: CommandRule[];
+  vocabulary: LanguageVocabulary;
+  /** Example phrases for player commands, shown on the watch page */
+  playerExamples: string[];
+  /** Example phrases for navigation commands */
+  navigationExamples: string[];
+  /** Answers to a "Did you mean ...?" prompt */
+  confirmations: { accept: string[]; reject: string[] };
+}
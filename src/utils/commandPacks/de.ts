@@ -0,0 +1,345 @@
+import { CommandPack, CommandRule, LanguageVocabulary } from '../commandGrammar';
+import { findHomeSection } from '../homeSections';
+import { findGenre } from '../genres';
+
+const NUMBER_WORDS: Record<string, number> = {
+  null: 0, eins: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, fuenf: 5, sechs: 6,
+  sieben: 7, acht: 8, neun: 9, zehn: 10, elf: 11, zwölf: 12, zwoelf: 12,
+  dreizehn: 13, vierzehn: 14, fünfzehn: 15, fuenfzehn: 15, sechzehn: 16,
+  siebzehn: 17, achtzehn: 18, neunzehn: 19, zwanzig: 20, dreißig: 30,
+  dreissig: 30, vierzig: 40, fünfzig: 50, fuenfzig: 50, sechzig: 60,
+  siebzig: 70, achtzig: 80, neunzig: 90,
+};
+
+const COMPOUND = /^(ein|zwei|drei|vier|fünf|fuenf|sechs|sieben|acht|neun)und(zwanzig|dreißig|dreissig|vierzig|fünfzig|fuenfzig|sechzig|siebzig|achtzig|neunzig)$/;
+const SCALE = /^(.*?)(hundert|tausend)(.*)$/;
+
+/**
+ * Split a German number compound into separate words, e.g.
+ * "zweihundertfünfundzwanzig" → "zwei hundert fünf und zwanzig".
+ * Returns null when the word is not a number, so "Jahrhundert" stays intact.
+ */
+const splitNumberWord = (word: string): string | null => {
+  if (word === '' || word in NUMBER_WORDS) return word;
+  if (word === 'ein') return 'eins';
+
+  const compound = word.match(COMPOUND);
+  if (compound) {
+    return `${compound[1] === 'ein' ? 'eins' : compound[1]} und ${compound[2]}`;
+  }
+
+  const scale = word.match(SCALE);
+  if (scale) {
+    const before = splitNumberWord(scale[1]);
+    const after = splitNumberWord(scale[3]);
+    if (before !== null && after !== null) {
+      return [before, scale[2], after].filter(Boolean).join(' ');
+    }
+  }
+  return null;
+};
+
+const vocabulary: LanguageVocabulary = {
+  numbers: {
+    words: NUMBER_WORDS,
+    scales: {
+      hundert: 100,
+      tausend: 1000,
+    },
+    conjunctions: ['und'],
+    indefiniteArticles: ['ein', 'eine', 'einen', 'einer'],
+    unitNouns: ['stunde', 'stunden', 'std', 'minute', 'minuten', 'min', 'sekunde', 'sekunden', 'sek'],
+    preprocess: (text) =>
+      text
+        .split(' ')
+        .map((word) => (/(?:und|hundert|tausend)/.test(word) ? splitNumberWord(word) ?? word : word))
+        .join(' '),
+  },
+  timeUnits: {
+    hours: ['stunde', 'stunden', 'std'],
+    minutes: ['minute', 'minuten', 'min'],
+    seconds: ['sekunde', 'sekunden', 'sek'],
+  },
+  percentWords: ['prozent'],
+  fillerPrefixes: ['bitte', 'hey', 'ok', 'okay', 'kannst du', 'könntest du', 'koenntest du'],
+  fillerSuffixes: ['bitte', 'jetzt', 'danke'],
+  languageNames: {
+    deutsch: 'de', englisch: 'en', spanisch: 'es', französisch: 'fr', franzoesisch: 'fr',
+    italienisch: 'it', portugiesisch: 'pt', japanisch: 'ja',
+  },
+};
+
+/** German genre names, by genre id */
+const GENRE_ALIASES: Record<string, string[]> = {
+  action: ['action', 'actionfilm', 'actionfilme'],
+  adventure: ['abenteuer', 'abenteuerfilm', 'abenteuerfilme'],
+  animation: ['animation', 'animationsfilme', 'zeichentrick', 'zeichentrickfilme', 'trickfilme'],
+  comedy: ['komödie', 'komödien', 'komoedie', 'komoedien', 'lustige filme', 'was lustiges'],
+  crime: ['krimi', 'krimis', 'kriminalfilme'],
+  documentary: ['doku', 'dokus', 'dokumentation', 'dokumentationen', 'dokumentarfilme'],
+  drama: ['drama', 'dramen'],
+  family: ['familie', 'familienfilme', 'kinderfilme', 'für kinder', 'fuer kinder'],
+  fantasy: ['fantasy', 'fantasyfilme'],
+  horror: ['horror', 'horrorfilme', 'gruselfilme', 'grusel', 'was gruseliges'],
+  romance: ['romantik', 'liebesfilme', 'romanzen', 'romantische filme'],
+  'science-fiction': ['science fiction', 'sciencefiction', 'sci fi'],
+  thriller: ['thriller', 'spannung'],
+};
+
+/** German names of the home page rows, by section id */
+const SECTION_ALIASES: Record<string, string[]> = {
+  trending: ['trends', 'im trend', 'beliebt', 'beliebte filme', 'angesagt'],
+  'new-releases': ['neuerscheinungen', 'neuheiten', 'neue filme', 'neues', 'neu erschienen'],
+  'popular-shows': ['serien', 'beliebte serien', 'sendungen', 'shows'],
+};
+
+/**
+ * German grammar. Order matters: the first rule that matches wins.
+ * Separable verbs put the particle last ("spring 30 Sekunden vor").
+ */
+const rules: CommandRule[] = [
+  {
+    phrases: [
+      '(?:(?:den )?(?:film|video) )?(?:abspielen|fortsetzen|weiterspielen|starten)',
+      '(?:spiel|spiele|starte)(?: (?:den )?(?:film|video))?(?: ab| weiter)?',
+      '(?:weiter|wiedergabe|play)',
+    ],
+    toIntent: () => ({ type: 'play' }),
+  },
+  {
+    phrases: [
+      '(?:pause|stopp|stop)',
+      '(?:(?:den )?(?:film|video) )?(?:pausieren|anhalten|stoppen)',
+      '(?:halt|halte|pausiere|stoppe) (?:den )?(?:film|video)(?: an)?',
+    ],
+    toIntent: () => ({ type: 'pause' }),
+  },
+  {
+    phrases: [
+      '(?:das )?(?:intro|vorspann) (?:überspringen|ueberspringen)',
+      '(?:überspringe|ueberspringe|überspring|ueberspring) (?:das |den )?(?:intro|vorspann)',
+    ],
+    toIntent: () => ({ type: 'skipIntro' }),
+  },
+  {
+    phrases: [
+      '(?:spul|spule|spring|springe|geh|gehe) {duration} (?:nach )?vor(?:wärts|waerts)?',
+      '{duration} vor(?:spulen|springen)?',
+    ],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: duration } : null),
+  },
+  {
+    phrases: [
+      '(?:spul|spule|spring|springe|geh|gehe) {duration} (?:zurück|zurueck)',
+      '{duration} (?:zurück|zurueck)(?:spulen|springen|gehen)?',
+    ],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: -duration } : null),
+  },
+  {
+    phrases: [
+      '(?:spring|springe|geh|gehe) (?:zu|auf) {timestamp}',
+      '(?:ab|von) {timestamp} (?:abspielen|starten)',
+    ],
+    toIntent: ({ timestamp }) => (timestamp !== undefined ? { type: 'seekTo', seconds: timestamp } : null),
+  },
+  {
+    phrases: ['(?:setze |setz |stelle |stell )?(?:die )?(?:lautstärke|lautstaerke)(?: (?:auf|bei))? {percent}'],
+    toIntent: ({ percent }) => (percent !== undefined ? { type: 'setVolume', percent } : null),
+  },
+  {
+    phrases: ['(?:(?:mach|mache) (?:es |den ton )?)?lauter', '(?:die )?(?:lautstärke|lautstaerke) (?:hoch|erhöhen|erhoehen)'],
+    toIntent: () => ({ type: 'adjustVolume', percent: 10 }),
+  },
+  {
+    phrases: ['(?:(?:mach|mache) (?:es |den ton )?)?leiser', '(?:die )?(?:lautstärke|lautstaerke) (?:runter|verringern)'],
+    toIntent: () => ({ type: 'adjustVolume', percent: -10 }),
+  },
+  {
+    phrases: ['stumm(?: ?schalten)?', '(?:(?:schalte|schalt) )?(?:den )?ton aus'],
+    toIntent: () => ({ type: 'setMuted', muted: true }),
+  },
+  {
+    phrases: ['(?:(?:schalte|schalt) )?(?:den )?ton (?:wieder )?an', 'stummschaltung aufheben'],
+    toIntent: () => ({ type: 'setMuted', muted: false }),
+  },
+  {
+    phrases: ['(?:spiel |spiele )?schneller'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: 1 }),
+  },
+  {
+    phrases: ['(?:spiel |spiele )?langsamer'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: -1 }),
+  },
+  {
+    phrases: ['(?:normale geschwindigkeit|normales tempo)'],
+    toIntent: () => ({ type: 'setPlaybackRate', rate: 1 }),
+  },
+  {
+    phrases: ['(?:den )?vollbild(?: ?modus)? (?:aus|beenden|verlassen)'],
+    toIntent: () => ({ type: 'setFullscreen', enabled: false }),
+  },
+  {
+    phrases: ['(?:(?:in den|zum) )?vollbild(?: ?modus)?(?: an| ein)?'],
+    toIntent: () => ({ type: 'setFullscreen', enabled: true }),
+  },
+  {
+    phrases: ['bild[ -]?im[ -]?bild(?: ?modus)? (?:aus|beenden|verlassen)'],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: false }),
+  },
+  {
+    phrases: ['bild[ -]?im[ -]?bild(?: ?modus)?(?: an| ein)?'],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: true }),
+  },
+  {
+    phrases: [
+      '(?:(?:spiel|spiele|starte|zeig|zeige) )?(?:die |den )?(?:nächste|naechste|nächsten|naechsten) (?:folge|episode)',
+      'weiter zur (?:nächsten|naechsten) (?:folge|episode)',
+    ],
+    toIntent: () => ({ type: 'nextEpisode' }),
+  },
+  {
+    phrases: [
+      '(?:(?:spiel|spiele|starte|zeig|zeige) )?staffel {season} (?:folge|episode) {episode}',
+      '(?:(?:spiel|spiele|starte|zeig|zeige) )?(?:folge|episode) {episode} (?:von |aus )?(?:der )?staffel {season}',
+    ],
+    toIntent: ({ season, episode }) =>
+      season !== undefined && episode !== undefined ? { type: 'playEpisode', season, episode } : null,
+  },
+  {
+    phrases: [
+      '(?:spiel|spiele|starte|zeig|zeige) (?:den |das )?(?:nächsten|naechsten|nächste|naechste)(?: (?:film|titel|video))?',
+      '(?:der |das )?(?:nächster|naechster|nächste|naechste|nächstes|naechstes) (?:film|titel|video)',
+      'weiter zum (?:nächsten|naechsten)(?: (?:film|titel|video))?',
+    ],
+    toIntent: () => ({ type: 'playNext' }),
+  },
+  {
+    phrases: [
+      '(?:(?:autoplay|countdown|automatische wiedergabe) )?abbrechen',
+      '(?:autoplay|countdown|automatische wiedergabe) stoppen',
+      '(?:den |das )?(?:nächsten|naechsten|nächste|naechste) (?:film |titel |video )?nicht (?:abspielen|starten)',
+      '(?:hier bleiben|bleib hier)',
+    ],
+    toIntent: () => ({ type: 'cancelUpNext' }),
+  },
+  {
+    phrases: [
+      '(?:(?:spring|springe|geh|gehe) zum )?(?:nächsten|naechsten) kapitel',
+      '(?:nächstes|naechstes) kapitel',
+    ],
+    toIntent: () => ({ type: 'nextChapter' }),
+  },
+  {
+    phrases: [
+      '(?:(?:spring|springe|geh|gehe) zum )?(?:vorherigen|vorigen|letzten) kapitel',
+      '(?:vorheriges|voriges|letztes) kapitel',
+    ],
+    toIntent: () => ({ type: 'previousChapter' }),
+  },
+  {
+    phrases: ['(?:(?:spring|springe|geh|gehe) (?:zu|zum) )?kapitel {number}'],
+    toIntent: ({ number }) => (number ? { type: 'goToChapter', chapter: number } : null),
+  },
+  {
+    phrases: ['(?:mach |mache )?(?:das )?(?:rückgängig|rueckgaengig)(?: machen)?', '(?:zurück|zurueck)'],
+    toIntent: () => ({ type: 'undo' }),
+  },
+  {
+    phrases: [
+      '(?:die )?untertitel (?:auf|in) {language}(?: (?:an|ein|einschalten|anzeigen))?',
+      '{language}e untertitel(?: (?:an|ein|einschalten|anzeigen))?',
+    ],
+    toIntent: ({ language }) => (language ? { type: 'setSubtitles', enabled: true, language } : null),
+  },
+  {
+    phrases: [
+      '(?:die )?untertitel (?:an|ein|einschalten|anschalten|anzeigen|aktivieren)',
+      '(?:zeig|zeige|aktiviere) (?:die )?untertitel(?: an)?',
+      '(?:schalt|schalte) (?:die )?untertitel (?:an|ein)',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: true }),
+  },
+  {
+    phrases: [
+      '(?:die )?untertitel (?:aus|ausschalten|ausblenden|deaktivieren)',
+      '(?:versteck|verstecke|deaktiviere) (?:die )?untertitel',
+      '(?:schalt|schalte|blend|blende) (?:die )?untertitel aus',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: false }),
+  },
+  {
+    phrases: [
+      '(?:(?:zurück |zurueck )?zur )?startseite',
+      '(?:geh|gehe) (?:zurück |zurueck )?(?:zur|auf die) startseite',
+      'nach hause',
+    ],
+    toIntent: () => ({ type: 'goHome' }),
+  },
+  {
+    phrases: ['(?:öffne|oeffne|zeig|zeige|geh zu|gehe zu)(?: mir)? (?:die |den |das )?{text}'],
+    toIntent: ({ text }) => {
+      const section = text ? findHomeSection(text, SECTION_ALIASES) : undefined;
+      return section ? { type: 'openSection', section: section.id } : null;
+    },
+  },
+  {
+    phrases: [
+      '(?:zeig|zeige|öffne|oeffne|ich will|ich möchte|ich moechte)(?: mir)? (?:ein paar |einige |eine |einen |ein |die |den |das )?{text}(?: sehen)?',
+    ],
+    toIntent: ({ text }) => {
+      const genre = text ? findGenre(text, GENRE_ALIASES) : undefined;
+      return genre ? { type: 'openGenre', genre: genre.id } : null;
+    },
+  },
+  {
+    phrases: ['(?:such|suche|find|finde) (?:nach )?{text}', '{text} suchen'],
+    toIntent: ({ text }) => (text ? { type: 'search', query: text } : null),
+  },
+  {
+    phrases: ['(?:spiel|spiele|starte|zeig|zeige) (?:den film )?{text}(?: ab)?', '{text} abspielen'],
+    toIntent: ({ text }) => (text ? { type: 'playTitle', title: text } : null),
+  },
+];
+
+export const de: CommandPack = {
+  locale: 'de-DE',
+  label: 'Deutsch',
+  rules,
+  vocabulary,
+  playerExamples: [
+    'Film abspielen',
+    'Film pausieren',
+    'Intro überspringen',
+    'Untertitel an',
+    'Untertitel auf Englisch',
+    'Untertitel aus',
+    'Spring 30 Sekunden vor',
+    'Spul zwei Minuten zurück',
+    'Geh zu 1 Stunde 5 Minuten',
+    'Lautstärke 40 Prozent',
+    'Lauter',
+    'Ton aus',
+    'Schneller',
+    'Normale Geschwindigkeit',
+    'Vollbild',
+    'Bild im Bild',
+    'Nächstes Kapitel',
+    'Spring zu Kapitel 3',
+    'Nächster Film',
+    'Nächste Folge',
+    'Staffel 2 Folge 3',
+    'Abbrechen',
+    'Mach das rückgängig',
+  ],
+  navigationExamples: [
+    'Zur Startseite',
+    'Öffne Neuerscheinungen',
+    'Zeig mir Komödien',
+    'Suche nach Avengers',
+    'Spiele Captain America',
+  ],
+  confirmations: {
+    accept: ['ja', 'genau', 'richtig', 'mach das', 'bestätigen', 'bestaetigen', 'ok', 'okay'],
+    reject: ['nein', 'abbrechen', 'vergiss es', 'falsch'],
+  },
+};
@@ -0,0 +1,274 @@
+import { CommandPack, CommandRule, ENGLISH_VOCABULARY } from '../commandGrammar';
+import { findHomeSection } from '../homeSections';
+import { findGenre } from '../genres';
+
+/**
+ * English grammar. Order matters: the first rule that matches wins.
+ */
+const rules: CommandRule[] = [
+  {
+    phrases: ['(?:play|resume|continue)(?: (?:the )?(?:movie|video|film))?'],
+    toIntent: () => ({ type: 'play' }),
+  },
+  {
+    phrases: ['(?:pause|stop)(?: (?:the )?(?:movie|video|film))?'],
+    toIntent: () => ({ type: 'pause' }),
+  },
+  {
+    phrases: ['skip (?:the )?intro'],
+    toIntent: () => ({ type: 'skipIntro' }),
+  },
+  {
+    phrases: [
+      '(?:skip|jump|go|fast forward|move)(?: (?:forward|ahead))? (?:by )?{duration}',
+      'forward {duration}',
+    ],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: duration } : null),
+  },
+  {
+    phrases: [
+      '(?:go|skip|jump|move|rewind) back(?:wards?)? (?:by )?{duration}',
+      'rewind (?:by )?{duration}',
+      'back {duration}',
+    ],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: -duration } : null),
+  },
+  {
+    phrases: [
+      '(?:jump|go|skip|seek) to {timestamp}',
+      '(?:start|play) from {timestamp}',
+    ],
+    toIntent: ({ timestamp }) => (timestamp !== undefined ? { type: 'seekTo', seconds: timestamp } : null),
+  },
+  {
+    phrases: [
+      '(?:(?:go|skip|jump) (?:to |ahead to )?)?(?:the )?next chapter',
+      'skip (?:this |the )?chapter',
+    ],
+    toIntent: () => ({ type: 'nextChapter' }),
+  },
+  {
+    phrases: [
+      '(?:(?:go|skip|jump) (?:back )?(?:to )?)?(?:the )?(?:previous|last) chapter',
+      'go back a chapter',
+    ],
+    toIntent: () => ({ type: 'previousChapter' }),
+  },
+  {
+    phrases: ['(?:(?:go|jump|skip|seek) to |play |start )?chapter (?:number )?{number}'],
+    toIntent: ({ number }) => (number ? { type: 'goToChapter', chapter: number } : null),
+  },
+  {
+    phrases: ['(?:set )?(?:the )?volume(?: (?:to|at))? {percent}'],
+    toIntent: ({ percent }) => (percent !== undefined ? { type: 'setVolume', percent } : null),
+  },
+  {
+    phrases: [
+      '(?:make it |a (?:bit|little) )?louder',
+      '(?:turn|crank) (?:it|the volume|the sound) up',
+      '(?:turn )?(?:the )?volume up',
+      '(?:increase|raise) (?:the )?volume',
+    ],
+    toIntent: () => ({ type: 'adjustVolume', percent: 10 }),
+  },
+  {
+    phrases: [
+      '(?:make it |a (?:bit|little) )?(?:quieter|softer)',
+      'turn (?:it|the volume|the sound) down',
+      '(?:turn )?(?:the )?volume down',
+      '(?:decrease|lower|reduce) (?:the )?volume',
+    ],
+    toIntent: () => ({ type: 'adjustVolume', percent: -10 }),
+  },
+  {
+    phrases: [
+      '(?:mute|silence)(?: (?:it|the (?:sound|audio|movie|video)))?',
+      '(?:turn |switch )?(?:the )?(?:sound|audio) off',
+    ],
+    toIntent: () => ({ type: 'setMuted', muted: true }),
+  },
+  {
+    phrases: [
+      'unmute(?: (?:it|the (?:sound|audio|movie|video)))?',
+      '(?:turn |switch )?(?:the )?(?:sound|audio) (?:back )?on',
+    ],
+    toIntent: () => ({ type: 'setMuted', muted: false }),
+  },
+  {
+    phrases: ['(?:go |play )?faster', 'speed (?:it )?up'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: 1 }),
+  },
+  {
+    phrases: ['(?:go |play )?slower', 'slow (?:it )?down'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: -1 }),
+  },
+  {
+    phrases: [
+      '(?:(?:go |play )?(?:back )?(?:at |to )?)?(?:normal|regular) speed',
+      'reset (?:the )?speed',
+    ],
+    toIntent: () => ({ type: 'setPlaybackRate', rate: 1 }),
+  },
+  {
+    phrases: ['(?:play (?:at )?)?double speed'],
+    toIntent: () => ({ type: 'setPlaybackRate', rate: 2 }),
+  },
+  {
+    phrases: ['(?:play (?:at )?)?half speed'],
+    toIntent: () => ({ type: 'setPlaybackRate', rate: 0.5 }),
+  },
+  {
+    phrases: [
+      '(?:exit|leave|close|quit|turn off|stop) (?:the )?full ?screen(?: mode)?',
+      'full ?screen off',
+    ],
+    toIntent: () => ({ type: 'setFullscreen', enabled: false }),
+  },
+  {
+    phrases: ['(?:go |switch to |enter |make it |turn on )?full ?screen(?: mode)?'],
+    toIntent: () => ({ type: 'setFullscreen', enabled: true }),
+  },
+  {
+    phrases: [
+      '(?:exit|leave|close|quit|turn off|stop) (?:the )?(?:picture[ -]in[ -]picture|pip|mini ?player)(?: mode)?',
+      '(?:picture[ -]in[ -]picture|pip) off',
+    ],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: false }),
+  },
+  {
+    phrases: ['(?:go |switch to |enter |open |start |turn on )?(?:picture[ -]in[ -]picture|pip|mini ?player)(?: mode)?'],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: true }),
+  },
+  {
+    phrases: ['(?:(?:play|watch|start|go to|skip to) )?(?:the )?next episode'],
+    toIntent: () => ({ type: 'nextEpisode' }),
+  },
+  {
+    phrases: [
+      '(?:(?:play|watch|start|go to|skip to) )?season {season} episode {episode}',
+      '(?:(?:play|watch|start|go to|skip to) )?episode {episode} of season {season}',
+    ],
+    toIntent: ({ season, episode }) =>
+      season !== undefined && episode !== undefined ? { type: 'playEpisode', season, episode } : null,
+  },
+  {
+    phrases: [
+      '(?:play|watch|start|go to|skip to) (?:the )?next(?: (?:one|1|movie|video|film|title))?',
+      '(?:the )?next (?:movie|video|film|title)',
+      'up next',
+    ],
+    toIntent: () => ({ type: 'playNext' }),
+  },
+  {
+    phrases: [
+      'cancel(?: (?:that|it|autoplay|auto play|up next|the countdown))?',
+      "(?:don't|do not) play (?:the )?next(?: (?:one|1|movie|video|film|title))?",
+      'stop (?:the )?(?:countdown|autoplay|auto play)',
+      'stay (?:here|on this one)',
+    ],
+    toIntent: () => ({ type: 'cancelUpNext' }),
+  },
+  {
+    phrases: ['undo(?: (?:that|it|the last (?:one|command)))?', 'go back', 'take (?:that|it) back'],
+    toIntent: () => ({ type: 'undo' }),
+  },
+  {
+    phrases: [
+      '(?:(?:turn on|show|switch to|use) )?(?:the )?(?:subtitles|captions) in {language}',
+      '(?:(?:turn on|show|switch to|use) )?(?:the )?{language} (?:subtitles|captions)',
+      '(?:switch|change|set) (?:the )?(?:subtitles|captions) to {language}',
+    ],
+    toIntent: ({ language }) => (language ? { type: 'setSubtitles', enabled: true, language } : null),
+  },
+  {
+    phrases: [
+      '(?:turn |switch )?(?:the )?(?:subtitles|captions) on',
+      '(?:turn |switch )on (?:the )?(?:subtitles|captions)',
+      '(?:show|enable) (?:the )?(?:subtitles|captions)',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: true }),
+  },
+  {
+    phrases: [
+      '(?:turn |switch )?(?:the )?(?:subtitles|captions) off',
+      '(?:turn |switch )off (?:the )?(?:subtitles|captions)',
+      '(?:hide|disable) (?:the )?(?:subtitles|captions)',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: false }),
+  },
+  {
+    phrases: [
+      '(?:go |take me |navigate )?(?:back )?home',
+      '(?:go|take me|navigate) (?:back )?to (?:the )?home(?: ?page| screen)?',
+      '(?:open |show )?(?:the )?home ?page',
+    ],
+    toIntent: () => ({ type: 'goHome' }),
+  },
+  {
+    phrases: ['(?:open|show(?: me)?|go to|take me to) (?:the )?{text}(?: (?:section|row|list))?'],
+    toIntent: ({ text }) => {
+      const section = text ? findHomeSection(text) : undefined;
+      return section ? { type: 'openSection', section: section.id } : null;
+    },
+  },
+  {
+    phrases: [
+      '(?:show(?: me)?|open|browse|go to|take me to|find(?: me)?|i want to watch|i feel like) (?:some |a |an |the )?{text}',
+    ],
+    toIntent: ({ text }) => {
+      const genre = text ? findGenre(text) : undefined;
+      return genre ? { type: 'openGenre', genre: genre.id } : null;
+    },
+  },
+  {
+    phrases: ['(?:search|look) (?:for )?{text}', 'find {text}'],
+    toIntent: ({ text }) => (text ? { type: 'search', query: text } : null),
+  },
+  {
+    phrases: ['(?:play|watch|start|put on) (?:the (?:movie|film) )?{text}'],
+    toIntent: ({ text }) => (text ? { type: 'playTitle', title: text } : null),
+  },
+];
+
+export const en: CommandPack = {
+  locale: 'en-US',
+  label: 'English',
+  rules,
+  vocabulary: ENGLISH_VOCABULARY,
+  playerExamples: [
+    'Play movie',
+    'Pause movie',
+    'Skip intro',
+    'Turn on subtitles',
+    'Turn off subtitles',
+    'Subtitles in Spanish',
+    'Skip forward 30 seconds',
+    'Go back two minutes',
+    'Jump to 1 hour 5 minutes',
+    'Volume 40 percent',
+    'Louder',
+    'Mute',
+    'Faster',
+    'Normal speed',
+    'Full screen',
+    'Picture in picture',
+    'Next chapter',
+    'Go to chapter 3',
+    'Play next',
+    'Next episode',
+    'Play season 2 episode 3',
+    'Cancel',
+    'Undo that',
+  ],
+  navigationExamples: [
+    'Go home',
+    'Open new releases',
+    'Show me comedies',
+    'Search for Avengers',
+    'Play Captain America',
+  ],
+  confirmations: {
+    accept: ['yes', 'yeah', 'yep', 'correct', 'do it', 'confirm', 'ok', 'okay', 'sure'],
+    reject: ['no', 'nope', 'cancel', 'never mind', 'wrong'],
+  },
+};
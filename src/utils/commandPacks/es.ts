@@ -0,0 +1,290 @@
+import { CommandPack, CommandRule, LanguageVocabulary } from '../commandGrammar';
+import { findHomeSection } from '../homeSections';
+import { findGenre } from '../genres';
+
+const vocabulary: LanguageVocabulary = {
+  numbers: {
+    words: {
+      cero: 0, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7,
+      ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12, trece: 13, catorce: 14,
+      quince: 15, dieciséis: 16, dieciseis: 16, diecisiete: 17, dieciocho: 18,
+      diecinueve: 19, veinte: 20, veintiuno: 21, veintiún: 21, veintiun: 21,
+      veintidós: 22, veintidos: 22, veintitrés: 23, veintitres: 23,
+      veinticuatro: 24, veinticinco: 25, veintiséis: 26, veintiseis: 26,
+      veintisiete: 27, veintiocho: 28, veintinueve: 29, treinta: 30,
+      cuarenta: 40, cincuenta: 50, sesenta: 60, setenta: 70, ochenta: 80,
+      noventa: 90, cien: 100, ciento: 100, doscientos: 200, trescientos: 300,
+      cuatrocientos: 400, quinientos: 500,
+    },
+    scales: {
+      mil: 1000,
+    },
+    conjunctions: ['y'],
+    indefiniteArticles: ['un', 'una'],
+    unitNouns: ['hora', 'horas', 'minuto', 'minutos', 'min', 'segundo', 'segundos', 'seg'],
+    // Keep "ciento" in "por ciento" from being read as 100
+    preprocess: (text) => text.replace(/por ciento/g, 'porciento'),
+  },
+  timeUnits: {
+    hours: ['hora', 'horas', 'h'],
+    minutes: ['minuto', 'minutos', 'min'],
+    seconds: ['segundo', 'segundos', 'seg'],
+  },
+  percentWords: ['porciento'],
+  fillerPrefixes: ['por favor', 'oye', 'vale', 'puedes', 'podrías', 'podrias'],
+  fillerSuffixes: ['por favor', 'ahora', 'gracias'],
+  languageNames: {
+    español: 'es', espanol: 'es', castellano: 'es', inglés: 'en', ingles: 'en',
+    francés: 'fr', frances: 'fr', alemán: 'de', aleman: 'de', italiano: 'it',
+    portugués: 'pt', portugues: 'pt', japonés: 'ja', japones: 'ja',
+  },
+};
+
+/** Spanish genre names, by genre id */
+const GENRE_ALIASES: Record<string, string[]> = {
+  action: ['acción', 'accion'],
+  adventure: ['aventura', 'aventuras'],
+  animation: ['animación', 'animacion', 'animadas', 'dibujos animados', 'dibujos'],
+  comedy: ['comedia', 'comedias', 'algo divertido'],
+  crime: ['crimen', 'policiacas', 'policíacas', 'gánsteres', 'gansteres'],
+  documentary: ['documental', 'documentales'],
+  drama: ['drama', 'dramas'],
+  family: ['familia', 'familiares', 'infantiles', 'para niños', 'para ninos'],
+  fantasy: ['fantasía', 'fantasia'],
+  horror: ['terror', 'miedo', 'algo de miedo'],
+  romance: ['romance', 'románticas', 'romanticas', 'amor'],
+  'science-fiction': ['ciencia ficción', 'ciencia ficcion'],
+  thriller: ['suspense', 'suspenso', 'intriga'],
+};
+
+/** Spanish names of the home page rows, by section id */
+const SECTION_ALIASES: Record<string, string[]> = {
+  trending: ['tendencias', 'tendencia', 'populares', 'lo más popular', 'lo mas popular'],
+  'new-releases': ['novedades', 'estrenos', 'nuevos estrenos', 'últimos estrenos', 'ultimos estrenos', 'lo nuevo'],
+  'popular-shows': ['series', 'series populares', 'programas', 'programas populares'],
+};
+
+/**
+ * Spanish grammar. Order matters: the first rule that matches wins.
+ */
+const rules: CommandRule[] = [
+  {
+    phrases: ['(?:reproduce|reproducir|continúa|continua|continuar|reanuda|reanudar|play)(?: (?:la )?(?:película|pelicula|vídeo|video))?'],
+    toIntent: () => ({ type: 'play' }),
+  },
+  {
+    phrases: ['(?:pausa|pausar|pon en pausa|para|parar|detén|deten|detener)(?: (?:la )?(?:película|pelicula|vídeo|video))?'],
+    toIntent: () => ({ type: 'pause' }),
+  },
+  {
+    phrases: ['(?:salta|saltar|sáltate|saltate|omite|omitir) (?:la )?(?:intro|introducción|introduccion)'],
+    toIntent: () => ({ type: 'skipIntro' }),
+  },
+  {
+    phrases: ['(?:adelanta|adelantar|avanza|avanzar|salta|saltar)(?: (?:hacia )?adelante)? {duration}'],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: duration } : null),
+  },
+  {
+    phrases: [
+      '(?:retrocede|retroceder|rebobina|rebobinar)(?: (?:hacia )?(?:atrás|atras))? {duration}',
+      '(?:vuelve|volver|ve|ir) (?:hacia )?(?:atrás|atras) {duration}',
+      '(?:atrás|atras) {duration}',
+    ],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: -duration } : null),
+  },
+  {
+    phrases: [
+      '(?:ve|vete|ir|salta|saltar) (?:a|al) {timestamp}',
+      '(?:empieza|empezar|reproduce|reproducir) desde {timestamp}',
+    ],
+    toIntent: ({ timestamp }) => (timestamp !== undefined ? { type: 'seekTo', seconds: timestamp } : null),
+  },
+  {
+    phrases: ['(?:pon |poner |sube |baja )?(?:el )?volumen(?: (?:a|al|en))? {percent}'],
+    toIntent: ({ percent }) => (percent !== undefined ? { type: 'setVolume', percent } : null),
+  },
+  {
+    phrases: ['(?:sube|subir)(?: el)? (?:volumen|sonido)', 'm[aá]s (?:alto|fuerte)'],
+    toIntent: () => ({ type: 'adjustVolume', percent: 10 }),
+  },
+  {
+    phrases: ['(?:baja|bajar)(?: el)? (?:volumen|sonido)', 'm[aá]s bajo'],
+    toIntent: () => ({ type: 'adjustVolume', percent: -10 }),
+  },
+  {
+    phrases: ['(?:silencia|silenciar|silencio)', '(?:quita|quitar) el sonido'],
+    toIntent: () => ({ type: 'setMuted', muted: true }),
+  },
+  {
+    phrases: ['(?:activa|activar|pon|poner) el sonido', '(?:quita|quitar) el silencio'],
+    toIntent: () => ({ type: 'setMuted', muted: false }),
+  },
+  {
+    phrases: ['m[aá]s r[aá]pido', '(?:acelera|acelerar)'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: 1 }),
+  },
+  {
+    phrases: ['m[aá]s lento', '(?:ralentiza|ralentizar)'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: -1 }),
+  },
+  {
+    phrases: ['(?:(?:pon|poner|vuelve|volver) (?:a )?(?:la )?)?velocidad normal'],
+    toIntent: () => ({ type: 'setPlaybackRate', rate: 1 }),
+  },
+  {
+    phrases: ['(?:sal|salir|quita|quitar|desactiva|desactivar) (?:de )?(?:la )?pantalla completa'],
+    toIntent: () => ({ type: 'setFullscreen', enabled: false }),
+  },
+  {
+    phrases: ['(?:(?:pon|poner|activa|activar) (?:la )?|(?:en )?)?pantalla completa'],
+    toIntent: () => ({ type: 'setFullscreen', enabled: true }),
+  },
+  {
+    phrases: ['(?:sal|salir|quita|quitar|desactiva|desactivar) (?:de )?(?:la )?imagen en imagen'],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: false }),
+  },
+  {
+    phrases: ['(?:(?:pon|poner|activa|activar) )?(?:la )?imagen en imagen'],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: true }),
+  },
+  {
+    phrases: [
+      '(?:(?:reproduce|pon|ver|mira|pasa al|ve al) )?(?:el )?(?:(?:siguiente|próximo|proximo) episodio|episodio siguiente)',
+    ],
+    toIntent: () => ({ type: 'nextEpisode' }),
+  },
+  {
+    phrases: [
+      '(?:(?:reproduce|pon|ver|mira|ve a) )?(?:la )?temporada {season} (?:el )?episodio {episode}',
+      '(?:(?:reproduce|pon|ver|mira|ve al) )?(?:el )?episodio {episode} de la temporada {season}',
+    ],
+    toIntent: ({ season, episode }) =>
+      season !== undefined && episode !== undefined ? { type: 'playEpisode', season, episode } : null,
+  },
+  {
+    phrases: [
+      '(?:reproduce|pon|ver|mira|pasa a|ve a) (?:la |el )?siguiente(?: (?:película|pelicula|vídeo|video|título|titulo))?',
+      '(?:la |el )?siguiente(?: (?:película|pelicula|vídeo|video|título|titulo))?',
+    ],
+    toIntent: () => ({ type: 'playNext' }),
+  },
+  {
+    phrases: [
+      'cancela(?:r)?(?: (?:eso|la reproducción automática|la reproduccion automatica|la cuenta atrás|la cuenta atras))?',
+      'no (?:pongas|reproduzcas) (?:la |el )?siguiente(?: (?:película|pelicula|vídeo|video|título|titulo))?',
+      '(?:quédate|quedate) aquí|(?:quédate|quedate) aqui',
+    ],
+    toIntent: () => ({ type: 'cancelUpNext' }),
+  },
+  {
+    phrases: [
+      '(?:(?:ve|ir|pasa|pasar|salta|saltar) al )?(?:siguiente cap[ií]tulo|cap[ií]tulo siguiente)',
+    ],
+    toIntent: () => ({ type: 'nextChapter' }),
+  },
+  {
+    phrases: ['(?:(?:ve|ir|vuelve|volver|salta|saltar) al )?cap[ií]tulo anterior'],
+    toIntent: () => ({ type: 'previousChapter' }),
+  },
+  {
+    phrases: ['(?:(?:ve|ir|pasa|pasar|salta|saltar) al |pon el )?cap[ií]tulo {number}'],
+    toIntent: ({ number }) => (number ? { type: 'goToChapter', chapter: number } : null),
+  },
+  {
+    phrases: ['(?:deshaz|deshacer)(?: (?:eso|lo último|lo ultimo))?', '(?:vuelve|volver) (?:atrás|atras)'],
+    toIntent: () => ({ type: 'undo' }),
+  },
+  {
+    phrases: [
+      '(?:(?:activa|activar|pon|poner|cambia|cambiar) (?:los )?)?subt[ií]tulos (?:en|a) {language}',
+    ],
+    toIntent: ({ language }) => (language ? { type: 'setSubtitles', enabled: true, language } : null),
+  },
+  {
+    phrases: [
+      '(?:activa|activar|enciende|encender|muestra|mostrar|pon|poner) (?:los )?subt[ií]tulos',
+      '(?:los )?subt[ií]tulos (?:activados|encendidos|on)',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: true }),
+  },
+  {
+    phrases: [
+      '(?:desactiva|desactivar|apaga|apagar|oculta|ocultar|quita|quitar) (?:los )?subt[ií]tulos',
+      '(?:los )?subt[ií]tulos (?:desactivados|apagados|off)',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: false }),
+  },
+  {
+    phrases: [
+      '(?:(?:ve|vete|ir|vuelve|volver|llévame|llevame) (?:al|a la) )?(?:inicio|(?:página|pagina) (?:de )?inicio|portada)',
+    ],
+    toIntent: () => ({ type: 'goHome' }),
+  },
+  {
+    phrases: ['(?:abre|abrir|muestra|muéstrame|muestrame|ve a|ir a|llévame a|llevame a) (?:la sección (?:de )?|la seccion (?:de )?|las |los |la |el )?{text}'],
+    toIntent: ({ text }) => {
+      const section = text ? findHomeSection(text, SECTION_ALIASES) : undefined;
+      return section ? { type: 'openSection', section: section.id } : null;
+    },
+  },
+  {
+    phrases: [
+      '(?:muestra(?:me)?|muéstrame|enséñame|ensename|abre|pon(?:me)?|quiero ver|busca) (?:(?:unas |unos |una |un |las |los |la |el )?(?:películas|peliculas|pelis|película|pelicula|cine) (?:de |del )?|algo de |las |los |la |el )?{text}',
+    ],
+    toIntent: ({ text }) => {
+      const genre = text ? findGenre(text, GENRE_ALIASES) : undefined;
+      return genre ? { type: 'openGenre', genre: genre.id } : null;
+    },
+  },
+  {
+    phrases: ['(?:busca|buscar|encuentra|encontrar) {text}'],
+    toIntent: ({ text }) => (text ? { type: 'search', query: text } : null),
+  },
+  {
+    phrases: ['(?:reproduce|reproducir|pon|poner|ver|mira|quiero ver) (?:la película |la pelicula )?{text}'],
+    toIntent: ({ text }) => (text ? { type: 'playTitle', title: text } : null),
+  },
+];
+
+export const es: CommandPack = {
+  locale: 'es-ES',
+  label: 'Español',
+  rules,
+  vocabulary,
+  playerExamples: [
+    'Reproduce la película',
+    'Pausa la película',
+    'Salta la intro',
+    'Activa los subtítulos',
+    'Subtítulos en inglés',
+    'Desactiva los subtítulos',
+    'Adelanta 30 segundos',
+    'Retrocede dos minutos',
+    'Ve a 1 hora 5 minutos',
+    'Volumen 40 por ciento',
+    'Sube el volumen',
+    'Silencio',
+    'Más rápido',
+    'Velocidad normal',
+    'Pantalla completa',
+    'Imagen en imagen',
+    'Siguiente capítulo',
+    'Ve al capítulo 3',
+    'Siguiente película',
+    'Siguiente episodio',
+    'Temporada 2 episodio 3',
+    'Cancela',
+    'Deshaz eso',
+  ],
+  navigationExamples: [
+    'Ve al inicio',
+    'Abre novedades',
+    'Muéstrame comedias',
+    'Busca Avengers',
+    'Pon Captain America',
+  ],
+  confirmations: {
+    accept: ['sí', 'si', 'vale', 'correcto', 'claro', 'hazlo', 'confirmar', 'de acuerdo'],
+    reject: ['no', 'cancela', 'cancelar', 'olvídalo', 'olvidalo'],
+  },
+};
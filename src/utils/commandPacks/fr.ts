@@ -0,0 +1,303 @@
+import { CommandPack, CommandRule, LanguageVocabulary } from '../commandGrammar';
+import { findHomeSection } from '../homeSections';
+import { findGenre } from '../genres';
+
+const vocabulary: LanguageVocabulary = {
+  numbers: {
+    words: {
+      zéro: 0, zero: 0, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7,
+      huit: 8, neuf: 9, dix: 10, onze: 11, douze: 12, treize: 13, quatorze: 14,
+      quinze: 15, seize: 16, vingt: 20, trente: 30, quarante: 40, cinquante: 50,
+      soixante: 60, quatrevingt: 80,
+      vingtetun: 21, trenteetun: 31, quaranteetun: 41, cinquanteetun: 51, soixanteetun: 61,
+    },
+    scales: {
+      cent: 100,
+      cents: 100,
+      mille: 1000,
+    },
+    conjunctions: ['et'],
+    // "un"/"une" are only read as numbers before a unit so titles keep their articles
+    indefiniteArticles: ['un', 'une'],
+    unitNouns: ['heure', 'heures', 'minute', 'minutes', 'min', 'seconde', 'secondes', 'sec'],
+    // "quatre-vingt" is 80, not 4 + 20 ("soixante-dix" already adds up), "vingt
+    // et un" is 21 although "un" alone stays an article, "d'une minute" is
+    // "d' 1 minute", and "cent" in "pour cent" is not 100
+    preprocess: (text) =>
+      text
+        .replace(/quatre[- ]vingts?/g, 'quatrevingt')
+        .replace(/\b(vingt|trente|quarante|cinquante|soixante) et une?\b/g, '$1etun')
+        .replace(/\bd'(?=une?\b)/g, "d' ")
+        .replace(/pour cent/g, 'pourcent'),
+  },
+  timeUnits: {
+    hours: ['heure', 'heures', 'h'],
+    minutes: ['minute', 'minutes', 'min'],
+    seconds: ['seconde', 'secondes', 'sec'],
+  },
+  percentWords: ['pourcent'],
+  fillerPrefixes: ["s'il te plaît", "s'il vous plaît", 'stp', 'ok', 'dis', 'peux tu', 'pourrais tu'],
+  fillerSuffixes: ["s'il te plaît", "s'il vous plaît", 'stp', 'merci', 'maintenant'],
+  languageNames: {
+    français: 'fr', francais: 'fr', anglais: 'en', espagnol: 'es', allemand: 'de',
+    italien: 'it', portugais: 'pt', japonais: 'ja',
+  },
+};
+
+/** French genre names, by genre id */
+const GENRE_ALIASES: Record<string, string[]> = {
+  action: ['action'],
+  adventure: ['aventure', 'aventures'],
+  animation: ['animation', 'dessins animés', 'dessins animes', 'animés', 'animes'],
+  comedy: ['comédie', 'comedie', 'comédies', 'comedies', 'quelque chose de drôle', 'quelque chose de drole'],
+  crime: ['policier', 'policiers', 'gangsters'],
+  documentary: ['documentaire', 'documentaires'],
+  drama: ['drame', 'drames'],
+  family: ['famille', 'familiaux', 'pour enfants', 'enfants'],
+  fantasy: ['fantastique', 'fantasy'],
+  horror: ['horreur', 'épouvante', 'epouvante', 'peur'],
+  romance: ['romance', 'romances', 'romantique', 'romantiques', 'amour'],
+  'science-fiction': ['science fiction', 'sf'],
+  thriller: ['thriller', 'thrillers', 'suspense'],
+};
+
+/** French names of the home page rows, by section id */
+const SECTION_ALIASES: Record<string, string[]> = {
+  trending: ['tendances', 'tendance', 'populaires', 'les plus populaires', 'films du moment'],
+  'new-releases': ['nouveautés', 'nouveautes', 'nouvelles sorties', 'sorties récentes', 'sorties recentes', 'derniers films'],
+  'popular-shows': ['séries', 'series', 'séries populaires', 'series populaires', 'émissions', 'emissions'],
+};
+
+/**
+ * French grammar. Order matters: the first rule that matches wins.
+ * Hyphens are split during normalisation, so "sous-titres" arrives as "sous titres".
+ */
+const rules: CommandRule[] = [
+  {
+    phrases: [
+      '(?:lecture|lire|joue|jouer|reprends|reprendre|continue|continuer|play)(?: (?:le |la )?(?:film|vidéo|video))?',
+      'lance (?:le |la )?(?:film|vidéo|video)',
+    ],
+    toIntent: () => ({ type: 'play' }),
+  },
+  {
+    phrases: ['(?:pause|mets en pause|mettre en pause|arrête|arrete|stop)(?: (?:le |la )?(?:film|vidéo|video))?'],
+    toIntent: () => ({ type: 'pause' }),
+  },
+  {
+    phrases: [
+      "(?:passe|passer|saute|sauter|zappe|zapper) (?:l'|l |la )?intro(?:duction)?",
+      '(?:passe|passer|saute|sauter|zappe|zapper) le générique(?: de début)?',
+    ],
+    toIntent: () => ({ type: 'skipIntro' }),
+  },
+  {
+    phrases: ["(?:avance|avancer|saute|sauter|va|aller)(?: en avant)?(?: de| d')? {duration}"],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: duration } : null),
+  },
+  {
+    phrases: [
+      "(?:recule|reculer|rembobine|rembobiner|reviens|revenir)(?: en arrière| en arriere)?(?: de| d')? {duration}",
+      "(?:retour|arrière|arriere) (?:de |d' )?{duration}",
+    ],
+    toIntent: ({ duration }) => (duration ? { type: 'seekBy', seconds: -duration } : null),
+  },
+  {
+    phrases: [
+      '(?:va|aller|saute|sauter|passe|passer) (?:à|a) {timestamp}',
+      '(?:reprends|reprendre|commence|commencer|lecture) (?:à|a|depuis) {timestamp}',
+    ],
+    toIntent: ({ timestamp }) => (timestamp !== undefined ? { type: 'seekTo', seconds: timestamp } : null),
+  },
+  {
+    phrases: ['(?:mets |mettre |règle |regle |régler |regler )?(?:le )?volume(?: (?:à|a))? {percent}'],
+    toIntent: ({ percent }) => (percent !== undefined ? { type: 'setVolume', percent } : null),
+  },
+  {
+    phrases: ['(?:monte|monter|augmente|augmenter) (?:le )?(?:son|volume)', 'plus fort'],
+    toIntent: () => ({ type: 'adjustVolume', percent: 10 }),
+  },
+  {
+    phrases: ['(?:baisse|baisser|diminue|diminuer) (?:le )?(?:son|volume)', 'moins fort'],
+    toIntent: () => ({ type: 'adjustVolume', percent: -10 }),
+  },
+  {
+    phrases: ['(?:coupe|couper) (?:le )?son', '(?:mets |mettre )?en sourdine', 'sourdine'],
+    toIntent: () => ({ type: 'setMuted', muted: true }),
+  },
+  {
+    phrases: ['(?:remets|remettre|r[ée]tablis|r[ée]tablir) (?:le )?son', '(?:enl[èe]ve|enlever) la sourdine'],
+    toIntent: () => ({ type: 'setMuted', muted: false }),
+  },
+  {
+    phrases: ['plus vite', '(?:acc[ée]l[èe]re|acc[ée]l[ée]rer)'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: 1 }),
+  },
+  {
+    phrases: ['moins vite', 'plus lent(?:ement)?', '(?:ralentis|ralentir)'],
+    toIntent: () => ({ type: 'stepPlaybackRate', steps: -1 }),
+  },
+  {
+    phrases: ['(?:(?:remets|remettre) )?(?:(?:la|à|a) )?vitesse normale'],
+    toIntent: () => ({ type: 'setPlaybackRate', rate: 1 }),
+  },
+  {
+    phrases: ['(?:quitte|quitter|sors|sortir) (?:du |le )?(?:mode )?plein [ée]cran'],
+    toIntent: () => ({ type: 'setFullscreen', enabled: false }),
+  },
+  {
+    phrases: ['(?:(?:mets|mettre|passe|passer) )?(?:en )?plein [ée]cran'],
+    toIntent: () => ({ type: 'setFullscreen', enabled: true }),
+  },
+  {
+    phrases: ["(?:quitte|quitter|sors|sortir|d[ée]sactive|d[ée]sactiver) (?:du |le )?(?:mode )?image dans l' ?image"],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: false }),
+  },
+  {
+    phrases: ["(?:(?:active|activer|passe|passer) (?:en )?)?(?:mode )?image dans l' ?image"],
+    toIntent: () => ({ type: 'setPictureInPicture', enabled: true }),
+  },
+  {
+    phrases: [
+      "(?:(?:joue|lance|passe|passer|va) (?:à |a )?)?(?:l' ?)?(?:épisode|episode) suivant",
+      '(?:(?:joue|lance) )?(?:le )?prochain (?:épisode|episode)',
+    ],
+    toIntent: () => ({ type: 'nextEpisode' }),
+  },
+  {
+    phrases: [
+      "(?:(?:joue|lance|regarde|mets) )?(?:la )?saison {season} (?:l' ?)?(?:épisode|episode) {episode}",
+      "(?:(?:joue|lance|regarde|mets) )?(?:l' ?)?(?:épisode|episode) {episode} de la saison {season}",
+    ],
+    toIntent: ({ season, episode }) =>
+      season !== undefined && episode !== undefined ? { type: 'playEpisode', season, episode } : null,
+  },
+  {
+    phrases: [
+      '(?:joue|lance|passe|passer|va) (?:à |a |au )?(?:la |le )?(?:suivant|suivante)',
+      '(?:joue |lance )?(?:le )?(?:film|titre) suivant',
+      '(?:joue |lance )?(?:la )?(?:vidéo|video) suivante',
+      'suivant',
+    ],
+    toIntent: () => ({ type: 'playNext' }),
+  },
+  {
+    phrases: [
+      'annule(?:r)?(?: (?:ça|ca|la lecture automatique|le compte à rebours|le compte a rebours))?',
+      'ne (?:lance|joue) pas (?:la |le )?(?:suivant|suivante|film suivant|vidéo suivante|video suivante)',
+      'reste(?:r)? ici',
+    ],
+    toIntent: () => ({ type: 'cancelUpNext' }),
+  },
+  {
+    phrases: ['(?:(?:va|aller|passe|passer) au )?chapitre suivant'],
+    toIntent: () => ({ type: 'nextChapter' }),
+  },
+  {
+    phrases: ['(?:(?:va|aller|reviens|revenir|retourne|retourner) au )?chapitre pr[ée]c[ée]dent'],
+    toIntent: () => ({ type: 'previousChapter' }),
+  },
+  {
+    phrases: ['(?:(?:va|aller|passe|passer|saute|sauter) au )?chapitre {number}'],
+    toIntent: ({ number }) => (number ? { type: 'goToChapter', chapter: number } : null),
+  },
+  {
+    phrases: ['(?:annule|annuler)(?: (?:ça|ca|la dernière commande|la derniere commande))?', '(?:reviens|revenir) en (?:arrière|arriere)'],
+    toIntent: () => ({ type: 'undo' }),
+  },
+  {
+    phrases: [
+      '(?:(?:active|activer|affiche|afficher|mets|mettre|passe|passer) (?:les )?)?sous titres en {language}',
+    ],
+    toIntent: ({ language }) => (language ? { type: 'setSubtitles', enabled: true, language } : null),
+  },
+  {
+    phrases: [
+      '(?:active|activer|affiche|afficher|mets|mettre) (?:les )?sous titres',
+      '(?:les )?sous titres (?:activés|actives|on)',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: true }),
+  },
+  {
+    phrases: [
+      '(?:désactive|desactive|désactiver|desactiver|enlève|enleve|enlever|cache|cacher|masque|masquer|retire|retirer) (?:les )?sous titres',
+      '(?:les )?sous titres (?:désactivés|desactives|off)',
+    ],
+    toIntent: () => ({ type: 'setSubtitles', enabled: false }),
+  },
+  {
+    phrases: [
+      "(?:(?:va|aller|retourne|retourner|ramène moi|ramene moi) )?(?:(?:à|a|sur) )?(?:l'accueil|la page d'accueil|accueil)",
+    ],
+    toIntent: () => ({ type: 'goHome' }),
+  },
+  {
+    phrases: ['(?:ouvre|ouvrir|affiche|afficher|montre(?: moi)?|va (?:à|a|aux|dans)) (?:la section |les |la |le )?{text}'],
+    toIntent: ({ text }) => {
+      const section = text ? findHomeSection(text, SECTION_ALIASES) : undefined;
+      return section ? { type: 'openSection', section: section.id } : null;
+    },
+  },
+  {
+    phrases: [
+      "(?:montre(?: moi)?|affiche|ouvre|mets|trouve(?: moi)?|je veux voir|j'ai envie de) (?:des |les |un |une |la |le |l')?(?:films? (?:de |d'|du )?)?{text}",
+    ],
+    toIntent: ({ text }) => {
+      const genre = text ? findGenre(text, GENRE_ALIASES) : undefined;
+      return genre ? { type: 'openGenre', genre: genre.id } : null;
+    },
+  },
+  {
+    phrases: ['(?:cherche|chercher|recherche|rechercher|trouve|trouver) {text}'],
+    toIntent: ({ text }) => (text ? { type: 'search', query: text } : null),
+  },
+  {
+    phrases: ['(?:joue|lance|lancer|regarder|mets|mettre) (?:le film )?{text}'],
+    toIntent: ({ text }) => (text ? { type: 'playTitle', title: text } : null),
+  },
+];
+
+export const fr: CommandPack = {
+  locale: 'fr-FR',
+  label: 'Français',
+  rules,
+  vocabulary,
+  playerExamples: [
+    'Lance le film',
+    'Mets en pause',
+    "Passe l'intro",
+    'Active les sous-titres',
+    'Sous-titres en anglais',
+    'Désactive les sous-titres',
+    'Avance de 30 secondes',
+    'Recule de deux minutes',
+    "Recule d'une minute",
+    'Avance de vingt et une secondes',
+    'Va à 1 heure 5 minutes',
+    'Volume 40 pour cent',
+    'Plus fort',
+    'Coupe le son',
+    'Plus vite',
+    'Vitesse normale',
+    'Plein écran',
+    "Image dans l'image",
+    'Chapitre suivant',
+    'Va au chapitre 3',
+    'Film suivant',
+    'Épisode suivant',
+    'Saison 2 épisode 3',
+    'Annule',
+    'Annule ça',
+  ],
+  navigationExamples: [
+    "Retourne à l'accueil",
+    'Ouvre les nouveautés',
+    'Montre-moi les comédies',
+    'Cherche Avengers',
+    'Lance Captain America',
+  ],
+  confirmations: {
+    accept: ['oui', 'ouais', 'exact', 'vas y', 'confirme', 'confirmer', "d'accord", 'ok'],
+    reject: ['non', 'annule', 'annuler', 'laisse tomber'],
+  },
+};
@@ -0,0 +1,97 @@
+/**
+ * Voice Command Packs
+ * One pack per language, each mapping local phrasings onto the same
+ * {@link VoiceIntent}s. Recognition can run in languages that have no pack;
+ * commands then fall back to the English pack.
+ */
+
+import { VoiceIntent } from '@/types/voice';
+import { CommandPack, CompiledGrammar, compileGrammar, matchGrammar, normalizeTranscript } from '../commandGrammar';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { de } from './de';
+
+export const COMMAND_PACKS: CommandPack[] = [en, es, fr, de];
+
+export const DEFAULT_COMMAND_PACK = en;
+
+/**
+ * Languages offered for speech recognition, with or without a command pack
+ */
+export const RECOGNITION_LANGUAGES: { locale: string; label: string }[] = [
+  { locale: 'en-US', label: 'English (US)' },
+  { locale: 'en-GB', label: 'English (UK)' },
+  { locale: 'es-ES', label: 'Español (España)' },
+  { locale: 'es-MX', label: 'Español (México)' },
+  { locale: 'fr-FR', label: 'Français' },
+  { locale: 'de-DE', label: 'Deutsch' },
+  { locale: 'it-IT', label: 'Italiano' },
+  { locale: 'pt-BR', label: 'Português (Brasil)' },
+  { locale: 'ja-JP', label: '日本語' },
+];
+
+const languageOf = (locale: string): string => locale.split('-')[0].toLowerCase();
+
+/**
+ * Find the pack written for a locale, matching on the language if the region differs
+ *
+ * @param locale - BCP 47 locale, e.g. 'es-MX'
+ * @returns The matching pack, or undefined if the language has none
+ */
+export function findCommandPack(locale: string): CommandPack | undefined {
+  return (
+    COMMAND_PACKS.find((pack) => pack.locale.toLowerCase() === locale.toLowerCase()) ??
+    COMMAND_PACKS.find((pack) => languageOf(pack.locale) === languageOf(locale))
+  );
+}
+
+/**
+ * Pack to use for a locale, falling back to English when the language has none
+ */
+export const getCommandPack = (locale: string): CommandPack => findCommandPack(locale) ?? DEFAULT_COMMAND_PACK;
+
+const compiledGrammars = new Map<CommandPack, CompiledGrammar>();
+
+const grammarFor = (pack: CommandPack): CompiledGrammar => {
+  let grammar = compiledGrammars.get(pack);
+  if (!grammar) {
+    grammar = compileGrammar(pack.rules, pack.vocabulary);
+    compiledGrammars.set(pack, grammar);
+  }
+  return grammar;
+};
+
+/**
+ * Parse a recognised transcript into an intent
+ *
+ * @param transcript - Raw text from the recogniser
+ * @param locale - Language the transcript was recognised in (defaults to 'en-US')
+ * @returns The matched intent, or null when nothing in the pack matches
+ *
+ * @example
+ * ```ts
+ * parseVoiceCommand('skip forward thirty seconds'); // { type: 'seekBy', seconds: 30 }
+ * parseVoiceCommand('retrocede dos minutos', 'es-ES'); // { type: 'seekBy', seconds: -120 }
+ * ```
+ */
+export function parseVoiceCommand(transcript: string, locale = 'en-US'): VoiceIntent | null {
+  return matchGrammar(transcript, grammarFor(getCommandPack(locale)));
+}
+
+/**
+ * Read a transcript as an answer to a "Did you mean ...?" prompt
+ *
+ * @param transcript - Raw text from the recogniser
+ * @param locale - Language the transcript was recognised in (defaults to 'en-US')
+ * @returns 'accept' or 'reject', or null if the transcript is not an answer
+ */
+export function matchConfirmation(transcript: string, locale = 'en-US'): 'accept' | 'reject' | null {
+  const { vocabulary, confirmations } = getCommandPack(locale);
+  // Answers such as "ok" double as fillers, so also check the text before fillers are stripped
+  const answers = [normalizeTranscript(transcript, vocabulary), transcript.toLowerCase().replace(/[.,!?]/g, '').trim()];
+
+  if (answers.some((answer) => confirmations.accept.includes(answer))) return 'accept';
+  if (answers.some((answer) => confirmations.reject.includes(answer))) return 'reject';
+  return null;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceIntent } from '@/types/voice';
+import { parseVoiceCommand } from './index';
+
+type Case = [transcript: string, intent: VoiceIntent | null];
+
+const CASES: Record<string, Case[]> = {
+  'en-US': [
+    ['Play', { type: 'play' }],
+    ['pause the display', null],
+    ['skip forward 30 seconds', { type: 'seekBy', seconds: 30 }],
+    ['go back two minutes', { type: 'seekBy', seconds: -120 }],
+    ['rewind a minute', { type: 'seekBy', seconds: -60 }],
+    ['skip forward a hundred seconds', { type: 'seekBy', seconds: 100 }],
+    ['jump to one hour and five minutes', { type: 'seekTo', seconds: 3900 }],
+    ['go to 1 hour 5', { type: 'seekTo', seconds: 3900 }],
+    ['go back two minutes thirty', { type: 'seekBy', seconds: -150 }],
+    ['go to 12:30', { type: 'seekTo', seconds: 750 }],
+    ['volume forty five percent', { type: 'setVolume', percent: 45 }],
+    ['volume 150%', { type: 'setVolume', percent: 100 }],
+    ['Turn on subtitles', { type: 'setSubtitles', enabled: true }],
+    ['play season 2 episode 3', { type: 'playEpisode', season: 2, episode: 3 }],
+    ['season one episode five', { type: 'playEpisode', season: 1, episode: 5 }],
+    ['next episode', { type: 'nextEpisode' }],
+    ['open new releases', { type: 'openSection', section: 'new-releases' }],
+    ['search for avengers', { type: 'search', query: 'avengers' }],
+    ['play captain america', { type: 'playTitle', title: 'captain america' }],
+    ['play a hundred and one dalmatians', { type: 'playTitle', title: '101 dalmatians' }],
+    ['go home', { type: 'goHome' }],
+  ],
+  'fr-FR': [
+    ['Lance le film', { type: 'play' }],
+    ["Passe l'intro", { type: 'skipIntro' }],
+    ['Avance de 30 secondes', { type: 'seekBy', seconds: 30 }],
+    ['Recule de deux minutes', { type: 'seekBy', seconds: -120 }],
+    ["recule d'une minute", { type: 'seekBy', seconds: -60 }],
+    ["avance d'une minute", { type: 'seekBy', seconds: 60 }],
+    ['avance de vingt et un secondes', { type: 'seekBy', seconds: 21 }],
+    ['recule de trente et une secondes', { type: 'seekBy', seconds: -31 }],
+    ['va à une heure vingt et une minutes', { type: 'seekTo', seconds: 4860 }],
+    ['avance de quatre-vingt-dix-neuf secondes', { type: 'seekBy', seconds: 99 }],
+    ['recule de soixante dix sept secondes', { type: 'seekBy', seconds: -77 }],
+    ['volume vingt et un pour cent', { type: 'setVolume', percent: 21 }],
+    ['volume soixante et onze pour cent', { type: 'setVolume', percent: 71 }],
+    ['Saison 2 épisode 3', { type: 'playEpisode', season: 2, episode: 3 }],
+    ["Retourne à l'accueil", { type: 'goHome' }],
+    ['lance vingt et une nuits', { type: 'playTitle', title: '21 nuits' }],
+  ],
+  'es-ES': [
+    ['Pausa la película', { type: 'pause' }],
+    ['Retrocede dos minutos', { type: 'seekBy', seconds: -120 }],
+    ['avanza un minuto', { type: 'seekBy', seconds: 60 }],
+    ['adelanta treinta y dos segundos', { type: 'seekBy', seconds: 32 }],
+    ['adelanta ciento cinco segundos', { type: 'seekBy', seconds: 105 }],
+    ['Ve a una hora y cinco minutos', { type: 'seekTo', seconds: 3900 }],
+    ['Volumen cuarenta por ciento', { type: 'setVolume', percent: 40 }],
+    ['temporada dos episodio tres', { type: 'playEpisode', season: 2, episode: 3 }],
+    ['Busca Avengers', { type: 'search', query: 'avengers' }],
+  ],
+  'de-DE': [
+    ['Film pausieren', { type: 'pause' }],
+    ['Spul zwei Minuten zurück', { type: 'seekBy', seconds: -120 }],
+    ['spring fünfundvierzig sekunden vor', { type: 'seekBy', seconds: 45 }],
+    ['spring zweihundertfünfundzwanzig sekunden vor', { type: 'seekBy', seconds: 225 }],
+    ['Geh zu einer Stunde und fünf Minuten', { type: 'seekTo', seconds: 3900 }],
+    ['Lautstärke vierzig Prozent', { type: 'setVolume', percent: 40 }],
+    ['staffel zwei folge drei', { type: 'playEpisode', season: 2, episode: 3 }],
+    ['Zur Startseite', { type: 'goHome' }],
+  ],
+};
+
+describe('parseVoiceCommand', () => {
+  Object.entries(CASES).forEach(([locale, cases]) => {
+    describe(locale, () => {
+      it.each(cases)('%s', (transcript, intent) => {
+        expect(parseVoiceCommand(transcript, locale)).toEqual(intent);
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Command Undo
+ * Which voice commands can be reversed, and how: each reversible intent
+ * names the parts of the player state it changes, and undo restores exactly
+ * those parts from the snapshot taken before the command ran.
+ */
+
+import { CommandHistoryEntry, PlayerSnapshot } from '@/types/commandHistory';
+import { VoiceIntent, VoiceIntentType } from '@/types/voice';
+
+const REVERSIBLE_FIELDS: Partial<Record<VoiceIntentType, (keyof PlayerSnapshot)[]>> = {
+  play: ['paused'],
+  pause: ['paused'],
+  skipIntro: ['currentTime'],
+  seekBy: ['currentTime'],
+  seekTo: ['currentTime'],
+  nextChapter: ['currentTime'],
+  previousChapter: ['currentTime'],
+  goToChapter: ['currentTime'],
+  setVolume: ['volume', 'muted'],
+  adjustVolume: ['volume', 'muted'],
+  setMuted: ['muted'],
+  setPlaybackRate: ['playbackRate'],
+  stepPlaybackRate: ['playbackRate'],
+  setSubtitles: ['subtitles'],
+};
+
+/**
+ * Whether "undo" can reverse this kind of command
+ */
+export const isReversible = (intent: VoiceIntent): boolean => intent.type in REVERSIBLE_FIELDS;
+
+/**
+ * Find the command "undo" should reverse: the latest one for this title that
+ * is reversible and not already undone
+ *
+ * @param entries - Command history, oldest first
+ * @param title - Title currently playing
+ */
+export function findUndoTarget(entries: CommandHistoryEntry[], title: string): CommandHistoryEntry | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.title === title && !entry.undone && !entry.failed && entry.before && isReversible(entry.intent)) {
+      return entry;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The player state to restore to reverse a command
+ *
+ * @example
+ * ```ts
+ * undoChanges(skipIntroEntry); // { currentTime: 12.5 }
+ * ```
+ */
+export function undoChanges({ intent, before }: CommandHistoryEntry): Partial<PlayerSnapshot> {
+  const changes: Partial<PlayerSnapshot> = {};
+  if (!before) return changes;
+
+  (REVERSIBLE_FIELDS[intent.type] ?? []).forEach((field) => {
+    Object.assign(changes, { [field]: before[field] });
+  });
+  return changes;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { RecognitionResult } from '@/types/voice';
+import { parseVoiceCommand } from './commandPacks';
+import { decideCommand, resolveThresholds } from './confidencePolicy';
+
+const parse = (transcript: string) => parseVoiceCommand(transcript);
+
+const result = (
+  transcript: string,
+  confidence: number | null,
+  alternatives: RecognitionResult['alternatives'] = []
+): RecognitionResult => ({ transcript, confidence, alternatives });
+
+describe('decideCommand', () => {
+  it('runs a confident command', () => {
+    expect(decideCommand(result('pause', 0.9), parse)).toMatchObject({ outcome: 'dispatch', intent: { type: 'pause' } });
+  });
+
+  it('asks before running a doubtful command', () => {
+    expect(decideCommand(result('play dog man', 0.6), parse)).toMatchObject({ outcome: 'confirm' });
+  });
+
+  it('offers an alternative when the best transcript is not a command', () => {
+    const decision = decideCommand(result('paws', 0.9, [{ transcript: 'pause', confidence: 0.8 }]), parse);
+    expect(decision).toMatchObject({ outcome: 'confirm', intent: { type: 'pause' }, transcript: 'pause' });
+  });
+
+  it('tries the alternatives when the best transcript is a command below its threshold', () => {
+    const decision = decideCommand(
+      result('play dog man', 0.4, [{ transcript: 'pause', confidence: 0.35 }]),
+      parse
+    );
+    expect(decision).toMatchObject({ outcome: 'confirm', intent: { type: 'pause' } });
+  });
+
+  it('rejects as too unsure when no hypothesis clears its threshold', () => {
+    const decision = decideCommand(
+      result('play dog man', 0.4, [{ transcript: 'pause', confidence: 0.2 }]),
+      parse
+    );
+    expect(decision).toMatchObject({ outcome: 'reject', reason: 'lowConfidence', transcript: 'play dog man' });
+  });
+
+  it('rejects transcripts that are not commands', () => {
+    expect(decideCommand(result('hello there', 0.9), parse)).toMatchObject({ outcome: 'reject', reason: 'noMatch' });
+  });
+
+  it('applies per-intent overrides', () => {
+    const thresholds = resolveThresholds({ pause: { confirm: 0.95 } });
+    expect(decideCommand(result('pause', 0.9), parse, thresholds)).toMatchObject({ outcome: 'confirm' });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Confidence Policy
+ * Decides what to do with a recognised command given how sure the recogniser
+ * was: run it, ask "Did you mean ...?" first, or ignore it. Each intent has
+ * its own thresholds so cheap, easily undone actions (pause) go through on
+ * weaker evidence than ones that take the user somewhere else (play a title).
+ */
+
+import { RecognitionResult, VoiceIntent, VoiceIntentType } from '@/types/voice';
+
+/**
+ * Confidence limits for one intent, between 0 and 1
+ */
+export interface ConfidenceThreshold {
+  /** Below this the command is ignored */
+  reject: number;
+  /** Below this (and at or above `reject`) the user is asked to confirm */
+  confirm: number;
+}
+
+export type ConfidenceThresholds = Record<VoiceIntentType, ConfidenceThreshold>;
+
+/**
+ * Per-intent overrides; anything left out keeps its default
+ */
+export type ConfidenceThresholdOverrides = Partial<Record<VoiceIntentType, Partial<ConfidenceThreshold>>>;
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  play: { reject: 0.3, confirm: 0.5 },
+  pause: { reject: 0.3, confirm: 0.5 },
+  setSubtitles: { reject: 0.3, confirm: 0.5 },
+  undo: { reject: 0.3, confirm: 0.5 },
+  setVolume: { reject: 0.3, confirm: 0.55 },
+  adjustVolume: { reject: 0.3, confirm: 0.5 },
+  setMuted: { reject: 0.3, confirm: 0.5 },
+  setPlaybackRate: { reject: 0.3, confirm: 0.55 },
+  stepPlaybackRate: { reject: 0.3, confirm: 0.55 },
+  setFullscreen: { reject: 0.3, confirm: 0.5 },
+  setPictureInPicture: { reject: 0.3, confirm: 0.55 },
+  cancelUpNext: { reject: 0.3, confirm: 0.5 },
+  skipIntro: { reject: 0.35, confirm: 0.6 },
+  seekBy: { reject: 0.35, confirm: 0.6 },
+  nextChapter: { reject: 0.35, confirm: 0.6 },
+  previousChapter: { reject: 0.35, confirm: 0.6 },
+  seekTo: { reject: 0.4, confirm: 0.7 },
+  goToChapter: { reject: 0.4, confirm: 0.65 },
+  playNext: { reject: 0.4, confirm: 0.7 },
+  nextEpisode: { reject: 0.4, confirm: 0.7 },
+  playEpisode: { reject: 0.4, confirm: 0.7 },
+  goHome: { reject: 0.35, confirm: 0.6 },
+  openSection: { reject: 0.35, confirm: 0.6 },
+  openGenre: { reject: 0.35, confirm: 0.6 },
+  search: { reject: 0.4, confirm: 0.65 },
+  playTitle: { reject: 0.45, confirm: 0.75 },
+};
+
+/**
+ * Apply overrides on top of the default thresholds
+ */
+export function resolveThresholds(overrides: ConfidenceThresholdOverrides = {}): ConfidenceThresholds {
+  const thresholds = { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+  (Object.keys(overrides) as VoiceIntentType[]).forEach((type) => {
+    thresholds[type] = { ...thresholds[type], ...overrides[type] };
+  });
+  return thresholds;
+}
+
+const isLimit = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+
+/**
+ * Read saved overrides, keeping only known intents and limits between 0 and 1
+ */
+export function parseThresholdOverrides(value: unknown): ConfidenceThresholdOverrides {
+  const overrides: ConfidenceThresholdOverrides = {};
+  if (!value || typeof value !== 'object') return overrides;
+
+  Object.entries(value).forEach(([type, limits]) => {
+    if (!(type in DEFAULT_CONFIDENCE_THRESHOLDS) || !limits || typeof limits !== 'object') return;
+    const { reject, confirm } = limits as Record<string, unknown>;
+    const threshold: Partial<ConfidenceThreshold> = {};
+    if (isLimit(reject)) threshold.reject = reject;
+    if (isLimit(confirm)) threshold.confirm = confirm;
+    if (Object.keys(threshold).length > 0) overrides[type as VoiceIntentType] = threshold;
+  });
+  return overrides;
+}
+
+/**
+ * Outcome of weighing a recognition result
+ */
+export type CommandDecision =
+  | { outcome: 'dispatch'; intent: VoiceIntent; transcript: string; confidence: number | null }
+  | { outcome: 'confirm'; intent: VoiceIntent; transcript: string; confidence: number | null }
+  | { outcome: 'reject'; reason: 'noMatch' | 'lowConfidence'; transcript: string; confidence: number | null };
+
+/**
+ * Decide whether to run, confirm or ignore a recognised command
+ *
+ * The best transcript is parsed first. If it is not a command, or is one
+ * with too little confidence for its intent, the alternatives are tried in
+ * order; a command found only in an alternative is always confirmed, since
+ * the recogniser thought something else was more likely. Results without a
+ * confidence score are judged on the transcript alone.
+ *
+ * @param result - Final recognition result
+ * @param parse - Turns a transcript into an intent (the active command pack)
+ * @param thresholds - Per-intent confidence limits
+ *
+ * @example
+ * ```ts
+ * decideCommand(
+ *   { transcript: 'play dog man', confidence: 0.6, alternatives: [] },
+ *   (text) => parseVoiceCommand(text),
+ *   DEFAULT_CONFIDENCE_THRESHOLDS
+ * ); // { outcome: 'confirm', intent: { type: 'playTitle', title: 'dog man' }, ... }
+ * ```
+ */
+export function decideCommand(
+  result: RecognitionResult,
+  parse: (transcript: string) => VoiceIntent | null,
+  thresholds: ConfidenceThresholds = DEFAULT_CONFIDENCE_THRESHOLDS
+): CommandDecision {
+  const hypotheses = [result, ...result.alternatives];
+  let tooUnsure: CommandDecision | undefined;
+
+  for (const [index, { transcript, confidence: ownConfidence }] of hypotheses.entries()) {
+    const intent = parse(transcript);
+    if (!intent) continue;
+
+    const confidence = ownConfidence ?? result.confidence;
+    const { reject, confirm } = thresholds[intent.type];
+
+    if (confidence !== null && confidence < reject) {
+      if (!tooUnsure) tooUnsure = { outcome: 'reject', reason: 'lowConfidence', transcript, confidence };
+      continue;
+    }
+    if (index > 0 || (confidence !== null && confidence < confirm)) {
+      return { outcome: 'confirm', intent, transcript, confidence };
+    }
+    return { outcome: 'dispatch', intent, transcript, confidence };
+  }
+
+  return tooUnsure ?? { outcome: 'reject', reason: 'noMatch', transcript: result.transcript, confidence: result.confidence };
+}
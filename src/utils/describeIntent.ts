@@ -0,0 +1,89 @@
+/**
+ * Intent Descriptions
+ * Short human-readable labels for parsed voice commands, shown as feedback
+ * so users can see what a phrase was understood as.
+ */
+
+import { VoiceIntent } from '@/types/voice';
+import { languageName } from './subtitleTracks';
+import { formatPlaybackRate } from './playbackRates';
+import { getGenre } from './genres';
+
+/**
+ * Format a number of seconds as "1h 5m", "2m 30s" or "45s"
+ */
+const formatSeconds = (total: number): string => {
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = Math.round(total % 60);
+  return [hours && `${hours}h`, minutes && `${minutes}m`, (seconds || total < 1) && `${seconds}s`]
+    .filter(Boolean)
+    .join(' ');
+};
+
+/**
+ * Describe an intent in a few words
+ *
+ * @example
+ * ```ts
+ * describeIntent({ type: 'seekBy', seconds: -120 }); // 'Back 2m'
+ * describeIntent({ type: 'playTitle', title: 'dog man' }); // 'Play "dog man"'
+ * ```
+ */
+export function describeIntent(intent: VoiceIntent): string {
+  switch (intent.type) {
+    case 'play':
+      return 'Play';
+    case 'pause':
+      return 'Pause';
+    case 'skipIntro':
+      return 'Skip intro';
+    case 'seekBy':
+      return `${intent.seconds < 0 ? 'Back' : 'Forward'} ${formatSeconds(Math.abs(intent.seconds))}`;
+    case 'seekTo':
+      return `Jump to ${formatSeconds(intent.seconds)}`;
+    case 'setVolume':
+      return `Volume ${intent.percent}%`;
+    case 'adjustVolume':
+      return intent.percent < 0 ? 'Quieter' : 'Louder';
+    case 'setMuted':
+      return intent.muted ? 'Mute' : 'Unmute';
+    case 'setPlaybackRate':
+      return `Speed ${formatPlaybackRate(intent.rate)}`;
+    case 'stepPlaybackRate':
+      return intent.steps < 0 ? 'Slower' : 'Faster';
+    case 'setFullscreen':
+      return intent.enabled ? 'Full screen' : 'Exit full screen';
+    case 'setPictureInPicture':
+      return intent.enabled ? 'Picture in picture' : 'Exit picture in picture';
+    case 'setSubtitles':
+      if (intent.language) return `${languageName(intent.language)} subtitles`;
+      return intent.enabled ? 'Subtitles on' : 'Subtitles off';
+    case 'nextChapter':
+      return 'Next chapter';
+    case 'previousChapter':
+      return 'Previous chapter';
+    case 'goToChapter':
+      return `Chapter ${intent.chapter}`;
+    case 'playNext':
+      return 'Play next';
+    case 'cancelUpNext':
+      return 'Cancel up next';
+    case 'nextEpisode':
+      return 'Next episode';
+    case 'playEpisode':
+      return `Season ${intent.season} episode ${intent.episode}`;
+    case 'undo':
+      return 'Undo';
+    case 'goHome':
+      return 'Go home';
+    case 'openSection':
+      return `Open ${intent.section.replace(/-/g, ' ')}`;
+    case 'openGenre':
+      return `Browse ${getGenre(intent.genre)?.name ?? intent.genre}`;
+    case 'search':
+      return `Search "${intent.query}"`;
+    case 'playTitle':
+      return `Play "${intent.title}"`;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Format a playback position as m:ss or h:mm:ss
+ *
+ * @example
+ * ```ts
+ * formatPosition(4324); // '1:12:04'
+ * ```
+ */
+export const formatPosition = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return hours ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
@@ -0,0 +1,67 @@
+/**
+ * Genres
+ * The controlled list of genres movies.json may use, shared by the catalog
+ * API, genre rows and pages, and voice navigation ("show me comedies").
+ */
+
+/**
+ * One genre of the taxonomy
+ */
+export interface Genre {
+  /** Identifier used in movies.json, `?genre=` and `/genre/[slug]` */
+  id: string;
+  /** Name shown on chips, rows and the genre page */
+  name: string;
+  /** Other English names for it, spoken or typed, e.g. plurals */
+  aliases: string[];
+}
+
+export const GENRES: Genre[] = [
+  { id: 'action', name: 'Action', aliases: ['action flicks'] },
+  { id: 'adventure', name: 'Adventure', aliases: ['adventures'] },
+  { id: 'animation', name: 'Animation', aliases: ['animated', 'animated movies', 'cartoons', 'anime'] },
+  { id: 'comedy', name: 'Comedy', aliases: ['comedies', 'funny movies', 'something funny'] },
+  { id: 'crime', name: 'Crime', aliases: ['gangster movies', 'heist movies'] },
+  { id: 'documentary', name: 'Documentary', aliases: ['documentaries', 'docs'] },
+  { id: 'drama', name: 'Drama', aliases: ['dramas'] },
+  { id: 'family', name: 'Family', aliases: ['kids', 'kids movies', 'movies for kids', 'family friendly'] },
+  { id: 'fantasy', name: 'Fantasy', aliases: ['fantasies'] },
+  { id: 'horror', name: 'Horror', aliases: ['scary movies', 'something scary'] },
+  { id: 'romance', name: 'Romance', aliases: ['romances', 'romantic', 'romantic movies', 'romcoms', 'rom coms', 'love stories'] },
+  { id: 'science-fiction', name: 'Science Fiction', aliases: ['sci fi', 'scifi'] },
+  { id: 'thriller', name: 'Thriller', aliases: ['thrillers', 'suspense'] },
+];
+
+const GENRES_BY_ID = new Map(GENRES.map((genre) => [genre.id, genre]));
+
+/**
+ * The genre with this id, if it is one
+ */
+export const getGenre = (id: string): Genre | undefined => GENRES_BY_ID.get(id);
+
+/**
+ * Find the genre a spoken or typed name refers to: its id, name or an alias
+ *
+ * @param name - Genre name, e.g. 'comedies' or 'Sci-Fi'
+ * @param aliases - Localised names by genre id, checked as well as the English ones
+ *
+ * @example
+ * ```ts
+ * findGenre('scary movies'); // { id: 'horror', ... }
+ * findGenre('comedias', { comedy: ['comedia', 'comedias'] }); // { id: 'comedy', ... }
+ * ```
+ */
+export function findGenre(name: string, aliases?: Record<string, string[]>): Genre | undefined {
+  const spoken = name.toLowerCase().replace(/-/g, ' ').trim();
+  // "drama movies" finds Drama without every alias needing a "… movies" form
+  const names = [spoken, spoken.replace(/ (?:movie|film)s?$/, '')];
+  return GENRES.find(({ id, name: displayName, aliases: english }) =>
+    names.some(
+      (wanted) =>
+        id.replace(/-/g, ' ') === wanted ||
+        displayName.toLowerCase() === wanted ||
+        english.includes(wanted) ||
+        !!aliases?.[id]?.includes(wanted)
+    )
+  );
+}
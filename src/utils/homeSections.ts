@@ -0,0 +1,69 @@
+import { getGenre } from './genres';
+
+/**
+ * Rows shown on the home page, shared by the page itself and voice navigation
+ * ("open new releases") so spoken names always resolve to a rendered row
+ */
+export interface HomeSection {
+  /** Anchor id of the row on the home page */
+  id: string;
+  /** Heading shown above the row */
+  title: string;
+  /** Catalog the row lists; defaults to movies */
+  source?: 'movies' | 'series';
+  /** `/api/movies` (or `/api/series`) query parameters selecting the row's titles */
+  query: Record<string, string>;
+  /** Spoken names that open this row */
+  aliases: string[];
+  /** Page with the whole list, linked as "See all" */
+  href?: string;
+}
+
+/**
+ * Genres with a row of their own on the home page, after the rows above.
+ * Spoken genre names open the genre's page rather than scrolling to its row.
+ */
+const HOME_GENRE_IDS = ['action', 'comedy', 'science-fiction', 'family', 'horror'];
+
+export const HOME_SECTIONS: HomeSection[] = [
+  {
+    id: 'trending',
+    title: 'Trending Now',
+    query: { sort: '-rating', limit: '10' },
+    aliases: ['trending', 'trending now', 'popular', 'whats trending', "what's trending"],
+  },
+  {
+    id: 'new-releases',
+    title: 'New Releases',
+    query: { sort: '-year', limit: '10' },
+    aliases: ['new releases', 'new release', 'new movies', 'latest', 'latest movies', 'whats new', "what's new"],
+  },
+  {
+    id: 'popular-shows',
+    title: 'Popular Shows',
+    source: 'series',
+    query: { sort: '-rating', limit: '10' },
+    aliases: ['popular shows', 'shows', 'tv shows', 'series', 'tv series'],
+  },
+  ...HOME_GENRE_IDS.map((genreId) => ({
+    id: `genre-${genreId}`,
+    title: getGenre(genreId)?.name ?? genreId,
+    query: { genre: genreId, sort: '-rating', limit: '10' },
+    aliases: [],
+    href: `/genre/${genreId}`,
+  })),
+];
+
+/**
+ * Find the home section a spoken name refers to
+ *
+ * @param name - Spoken section name
+ * @param aliases - Localised names by section id; defaults to each section's English aliases
+ */
+export function findHomeSection(
+  name: string,
+  aliases?: Record<string, string[]>
+): HomeSection | undefined {
+  const spoken = name.toLowerCase().trim();
+  return HOME_SECTIONS.find(({ id, aliases: english }) => (aliases?.[id] ?? english).includes(spoken));
+}
@@ -0,0 +1,153 @@
+/**
+ * Keyboard Shortcuts
+ * The player's shortcut map. Keys resolve to the same intents voice commands
+ * produce, so both run through one set of player actions; the few controls
+ * voice has no command for are named separately.
+ */
+
+import { PlayerIntent } from '@/types/voice';
+
+/** How far j / l seek */
+const JUMP_S = 10;
+
+/** How far the arrow keys seek */
+const ARROW_SEEK_S = 5;
+
+/** How much the arrow keys change the volume */
+const VOLUME_STEP = 5;
+
+/**
+ * Player controls with no voice intent
+ */
+export type PlayerControl = 'toggleVoice';
+
+/**
+ * What a shortcut does: run a player intent, or one of the other controls
+ */
+export type ShortcutAction =
+  | { kind: 'intent'; intent: PlayerIntent }
+  | { kind: 'control'; control: PlayerControl };
+
+/**
+ * Player state shortcuts that toggle or step depend on
+ */
+export interface ShortcutState {
+  paused: boolean;
+  /** Playback position in seconds */
+  currentTime: number;
+  /** Length of the title in seconds (NaN until known) */
+  duration: number;
+  muted: boolean;
+  /** Whether subtitles are showing */
+  subtitles: boolean;
+  fullscreen: boolean;
+  pictureInPicture: boolean;
+}
+
+export interface KeyboardShortcut {
+  /** `KeyboardEvent.key` values that trigger the shortcut */
+  keys: string[];
+  /** Keys as shown to the user */
+  label: string;
+  description: string;
+  action: (state: ShortcutState, key: string) => ShortcutAction;
+}
+
+const intent = (value: PlayerIntent): ShortcutAction => ({ kind: 'intent', intent: value });
+const control = (value: PlayerControl): ShortcutAction => ({ kind: 'control', control: value });
+
+const togglePlay = ({ paused }: ShortcutState) => intent({ type: paused ? 'play' : 'pause' });
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: [' ', 'k', 'K'], label: 'Space / K', description: 'Play or pause', action: togglePlay },
+  {
+    keys: ['j', 'J'],
+    label: 'J',
+    description: `Back ${JUMP_S} seconds`,
+    action: () => intent({ type: 'seekBy', seconds: -JUMP_S }),
+  },
+  {
+    keys: ['l', 'L'],
+    label: 'L',
+    description: `Forward ${JUMP_S} seconds`,
+    action: () => intent({ type: 'seekBy', seconds: JUMP_S }),
+  },
+  {
+    keys: ['ArrowLeft'],
+    label: '←',
+    description: `Back ${ARROW_SEEK_S} seconds`,
+    action: () => intent({ type: 'seekBy', seconds: -ARROW_SEEK_S }),
+  },
+  {
+    keys: ['ArrowRight'],
+    label: '→',
+    description: `Forward ${ARROW_SEEK_S} seconds`,
+    action: () => intent({ type: 'seekBy', seconds: ARROW_SEEK_S }),
+  },
+  {
+    keys: ['ArrowUp'],
+    label: '↑',
+    description: 'Volume up',
+    action: () => intent({ type: 'adjustVolume', percent: VOLUME_STEP }),
+  },
+  {
+    keys: ['ArrowDown'],
+    label: '↓',
+    description: 'Volume down',
+    action: () => intent({ type: 'adjustVolume', percent: -VOLUME_STEP }),
+  },
+  {
+    keys: ['m', 'M'],
+    label: 'M',
+    description: 'Mute or unmute',
+    action: ({ muted }) => intent({ type: 'setMuted', muted: !muted }),
+  },
+  {
+    keys: ['>', '<'],
+    label: '> / <',
+    description: 'Faster / slower',
+    action: (_, key) => intent({ type: 'stepPlaybackRate', steps: key === '>' ? 1 : -1 }),
+  },
+  {
+    keys: ['f', 'F'],
+    label: 'F',
+    description: 'Full screen',
+    action: ({ fullscreen }) => intent({ type: 'setFullscreen', enabled: !fullscreen }),
+  },
+  {
+    keys: ['p', 'P'],
+    label: 'P',
+    description: 'Picture in picture',
+    action: ({ pictureInPicture }) => intent({ type: 'setPictureInPicture', enabled: !pictureInPicture }),
+  },
+  {
+    keys: ['c', 'C'],
+    label: 'C',
+    description: 'Subtitles on or off',
+    action: ({ subtitles }) => intent({ type: 'setSubtitles', enabled: !subtitles }),
+  },
+  { keys: ['N'], label: 'Shift + N', description: 'Play the next title', action: () => intent({ type: 'playNext' }) },
+  { keys: ['v', 'V'], label: 'V', description: 'Voice control on or off', action: () => control('toggleVoice') },
+  {
+    keys: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+    label: '0–9',
+    description: 'Jump to 0%–90% of the title',
+    action: ({ duration }, key) =>
+      intent({ type: 'seekTo', seconds: Number.isFinite(duration) ? (duration * Number(key)) / 10 : 0 }),
+  },
+];
+
+/**
+ * The shortcut a key triggers, if any
+ */
+export function findShortcut(key: string): KeyboardShortcut | undefined {
+  return KEYBOARD_SHORTCUTS.find(({ keys }) => keys.includes(key));
+}
+
+/**
+ * Whether a keyboard event comes from a text field, where keys must type
+ * rather than trigger shortcuts or push-to-talk
+ */
+export const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { Movie } from '@/types/movie';
+import { queryMovies, readMovieQuery, MovieQuery } from './movieQuery';
+
+const movie = (title: string, description = ''): Movie =>
+  ({ id: title, slug: title, title, description, videoURL: '', year: 2020, rating: 7, duration: '1h' }) as Movie;
+
+const MOVIES = [
+  movie('Pokémon Detective Pikachu'),
+  movie('Spider-Man'),
+  movie('Hey Arnold', 'Okay, can you keep a secret?'),
+  movie('Man on Fire'),
+];
+
+const search = (q: string) => {
+  const query = readMovieQuery(new URLSearchParams({ q })) as MovieQuery;
+  return queryMovies(MOVIES, query).movies.map(({ title }) => title);
+};
+
+describe('queryMovies', () => {
+  it('ignores case and accents', () => {
+    expect(search('POKEMON')).toEqual(['Pokémon Detective Pikachu']);
+  });
+
+  it('treats punctuation as a word break', () => {
+    expect(search('spider man')).toEqual(['Spider-Man']);
+  });
+
+  it('keeps words that voice commands would strip', () => {
+    expect(search('hey')).toEqual(['Hey Arnold']);
+    expect(search('okay can you')).toEqual(['Hey Arnold']);
+  });
+
+  it('ranks by title match', () => {
+    expect(search('man')).toEqual(['Man on Fire', 'Spider-Man']);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Movie Query
+ * The query parameters `/api/movies` accepts: reading and validating them,
+ * then filtering, sorting, paging and trimming the catalog accordingly.
+ */
+
+import { Movie } from '@/types/movie';
+import { scoreTitleMatch } from './titleMatch';
+import { findGenre, GENRES } from './genres';
+
+/**
+ * Every accepted parameter and what it does, used for validation and in
+ * 400 responses
+ */
+export const MOVIE_QUERY_PARAMETERS = {
+  q: 'Words that must all appear in the title, description or cast; results are ranked by title match',
+  video: 'Exact videoURL; responds with that one movie, or 404',
+  year: 'Release year or range: 2018, 2010-2019, 2020- or -1999',
+  minRating: 'Lowest rating to include, 0 to 10',
+  cast: 'Part of a cast member\'s name, e.g. hemsworth',
+  genre: 'Genre the movie must have: its id, name or an alias, e.g. comedy, sci-fi or scary movies',
+  sort: 'title, year or rating; prefix with - for descending (e.g. -rating). Defaults to catalog order, or relevance with q',
+  limit: 'Most movies to return, 1 to 100',
+  cursor: 'Value of X-Next-Cursor from the previous page',
+  fields: 'Comma-separated Movie fields to include, e.g. title,year,thumbnail',
+} as const;
+
+export type MovieQueryParameter = keyof typeof MOVIE_QUERY_PARAMETERS;
+
+export const MOVIE_SORT_KEYS = ['title', 'year', 'rating'] as const;
+
+export type MovieSortKey = (typeof MOVIE_SORT_KEYS)[number];
+
+/** Fields `fields` may select */
+export const MOVIE_FIELDS: (keyof Movie)[] = [
+  'id',
+  'slug',
+  'previousSlugs',
+  'title',
+  'description',
+  'videoURL',
+  'renditions',
+  'manifest',
+  'year',
+  'rating',
+  'duration',
+  'cast',
+  'genres',
+  'thumbnail',
+  'subtitles',
+  'subtitleUrl',
+  'markers',
+  'chapters',
+  'chaptersUrl',
+  'thumbnailsUrl',
+];
+
+/** Largest page size */
+export const MAX_MOVIE_LIMIT = 100;
+
+/**
+ * A validated `/api/movies` query
+ */
+export interface MovieQuery {
+  q?: string;
+  video?: string;
+  /** Inclusive year range; either end may be open */
+  year?: { from?: number; to?: number };
+  minRating?: number;
+  cast?: string;
+  /** Genre id */
+  genre?: string;
+  sort?: { key: MovieSortKey; descending: boolean };
+  limit?: number;
+  /** Position in the filtered, sorted list to continue from */
+  offset: number;
+  fields?: (keyof Movie)[];
+}
+
+/**
+ * One page of results
+ */
+export interface MovieQueryResult {
+  movies: Partial<Movie>[];
+  /** Movies matching the filters, across all pages */
+  total: number;
+  /** Cursor for the next page, when there is one */
+  nextCursor?: string;
+}
+
+const YEAR_PATTERN = /^(\d{4})?(-)?(\d{4})?$/;
+
+/**
+ * Read and validate the query string
+ *
+ * @returns The query, or an error message for a 400 response
+ *
+ * @example
+ * ```ts
+ * readMovieQuery(new URLSearchParams('year=2010-2019&sort=-rating&limit=5'));
+ * // { year: { from: 2010, to: 2019 }, sort: { key: 'rating', descending: true }, limit: 5, offset: 0 }
+ * ```
+ */
+export function readMovieQuery(searchParams: URLSearchParams): MovieQuery | string {
+  const unknown = Array.from(new Set(searchParams.keys())).filter((name) => !(name in MOVIE_QUERY_PARAMETERS));
+  if (unknown.length > 0) {
+    return `Unknown parameter${unknown.length > 1 ? 's' : ''} ${unknown.map((name) => `"${name}"`).join(', ')}`;
+  }
+
+  const repeated = Array.from(new Set(searchParams.keys())).find((name) => searchParams.getAll(name).length > 1);
+  if (repeated) return `"${repeated}" may only be given once`;
+
+  const text = (name: MovieQueryParameter) => searchParams.get(name)?.trim() || undefined;
+  const query: MovieQuery = {
+    q: text('q'),
+    video: text('video'),
+    cast: text('cast'),
+    offset: 0,
+  };
+
+  const genre = text('genre');
+  if (genre !== undefined) {
+    query.genre = findGenre(genre)?.id;
+    if (!query.genre) return `"genre" must be one of ${GENRES.map(({ id }) => id).join(', ')}`;
+  }
+
+  const year = text('year');
+  if (year !== undefined) {
+    const match = YEAR_PATTERN.exec(year);
+    const from = match?.[1] ? Number(match[1]) : undefined;
+    const to = match?.[3] ? Number(match[3]) : match?.[2] ? undefined : from;
+    if (!match || (from === undefined && to === undefined) || (from !== undefined && to !== undefined && from > to)) {
+      return `"year" must be a year or range such as 2018, 2010-2019, 2020- or -1999`;
+    }
+    query.year = { from, to };
+  }
+
+  const minRating = text('minRating');
+  if (minRating !== undefined) {
+    query.minRating = Number(minRating);
+    if (!Number.isFinite(query.minRating) || query.minRating < 0 || query.minRating > 10) {
+      return `"minRating" must be a number from 0 to 10`;
+    }
+  }
+
+  const sort = text('sort');
+  if (sort !== undefined) {
+    const key = sort.replace(/^-/, '') as MovieSortKey;
+    if (!MOVIE_SORT_KEYS.includes(key)) {
+      return `"sort" must be one of ${MOVIE_SORT_KEYS.join(', ')}, optionally prefixed with -`;
+    }
+    query.sort = { key, descending: sort.startsWith('-') };
+  }
+
+  const limit = text('limit');
+  if (limit !== undefined) {
+    query.limit = Number(limit);
+    if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > MAX_MOVIE_LIMIT) {
+      return `"limit" must be a whole number from 1 to ${MAX_MOVIE_LIMIT}`;
+    }
+  }
+
+  const cursor = text('cursor');
+  if (cursor !== undefined) {
+    query.offset = Number(cursor);
+    if (!/^\d+$/.test(cursor) || !Number.isSafeInteger(query.offset)) {
+      return `"cursor" must be the X-Next-Cursor value of a previous response`;
+    }
+  }
+
+  const fields = text('fields');
+  if (fields !== undefined) {
+    const names = fields.split(',').map((field) => field.trim()).filter(Boolean);
+    const invalid = names.filter((field) => !MOVIE_FIELDS.includes(field as keyof Movie));
+    if (names.length === 0 || invalid.length > 0) {
+      return `"fields" must list fields from ${MOVIE_FIELDS.join(', ')}`;
+    }
+    query.fields = names as (keyof Movie)[];
+  }
+
+  return query;
+}
+
+/**
+ * Case- and accent-free words separated by single spaces, so "pokemon"
+ * finds "Pokémon" and "spider man" finds "Spider-Man"
+ */
+const normalize = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Whether a movie passes every filter of the query
+ */
+function matchesFilters(movie: Movie, query: MovieQuery, searchTerms: string[]): boolean {
+  if (query.video && movie.videoURL !== query.video) return false;
+  if (query.year?.from !== undefined && movie.year < query.year.from) return false;
+  if (query.year?.to !== undefined && movie.year > query.year.to) return false;
+  if (query.minRating !== undefined && !(movie.rating >= query.minRating)) return false;
+
+  if (query.cast) {
+    const name = query.cast.toLowerCase();
+    if (!movie.cast?.some((member) => member.toLowerCase().includes(name))) return false;
+  }
+
+  if (query.genre && !movie.genres?.includes(query.genre)) return false;
+
+  if (searchTerms.length > 0) {
+    const haystack = normalize([movie.title, movie.description, ...(movie.cast ?? [])].join(' '));
+    if (!searchTerms.every((term) => haystack.includes(term))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filter, sort and page the catalog for a query, keeping only the requested fields
+ */
+export function queryMovies(movies: Movie[], query: MovieQuery): MovieQueryResult {
+  const { q } = query;
+  const searchTerms = q ? normalize(q).split(' ').filter(Boolean) : [];
+  let matches = movies.filter((movie) => matchesFilters(movie, query, searchTerms));
+
+  if (query.sort) {
+    const { key, descending } = query.sort;
+    const direction = descending ? -1 : 1;
+    matches.sort((a, b) => {
+      const order = key === 'title' ? a.title.localeCompare(b.title) : (a[key] ?? 0) - (b[key] ?? 0);
+      return order * direction;
+    });
+  } else if (q) {
+    matches = matches
+      .map((movie) => ({ movie, score: scoreTitleMatch(q, movie.title) }))
+      .sort((a, b) => b.score - a.score)
+      .map(({ movie }) => movie);
+  }
+
+  const end = query.limit === undefined ? matches.length : query.offset + query.limit;
+  const page = matches.slice(query.offset, end);
+  const { fields } = query;
+
+  return {
+    movies: fields
+      ? page.map((movie) => Object.fromEntries(fields.filter((field) => field in movie).map((field) => [field, movie[field]])))
+      : page,
+    total: matches.length,
+    nextCursor: end < matches.length ? String(end) : undefined,
+  };
+}
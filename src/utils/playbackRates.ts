@@ -0,0 +1,42 @@
+/**
+ * Playback Rates
+ * The speeds offered in the player, and stepping between them for
+ * "faster" / "slower".
+ */
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+/** Normal speed */
+export const DEFAULT_PLAYBACK_RATE = 1;
+
+/**
+ * The offered speed a number of steps faster (positive) or slower than the
+ * current one, stopping at the fastest and slowest
+ *
+ * @example
+ * ```ts
+ * stepPlaybackRate(1, 1); // 1.25
+ * stepPlaybackRate(1.1, -1); // 1 (a speed between steps first moves to the nearest one)
+ * ```
+ */
+export function stepPlaybackRate(rate: number, steps: number): number {
+  if (steps === 0) return rate;
+
+  const faster = steps > 0;
+  const ordered = faster ? PLAYBACK_RATES : [...PLAYBACK_RATES].reverse();
+  const next = ordered.findIndex((candidate) => (faster ? candidate > rate : candidate < rate));
+  if (next === -1) return ordered[ordered.length - 1];
+  return ordered[Math.min(ordered.length - 1, next + Math.abs(steps) - 1)];
+}
+
+/**
+ * Keep a requested speed within what browsers play well
+ */
+export const clampPlaybackRate = (rate: number): number =>
+  Math.min(PLAYBACK_RATES[PLAYBACK_RATES.length - 1], Math.max(PLAYBACK_RATES[0], rate));
+
+/**
+ * Format a speed for display, e.g. '1.5×' or 'Normal'
+ */
+export const formatPlaybackRate = (rate: number): string =>
+  rate === DEFAULT_PLAYBACK_RATE ? 'Normal' : `${rate}×`;
@@ -0,0 +1,118 @@
+/**
+ * Series
+ * Finding your way around a series: its episodes in viewing order, an
+ * episode with its neighbours, how seasons and episodes are labelled, and
+ * the listing `/api/series` serves.
+ */
+
+import { EpisodeDetail, EpisodeRef, Season, Series, SeriesSummary } from '@/types/series';
+import { MOVIE_QUERY_PARAMETERS, readMovieQuery } from './movieQuery';
+
+/**
+ * Every episode of a series in viewing order: by season number, then
+ * episode number
+ */
+export function listEpisodes(series: Series): EpisodeRef[] {
+  return [...series.seasons]
+    .sort((a, b) => a.number - b.number)
+    .flatMap((season) =>
+      [...season.episodes]
+        .sort((a, b) => a.number - b.number)
+        .map(({ id, number, title }) => ({ id, season: season.number, number, title }))
+    );
+}
+
+/**
+ * An episode of the series with where it sits, or undefined if the series
+ * has no episode with that id
+ */
+export function episodeDetail(series: Series, episodeId: string): EpisodeDetail | undefined {
+  const season = series.seasons.find(({ episodes }) => episodes.some(({ id }) => id === episodeId));
+  const episode = season?.episodes.find(({ id }) => id === episodeId);
+  if (!season || !episode) return undefined;
+
+  const episodes = listEpisodes(series);
+  const position = episodes.findIndex(({ id }) => id === episodeId);
+  return {
+    series: { id: series.id, slug: series.slug, title: series.title, year: series.year, thumbnail: series.thumbnail },
+    season: season.number,
+    episode,
+    previous: episodes[position - 1],
+    next: episodes[position + 1],
+    episodes,
+  };
+}
+
+/**
+ * The episode at a season and episode number
+ *
+ * @example
+ * ```ts
+ * findEpisodeRef(detail.episodes, 2, 3); // { id: 'sample-series-s02e03', season: 2, number: 3, ... }
+ * ```
+ */
+export const findEpisodeRef = (episodes: EpisodeRef[], season: number, number: number): EpisodeRef | undefined =>
+  episodes.find((episode) => episode.season === season && episode.number === number);
+
+/**
+ * The name a season is shown under: its own title, or "Season N"
+ */
+export const seasonLabel = (season: Pick<Season, 'number' | 'title'>): string => season.title ?? `Season ${season.number}`;
+
+/**
+ * Short season and episode label
+ *
+ * @example
+ * ```ts
+ * formatEpisodeNumber(2, 3); // 'S2 E3'
+ * ```
+ */
+export const formatEpisodeNumber = (season: number, episode: number): string => `S${season} E${episode}`;
+
+/**
+ * A series without its episodes, for listings
+ */
+export const summarizeSeries = ({ seasons, ...series }: Series): SeriesSummary => ({
+  ...series,
+  seasons: seasons.map(({ number }) => number).sort((a, b) => a - b),
+  episodeCount: seasons.reduce((count, { episodes }) => count + episodes.length, 0),
+});
+
+/**
+ * Every parameter `/api/series` accepts and what it does, used for
+ * validation and in 400 responses
+ */
+export const SERIES_QUERY_PARAMETERS = {
+  genre: MOVIE_QUERY_PARAMETERS.genre.replace('movie', 'series'),
+  sort: 'title, year or rating; prefix with - for descending (e.g. -rating). Defaults to catalog order',
+  limit: 'Most series to return, 1 to 100',
+} as const;
+
+/**
+ * Read the `/api/series` query string and list the series it selects
+ *
+ * @returns Summaries of the matching series, or an error message for a 400 response
+ *
+ * @example
+ * ```ts
+ * querySeries(series, new URLSearchParams('sort=-rating&limit=10'));
+ * ```
+ */
+export function querySeries(series: Series[], searchParams: URLSearchParams): SeriesSummary[] | string {
+  const unknown = Array.from(new Set(searchParams.keys())).filter((name) => !(name in SERIES_QUERY_PARAMETERS));
+  if (unknown.length > 0) {
+    return `Unknown parameter${unknown.length > 1 ? 's' : ''} ${unknown.map((name) => `"${name}"`).join(', ')}`;
+  }
+
+  // The same rules as /api/movies, so ?genre=sci-fi&sort=-rating means the same on both
+  const query = readMovieQuery(searchParams);
+  if (typeof query === 'string') return query;
+
+  const matches = series.filter((entry) => !query.genre || entry.genres?.includes(query.genre));
+  if (query.sort) {
+    const { key, descending } = query.sort;
+    const direction = descending ? -1 : 1;
+    matches.sort((a, b) => (key === 'title' ? a.title.localeCompare(b.title) : a[key] - b[key]) * direction);
+  }
+  return matches.slice(0, query.limit).map(summarizeSeries);
+}
@@ -0,0 +1,32 @@
+/**
+ * Title Slugs
+ * URL-safe names for titles, and the ids older links were built from.
+ */
+
+/**
+ * Lowercase, accent-free words joined by hyphens, for use in URLs
+ *
+ * @example
+ * ```ts
+ * slugify('Captain America: Brave New World'); // 'captain-america-brave-new-world'
+ * slugify('Pokémon'); // 'pokemon'
+ * ```
+ */
+export const slugify = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * The id a title had before movies carried their own, still found in old
+ * links and bookmarks; punctuation was kept as is
+ *
+ * @example
+ * ```ts
+ * legacyTitleId('Captain America: Brave New World'); // 'captain-america:-brave-new-world'
+ * ```
+ */
+export const legacyTitleId = (title: string): string => title.toLowerCase().replace(/\s+/g, '-');
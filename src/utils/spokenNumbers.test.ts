@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSpokenNumbers } from './spokenNumbers';
+
+describe('normalizeSpokenNumbers', () => {
+  it.each([
+    ['go back two minutes', 'go back 2 minutes'],
+    ['volume forty five percent', 'volume 45 percent'],
+    ['one hundred and five', '105'],
+    ['one hundred twenty five', '125'],
+    ['two thousand five hundred', '2500'],
+    ['one thousand twenty one', '1021'],
+    ['a hundred seconds', '100 seconds'],
+    ['rewind a minute', 'rewind 1 minute'],
+    ['play a bug s life', 'play a bug s life'],
+    // A unit after a unit, or a ten after a ten, starts a new number
+    ['season one five', 'season 1 5'],
+    ['fifteen two', '15 2'],
+    ['twenty thirty', '20 30'],
+    ['zero five', '0 5'],
+  ])('%s', (text, expected) => {
+    expect(normalizeSpokenNumbers(text)).toBe(expected);
+  });
+});
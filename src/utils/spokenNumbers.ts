@@ -0,0 +1,132 @@
+/**
+ * Spoken Number Normalisation
+ * Rewrites number words in a transcript ("two minutes", "one hundred and five")
+ * as digits so command patterns only have to deal with numerals. The words
+ * themselves come from a per-language {@link NumberVocabulary}.
+ */
+
+/**
+ * Number words of one language
+ */
+export interface NumberVocabulary {
+  /** Words with an additive value, e.g. "five", "twenty", "veinticinco" */
+  words: Record<string, number>;
+  /** Multipliers; values below 1000 multiply the current group ("two hundred") */
+  scales: Record<string, number>;
+  /** Words that may join parts of one number ("one hundred and five", "treinta y dos") */
+  conjunctions: string[];
+  /** Articles that mean "one" directly before a time unit or scale ("a minute", "una hora", "a hundred") */
+  indefiniteArticles: string[];
+  /** Time unit words that an indefinite article may precede */
+  unitNouns: string[];
+  /** Optional rewrite applied first, e.g. to split German compounds */
+  preprocess?: (text: string) => string;
+}
+
+/**
+ * English number words
+ */
+export const ENGLISH_NUMBERS: NumberVocabulary = {
+  words: {
+    zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+    eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13,
+    fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+    nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60,
+    seventy: 70, eighty: 80, ninety: 90,
+  },
+  scales: {
+    hundred: 100,
+    thousand: 1000,
+  },
+  conjunctions: ['and'],
+  indefiniteArticles: ['a', 'an'],
+  unitNouns: ['hour', 'hours', 'hr', 'hrs', 'minute', 'minutes', 'min', 'mins', 'second', 'seconds', 'sec', 'secs'],
+};
+
+/**
+ * Replace runs of number words with their numeric value.
+ * Tokens that are not part of a number are passed through untouched.
+ *
+ * @param text - Lower-cased transcript
+ * @param vocabulary - Number words of the transcript's language (defaults to English)
+ * @returns Transcript with number words replaced by digits
+ *
+ * @example
+ * ```ts
+ * normalizeSpokenNumbers('go back two minutes'); // 'go back 2 minutes'
+ * normalizeSpokenNumbers('volume forty five percent'); // 'volume 45 percent'
+ * normalizeSpokenNumbers('season one five'); // 'season 1 5'
+ * normalizeSpokenNumbers('a hundred seconds'); // '100 seconds'
+ * ```
+ */
+export function normalizeSpokenNumbers(
+  text: string,
+  vocabulary: NumberVocabulary = ENGLISH_NUMBERS
+): string {
+  const { words, scales, conjunctions, indefiniteArticles, unitNouns, preprocess } = vocabulary;
+  const prepared = preprocess ? preprocess(text) : text;
+  const tokens = prepared.replace(/-/g, ' ').split(/\s+/).filter(Boolean);
+  const output: string[] = [];
+
+  const isNumberWord = (word: string): boolean => word in words || word in scales;
+
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+  // Set after a conjunction, which joins whatever follows ("fünf und zwanzig")
+  let joined = false;
+
+  const flush = () => {
+    if (inNumber) {
+      output.push(String(total + current));
+    }
+    total = 0;
+    current = 0;
+    inNumber = false;
+    joined = false;
+  };
+
+  /**
+   * Whether a number word starts a new number rather than adding to the
+   * current one: "twenty five" is 25 and "soixante dix" 70, but "one five",
+   * "fifteen two" and "twenty thirty" are two numbers each
+   */
+  const startsNewNumber = (value: number): boolean =>
+    inNumber && !joined && (current > 0 ? current % 10 !== 0 || value >= current : total === 0);
+
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+
+    if (token in words) {
+      if (startsNewNumber(words[token])) flush();
+      current += words[token];
+      inNumber = true;
+      joined = false;
+    } else if (token in scales) {
+      const scale = scales[token];
+      if (scale < 1000) {
+        current = (current || 1) * scale;
+      } else {
+        total += (current || 1) * scale;
+        current = 0;
+      }
+      inNumber = true;
+      joined = false;
+    } else if (conjunctions.includes(token) && inNumber && next !== undefined && isNumberWord(next)) {
+      // "one hundred and five" keeps going; "one hour and five minutes" does not
+      // reach here because "hour" already closed the number
+      joined = true;
+    } else if (indefiniteArticles.includes(token) && !inNumber && next !== undefined && unitNouns.includes(next)) {
+      output.push('1');
+    } else if (indefiniteArticles.includes(token) && !inNumber && next !== undefined && next in scales) {
+      current = 1;
+      inNumber = true;
+    } else {
+      flush();
+      output.push(token);
+    }
+  });
+
+  flush();
+  return output.join(' ');
+}
@@ -0,0 +1,449 @@
+/**
+ * Subtitle Conversion
+ * Normalises subtitle files to WebVTT, the only format the `<track>` element
+ * plays. SRT, ASS/SSA and WebVTT input are parsed into cues, shifted by an
+ * optional timing offset and written back out as WebVTT. SRT markup is
+ * reduced to the tags WebVTT supports (b, i, u); ASS override tags are mapped
+ * to those tags and to cue positions where there is an equivalent, and
+ * dropped otherwise. The module has no DOM dependencies and runs on the server.
+ */
+
+export type SubtitleFormat = 'srt' | 'ass' | 'vtt';
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'ass', 'vtt'];
+
+/**
+ * One timed piece of subtitle text
+ */
+export interface SubtitleCue {
+  /** Start time in milliseconds */
+  start: number;
+  /** End time in milliseconds */
+  end: number;
+  /** Text with WebVTT markup (b, i, u) and line breaks */
+  text: string;
+  /** WebVTT cue settings such as "line:5% align:start" */
+  settings?: string;
+}
+
+/**
+ * Raised when a file cannot be read as any supported subtitle format
+ */
+export class SubtitleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubtitleFormatError';
+  }
+}
+
+/**
+ * Decoded text and the encoding it was read with
+ */
+export interface DecodedSubtitle {
+  text: string;
+  encoding: string;
+}
+
+/** Used when a file is neither valid UTF-8 nor UTF-16; covers most Western subtitle files */
+const FALLBACK_ENCODING = 'windows-1252';
+
+/**
+ * Decode subtitle bytes, detecting the encoding: a byte order mark first,
+ * then UTF-16 by its zero bytes, then strict UTF-8, and finally Windows-1252
+ *
+ * @param bytes - Raw file contents
+ * @param charset - Encoding to use instead of detecting one, e.g. 'windows-1251'
+ * @throws RangeError when `charset` is not a known encoding
+ */
+export function decodeSubtitleBytes(bytes: ArrayBuffer | Uint8Array, charset?: string): DecodedSubtitle {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+
+  if (charset) {
+    const decoder = new TextDecoder(charset);
+    return { text: decoder.decode(data), encoding: decoder.encoding };
+  }
+
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(data), encoding: 'utf-8' };
+  }
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(data), encoding: 'utf-16le' };
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(data), encoding: 'utf-16be' };
+  }
+
+  // Without a BOM, UTF-16 text in a Latin script has a zero in every other byte
+  const sample = data.subarray(0, 512);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte === 0) {
+      if (index % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  });
+  if (oddZeros > sample.length / 4 && evenZeros === 0) {
+    return { text: new TextDecoder('utf-16le').decode(data), encoding: 'utf-16le' };
+  }
+  if (evenZeros > sample.length / 4 && oddZeros === 0) {
+    return { text: new TextDecoder('utf-16be').decode(data), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(data), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder(FALLBACK_ENCODING).decode(data), encoding: FALLBACK_ENCODING };
+  }
+}
+
+/**
+ * Guess the format of a subtitle file from its contents
+ *
+ * @returns The format, or null when the text looks like none of them
+ */
+export function detectSubtitleFormat(text: string): SubtitleFormat | null {
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (/^WEBVTT(?:[ \t]|$)/m.test(head.slice(0, 16))) return 'vtt';
+  if (/^\[Script Info\]/im.test(head) || /^Dialogue:/m.test(text)) return 'ass';
+  if (/\d+:\d{2}:\d{2}[,.]\d{1,3}\s*-->\s*\d+:\d{2}:\d{2}[,.]\d{1,3}/.test(text)) return 'srt';
+  return null;
+}
+
+/**
+ * Parse "01:02:03,456", "01:02:03.456", "02:03.456" or ASS "1:02:03.45" into milliseconds
+ */
+const parseTime = (time: string): number => {
+  const [clock, fraction = '0'] = time.trim().split(/[,.]/);
+  const seconds = clock.split(':').map(Number).reduce((sum, part) => sum * 60 + part, 0);
+  return seconds * 1000 + Math.round(Number(`0.${fraction}`) * 1000);
+};
+
+/**
+ * Format milliseconds as a WebVTT timestamp, "01:02:03.456"
+ */
+const formatTime = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+};
+
+/**
+ * Escape text for a WebVTT cue; escaping ">" also keeps "-->" from ending the cue
+ */
+const escapeText = (text: string): string =>
+  text
+    .replace(/&(?![a-z]+;|#\d+;|#x[\da-f]+;)/gi, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Keep only the markup WebVTT understands and escape everything else
+ */
+const sanitizeText = (text: string): string =>
+  text
+    // ASS-style overrides some SRT files carry, e.g. {\an8}
+    .replace(/\{\\[^}]*\}/g, '')
+    // Odd parts are b/i/u tags (attributes dropped), even parts are text
+    .split(/(<\/?[biu](?:\s[^>]*)?>)/i)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part.replace(/^<(\/?)([biu]).*$/i, (_, slash: string, tag: string) => `<${slash}${tag.toLowerCase()}>`)
+        : escapeText(part.replace(/<[^>]*>/g, ''))
+    )
+    .join('')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+
+const TIMING_LINE = /^\s*(\d+:\d{2}(?::\d{2})?[,.]\d{1,3})\s*-->\s*(\d+:\d{2}(?::\d{2})?[,.]\d{1,3})(.*)$/;
+
+/**
+ * Parse SubRip (.srt) text into cues
+ */
+export function parseSrt(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .forEach((block) => {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+      if (timingIndex === -1) return;
+
+      const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+      const cueText = sanitizeText(lines.slice(timingIndex + 1).join('\n'));
+      if (cueText) {
+        cues.push({ start: parseTime(start), end: parseTime(end), text: cueText });
+      }
+    });
+
+  return cues;
+}
+
+/**
+ * Parse WebVTT text into cues, keeping cue settings
+ */
+export function parseVtt(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .forEach((block) => {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex((line) => line.includes('-->'));
+      if (timingIndex === -1 || /^(?:NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+      const match = lines[timingIndex].match(TIMING_LINE);
+      if (!match) return;
+      const [, start, end, settings] = match;
+      const cueText = lines.slice(timingIndex + 1).join('\n').trim();
+      if (cueText) {
+        cues.push({
+          start: parseTime(start),
+          end: parseTime(end),
+          text: cueText,
+          settings: settings.trim() || undefined,
+        });
+      }
+    });
+
+  return cues;
+}
+
+/**
+ * WebVTT settings for an ASS numpad alignment (\an1-\an9): 7-9 are top, 4-6
+ * middle, 1-3 bottom; 1/4/7 left, 3/6/9 right
+ */
+const alignmentSettings = (alignment: number): string | undefined => {
+  const settings: string[] = [];
+  if (alignment >= 7) settings.push('line:5%');
+  else if (alignment >= 4) settings.push('line:50%');
+  if (alignment % 3 === 1) settings.push('align:start');
+  else if (alignment % 3 === 0) settings.push('align:end');
+  return settings.length > 0 ? settings.join(' ') : undefined;
+};
+
+/**
+ * Split a comma-separated ASS line into a fixed number of fields; the last
+ * field (the dialogue text) keeps its commas
+ */
+const splitFields = (line: string, count: number): string[] => {
+  const fields = line.split(',');
+  return [...fields.slice(0, count - 1), fields.slice(count - 1).join(',')].map((field) => field.trim());
+};
+
+interface AssStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  alignment: number;
+}
+
+/** ASS style flags are -1 (or 1) for on and 0 for off */
+const isOn = (value: string | undefined): boolean => value !== undefined && value !== '0' && value !== '';
+
+/**
+ * Convert ASS dialogue text to WebVTT markup, returning any alignment override
+ */
+const convertAssText = (text: string, style: AssStyle | undefined): { text: string; alignment?: number } => {
+  let alignment: number | undefined;
+  const open = new Set<string>();
+  const toggle = (tag: string, on: boolean): string => {
+    if (on === open.has(tag)) return '';
+    if (on) open.add(tag);
+    else open.delete(tag);
+    return on ? `<${tag}>` : `</${tag}>`;
+  };
+
+  let output = [
+    style?.bold ? toggle('b', true) : '',
+    style?.italic ? toggle('i', true) : '',
+    style?.underline ? toggle('u', true) : '',
+  ].join('');
+
+  const body = text
+    // Drawings ({\p1} ... {\p0}) are vector shapes, not text
+    .replace(/\{[^}]*\\p[1-9][^}]*\}.*?(?:\{[^}]*\\p0[^}]*\}|$)/g, '')
+    .replace(/\{([^}]*)\}/g, (_, overrides: string) => {
+      let markup = '';
+      overrides.split('\\').forEach((override) => {
+        const tag = override.match(/^(b|i|u)(\d*)$/);
+        if (tag) {
+          const value = tag[2] === '' ? 1 : Number(tag[2]);
+          // \b also takes font weights (400 normal, 700 bold)
+          markup += toggle(tag[1], tag[1] === 'b' ? value === 1 || value >= 600 : value === 1);
+          return;
+        }
+        const an = override.match(/^an([1-9])$/);
+        if (an) alignment = Number(an[1]);
+        const legacy = override.match(/^a(\d{1,2})$/);
+        if (legacy && alignment === undefined) {
+          // SSA alignment: 1-3 bottom, +4 top, +8 middle
+          const value = Number(legacy[1]);
+          const column = ((value - 1) % 4) + 1;
+          alignment = value >= 9 ? column + 3 : value >= 5 ? column + 6 : column;
+        }
+      });
+      return `\u0000${markup}\u0001`;
+    })
+    .replace(/\\[Nn]/g, '\n')
+    .replace(/\\h/g, ' ');
+
+  // Escape the text between markup runs only
+  output += body
+    .split(/(\u0000[^\u0001]*\u0001)/)
+    .map((part) => (part.startsWith('\u0000') ? part.slice(1, -1) : escapeText(part)))
+    .join('');
+
+  output += ['u', 'i', 'b'].filter((tag) => open.has(tag)).map((tag) => `</${tag}>`).join('');
+
+  return {
+    text: output.split('\n').map((line) => line.trim()).join('\n').trim(),
+    alignment: alignment ?? style?.alignment,
+  };
+};
+
+/**
+ * Parse Advanced SubStation Alpha (.ass) or SubStation Alpha (.ssa) text into cues
+ */
+export function parseAss(text: string): SubtitleCue[] {
+  const styles = new Map<string, AssStyle>();
+  const cues: SubtitleCue[] = [];
+  let section = '';
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .forEach((rawLine) => {
+      const line = rawLine.trim();
+      const header = line.match(/^\[(.+)\]$/);
+      if (header) {
+        section = header[1].toLowerCase();
+        return;
+      }
+
+      const separator = line.indexOf(':');
+      if (separator === -1) return;
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1);
+
+      if (section.endsWith('styles')) {
+        if (key === 'format') {
+          styleFormat = value.split(',').map((field) => field.trim().toLowerCase());
+        } else if (key === 'style' && styleFormat.length > 0) {
+          const fields = splitFields(value, styleFormat.length);
+          const field = (name: string) => fields[styleFormat.indexOf(name)];
+          const alignment = Number(field('alignment')) || 2;
+          styles.set(field('name'), {
+            bold: isOn(field('bold')),
+            italic: isOn(field('italic')),
+            underline: isOn(field('underline')),
+            // SSA v4 styles use the legacy alignment numbers
+            alignment: section === 'v4 styles' && alignment > 3
+              ? alignment >= 9 ? alignment - 5 : alignment + 2
+              : alignment,
+          });
+        }
+        return;
+      }
+
+      if (section === 'events') {
+        if (key === 'format') {
+          eventFormat = value.split(',').map((field) => field.trim().toLowerCase());
+        } else if (key === 'dialogue' && eventFormat.length > 0) {
+          const fields = splitFields(value, eventFormat.length);
+          const field = (name: string) => fields[eventFormat.indexOf(name)];
+          const converted = convertAssText(field('text') ?? '', styles.get((field('style') ?? '').replace(/^\*/, '')));
+          if (converted.text) {
+            cues.push({
+              start: parseTime(field('start')),
+              end: parseTime(field('end')),
+              text: converted.text,
+              settings: converted.alignment ? alignmentSettings(converted.alignment) : undefined,
+            });
+          }
+        }
+      }
+    });
+
+  if (cues.length === 0 && eventFormat.length === 0) {
+    throw new SubtitleFormatError('No [Events] section with a Format line found');
+  }
+
+  return cues.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * Shift cues by an offset, dropping those that end before the start
+ *
+ * @param offsetMs - Positive values show subtitles later, negative earlier
+ */
+export function shiftCues(cues: SubtitleCue[], offsetMs: number): SubtitleCue[] {
+  if (!offsetMs) return cues;
+  return cues
+    .map((cue) => ({ ...cue, start: Math.max(0, cue.start + offsetMs), end: cue.end + offsetMs }))
+    .filter((cue) => cue.end > 0);
+}
+
+/**
+ * Write cues as a WebVTT file
+ */
+export function formatWebVtt(cues: SubtitleCue[]): string {
+  const blocks = cues
+    .filter((cue) => cue.end > cue.start)
+    .map((cue, index) => {
+      const timing = `${formatTime(cue.start)} --> ${formatTime(cue.end)}${cue.settings ? ` ${cue.settings}` : ''}`;
+      return `${index + 1}\n${timing}\n${cue.text}`;
+    });
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+const PARSERS: Record<SubtitleFormat, (text: string) => SubtitleCue[]> = {
+  srt: parseSrt,
+  ass: parseAss,
+  vtt: parseVtt,
+};
+
+/**
+ * Convert SRT, ASS/SSA or WebVTT text to WebVTT
+ *
+ * @param text - Decoded subtitle file
+ * @param options.format - Input format; detected from the contents when omitted
+ * @param options.offsetMs - Timing correction applied to every cue
+ * @throws SubtitleFormatError when the format cannot be detected or the file has no cues
+ *
+ * @example
+ * ```ts
+ * convertToWebVtt('1\n00:00:01,000 --> 00:00:02,500\n<font color="red">Hi</font>', { offsetMs: 500 });
+ * // 'WEBVTT\n\n1\n00:00:01.500 --> 00:00:03.000\nHi\n'
+ * ```
+ */
+export function convertToWebVtt(
+  text: string,
+  { format, offsetMs = 0 }: { format?: SubtitleFormat; offsetMs?: number } = {}
+): { vtt: string; format: SubtitleFormat; cueCount: number } {
+  const sourceFormat = format ?? detectSubtitleFormat(text);
+  if (!sourceFormat) {
+    throw new SubtitleFormatError('Unrecognised subtitle format; expected SRT, ASS/SSA or WebVTT');
+  }
+
+  const cues = shiftCues(PARSERS[sourceFormat](text), offsetMs);
+  if (cues.length === 0) {
+    throw new SubtitleFormatError(`No cues found in ${sourceFormat.toUpperCase()} file`);
+  }
+
+  return { vtt: formatWebVtt(cues), format: sourceFormat, cueCount: cues.length };
+}
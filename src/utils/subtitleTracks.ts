@@ -0,0 +1,87 @@
+/**
+ * Subtitle Tracks
+ * Choosing which of a title's subtitle tracks to show from the user's
+ * remembered preference, and naming tracks and languages for display.
+ */
+
+import { Movie, SubtitleTrack } from '@/types/movie';
+import { SubtitlePreference } from '@/types/playerSettings';
+
+/**
+ * A movie's or episode's subtitle tracks, including the single English file
+ * of entries that still use the old `subtitleUrl` field
+ */
+export function getSubtitleTracks(movie: Pick<Movie, 'subtitles' | 'subtitleUrl'>): SubtitleTrack[] {
+  if (movie.subtitles) return movie.subtitles;
+  if (movie.subtitleUrl) {
+    return [{ language: 'en', label: 'English', kind: 'subtitles', url: movie.subtitleUrl }];
+  }
+  return [];
+}
+
+/** Primary language subtag, e.g. 'pt' for 'pt-BR' */
+const primaryLanguage = (tag: string): string => tag.split('-')[0].toLowerCase();
+
+/**
+ * Find the best track for a language: the exact tag first, then any region
+ * of the same language, preferring SDH tracks only when asked to
+ *
+ * @example
+ * ```ts
+ * findSubtitleTrack(tracks, 'es'); // the 'es-MX' track if there is no plain 'es'
+ * ```
+ */
+export function findSubtitleTrack(tracks: SubtitleTrack[], language: string, sdh = false): SubtitleTrack | undefined {
+  const candidates = [
+    ...tracks.filter((track) => track.language.toLowerCase() === language.toLowerCase()),
+    ...tracks.filter((track) => primaryLanguage(track.language) === primaryLanguage(language)),
+  ];
+  return candidates.find((track) => Boolean(track.sdh) === sdh) ?? candidates[0];
+}
+
+/**
+ * The track to show for a preference: the preferred language when the title
+ * has it, otherwise its first track; none when subtitles are off
+ */
+export function pickSubtitleTrack(tracks: SubtitleTrack[], preference: SubtitlePreference): SubtitleTrack | undefined {
+  if (!preference.enabled || tracks.length === 0) return undefined;
+  return (preference.language && findSubtitleTrack(tracks, preference.language, preference.sdh)) || tracks[0];
+}
+
+/**
+ * URL to give the `<track>` element: WebVTT files without an offset are used
+ * as they are, everything else goes through the conversion route
+ *
+ * @example
+ * ```ts
+ * subtitleTrackSource({ ..., url: '/subtitles/movie.es.srt', offset: -1500 });
+ * // '/api/subtitles?src=%2Fsubtitles%2Fmovie.es.srt&offset=-1500'
+ * ```
+ */
+export function subtitleTrackSource({ url, offset }: SubtitleTrack): string {
+  const isWebVtt = /\.vtt$/i.test(url.split(/[?#]/)[0]);
+  if (isWebVtt && !offset) return url;
+
+  const params = new URLSearchParams({ src: url });
+  if (offset) params.set('offset', String(Math.round(offset)));
+  return `/api/subtitles?${params}`;
+}
+
+/**
+ * English name of a language, e.g. 'Spanish' for 'es'
+ */
+export function languageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * Label for the track picker, e.g. "English (SDH)" or "Español (CC)"
+ */
+export function formatTrackLabel({ label, kind, sdh }: SubtitleTrack): string {
+  if (sdh) return `${label} (SDH)`;
+  return kind === 'captions' ? `${label} (CC)` : label;
+}
@@ -0,0 +1,192 @@
+/**
+ * Playback Telemetry
+ * Checking the playback events the player reports, and aggregating them into
+ * per-title quality of experience: startup time, stalls, errors, seeks,
+ * bitrate and watch time.
+ */
+
+import { PlaybackEvent, QoeSummary } from '@/types/telemetry';
+
+/**
+ * Names of the `MediaError` codes, for logs and the summary
+ */
+export const MEDIA_ERROR_NAMES: Record<number, string> = {
+  1: 'MEDIA_ERR_ABORTED',
+  2: 'MEDIA_ERR_NETWORK',
+  3: 'MEDIA_ERR_DECODE',
+  4: 'MEDIA_ERR_SRC_NOT_SUPPORTED',
+};
+
+/** Longest error message and playback engine name accepted */
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_ENGINE_LENGTH = 32;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+const isShortString = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+/**
+ * Whether a value is a well-formed playback event
+ */
+export function isPlaybackEvent(value: unknown): value is PlaybackEvent {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  if (typeof event.sessionId !== 'string' || !event.sessionId || event.sessionId.length > 64) return false;
+  if (typeof event.titleId !== 'string' || !event.titleId || event.titleId.length > 200) return false;
+  if (!isNumber(event.timestamp) || !isNumber(event.position) || event.position < 0) return false;
+
+  switch (event.type) {
+    case 'startup':
+      return isNumber(event.startupMs) && event.startupMs >= 0;
+    case 'rebuffer':
+      return isNumber(event.durationMs) && event.durationMs >= 0;
+    case 'error':
+      return isNumber(event.code) && (event.message === undefined || isShortString(event.message, MAX_MESSAGE_LENGTH));
+    case 'seek':
+      return isNumber(event.from) && event.from >= 0;
+    case 'bitrate':
+      return isShortString(event.engine, MAX_ENGINE_LENGTH) && isOptionalNumber(event.bitrate) && isOptionalNumber(event.height);
+    case 'watch':
+      return isNumber(event.seconds) && event.seconds >= 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Copy of an event with only the fields of its type, so nothing else a
+ * client sent along is stored
+ */
+export function copyPlaybackEvent(event: PlaybackEvent): PlaybackEvent {
+  const { sessionId, titleId, timestamp, position } = event;
+  const base = { sessionId, titleId, timestamp, position };
+
+  switch (event.type) {
+    case 'startup':
+      return { ...base, type: event.type, startupMs: event.startupMs };
+    case 'rebuffer':
+      return { ...base, type: event.type, durationMs: event.durationMs };
+    case 'error':
+      return { ...base, type: event.type, code: event.code, message: event.message };
+    case 'seek':
+      return { ...base, type: event.type, from: event.from };
+    case 'bitrate':
+      return { ...base, type: event.type, bitrate: event.bitrate, height: event.height, engine: event.engine };
+    case 'watch':
+      return { ...base, type: event.type, seconds: event.seconds };
+  }
+}
+
+/**
+ * Value at a percentile (0-100) of an ascending list, nearest-rank
+ */
+const percentile = (sorted: number[], p: number): number | undefined =>
+  sorted.length === 0 ? undefined : sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+/**
+ * Aggregate one title's events (in any order, from any number of sessions)
+ */
+function summarizeTitle(titleId: string, events: PlaybackEvent[]): QoeSummary {
+  const sessions = new Map<string, PlaybackEvent[]>();
+  for (const event of events) {
+    const sessionEvents = sessions.get(event.sessionId);
+    if (sessionEvents) sessionEvents.push(event);
+    else sessions.set(event.sessionId, [event]);
+  }
+
+  const startupTimes: number[] = [];
+  const errors: Record<string, number> = {};
+  let failedSessions = 0;
+  let rebuffers = 0;
+  let rebufferSeconds = 0;
+  let seeks = 0;
+  let watchSeconds = 0;
+  let bitrateSeconds = 0;
+  let weightedBitrate = 0;
+
+  sessions.forEach((sessionEvents) => {
+    // The rendition on screen applies to the watch time reported after it
+    let bitrate: number | undefined;
+    let failed = false;
+
+    [...sessionEvents]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((event) => {
+        switch (event.type) {
+          case 'startup':
+            startupTimes.push(event.startupMs);
+            break;
+          case 'rebuffer':
+            rebuffers++;
+            rebufferSeconds += event.durationMs / 1000;
+            break;
+          case 'error':
+            errors[event.code] = (errors[event.code] ?? 0) + 1;
+            failed = true;
+            break;
+          case 'seek':
+            seeks++;
+            break;
+          case 'bitrate':
+            bitrate = event.bitrate;
+            break;
+          case 'watch':
+            watchSeconds += event.seconds;
+            if (bitrate) {
+              bitrateSeconds += event.seconds;
+              weightedBitrate += bitrate * event.seconds;
+            }
+            break;
+        }
+      });
+
+    if (failed) failedSessions++;
+  });
+
+  startupTimes.sort((a, b) => a - b);
+  const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+  return {
+    titleId,
+    sessions: sessions.size,
+    startup: {
+      count: startupTimes.length,
+      medianMs: percentile(startupTimes, 50),
+      p95Ms: percentile(startupTimes, 95),
+    },
+    rebuffers: {
+      count: rebuffers,
+      totalSeconds: round(rebufferSeconds),
+      perHour: watchSeconds > 0 ? round((rebuffers / watchSeconds) * 3600) : 0,
+    },
+    rebufferRatio: watchSeconds + rebufferSeconds > 0 ? round(rebufferSeconds / (watchSeconds + rebufferSeconds), 4) : 0,
+    errors,
+    failedSessions,
+    seeks,
+    averageBitrate: bitrateSeconds > 0 ? Math.round(weightedBitrate / bitrateSeconds) : undefined,
+    watchSeconds: round(watchSeconds),
+    lastSeen: events.reduce((latest, { timestamp }) => Math.max(latest, timestamp), 0),
+  };
+}
+
+/**
+ * Quality of experience per title, worst rebuffer ratio first
+ *
+ * @example
+ * ```ts
+ * summarizeQoe(await sink.read());
+ * // [{ titleId: 'dog-man', sessions: 12, rebuffers: { count: 3, ... }, ... }, ...]
+ * ```
+ */
+export function summarizeQoe(events: PlaybackEvent[]): QoeSummary[] {
+  const titles = new Map<string, PlaybackEvent[]>();
+  for (const event of events) {
+    const titleEvents = titles.get(event.titleId);
+    if (titleEvents) titleEvents.push(event);
+    else titles.set(event.titleId, [event]);
+  }
+  return Array.from(titles, ([titleId, titleEvents]) => summarizeTitle(titleId, titleEvents)).sort(
+    (a, b) => b.rebufferRatio - a.rebufferRatio || a.titleId.localeCompare(b.titleId)
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Thumbnail Tracks
+ * Seek bar previews from a WebVTT thumbnails track: each cue's text is an
+ * image URL, usually a tile of a sprite sheet picked out with a media
+ * fragment (`sprite-0.jpg#xywh=160,0,160,90`). Also checks and generates
+ * such tracks for the catalog. Times are in seconds.
+ */
+
+import { formatWebVtt, parseVtt } from './subtitleConversion';
+
+/**
+ * One preview image and the stretch of the title it covers
+ */
+export interface ThumbnailCue {
+  start: number;
+  end: number;
+  /** Image URL, without the fragment, resolved against the track's URL */
+  url: string;
+  /** Tile within the image; absent when the cue shows the whole image */
+  tile?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * A problem found in a thumbnails track
+ */
+export interface ThumbnailTrackIssue {
+  /** 1-based number among the cues with readable timings; absent for problems with the whole file */
+  cue?: number;
+  message: string;
+}
+
+export interface ThumbnailTrackReport {
+  cues: ThumbnailCue[];
+  /** Problems that stop previews from showing correctly */
+  errors: ThumbnailTrackIssue[];
+  /** Problems worth fixing that previews survive */
+  warnings: ThumbnailTrackIssue[];
+}
+
+/** `#xywh=x,y,w,h` with an optional `pixel:` unit */
+const XYWH_FRAGMENT = /#xywh=(?:(pixel|percent):)?([^&]*)$/;
+
+/**
+ * Split a cue's text into its image URL and tile
+ *
+ * @returns The cue, or an error message
+ */
+const readCueTarget = (text: string, baseUrl?: string): Omit<ThumbnailCue, 'start' | 'end'> | string => {
+  if (text.includes('\n')) return 'Cue text must be a single image URL';
+
+  const match = text.match(XYWH_FRAGMENT);
+  const image = match ? text.slice(0, match.index) : text.replace(/#.*$/, '');
+  if (!image) return 'Cue has no image URL';
+
+  let url = image;
+  if (baseUrl) {
+    try {
+      url = new URL(image, baseUrl).toString();
+    } catch {
+      return `"${image}" is not a valid URL`;
+    }
+  }
+  if (!match) return { url };
+
+  if (match[1] === 'percent') return 'Percentage tiles (#xywh=percent:) are not supported; use pixels';
+  const values = match[2].split(',').map((value) => Number(value));
+  if (values.length !== 4 || values.some((value) => !Number.isInteger(value) || value < 0)) {
+    return `"#xywh=${match[2]}" must be four whole, non-negative pixel values`;
+  }
+  const [x, y, width, height] = values;
+  if (width === 0 || height === 0) return 'Tile width and height must be greater than 0';
+  return { url, tile: { x, y, width, height } };
+};
+
+/**
+ * Read a thumbnails track and report what is wrong with it
+ *
+ * @param vtt - Contents of the track
+ * @param options.baseUrl - URL of the track, to resolve relative image URLs against
+ * @param options.duration - Length of the title, to check the track covers all of it
+ */
+export function validateThumbnailTrack(
+  vtt: string,
+  { baseUrl, duration }: { baseUrl?: string; duration?: number } = {}
+): ThumbnailTrackReport {
+  const errors: ThumbnailTrackIssue[] = [];
+  const warnings: ThumbnailTrackIssue[] = [];
+  const cues: ThumbnailCue[] = [];
+
+  if (!/^\uFEFF?WEBVTT(?:[ \t]|\r?\n|$)/.test(vtt)) {
+    errors.push({ message: 'File must start with "WEBVTT"' });
+  }
+
+  const parsed = parseVtt(vtt);
+  const timingLines = vtt.split(/\r?\n/).filter((line) => line.includes('-->')).length;
+  if (timingLines > parsed.length) {
+    errors.push({ message: `${timingLines - parsed.length} cue(s) have unreadable timings or no image URL` });
+  }
+  if (parsed.length === 0) {
+    errors.push({ message: 'Track has no cues' });
+    return { cues, errors, warnings };
+  }
+
+  const tileSizes = new Set<string>();
+  parsed.forEach(({ start, end, text }, index) => {
+    const cue = index + 1;
+    if (end <= start) {
+      errors.push({ cue, message: 'Cue ends before it starts' });
+      return;
+    }
+
+    const target = readCueTarget(text, baseUrl);
+    if (typeof target === 'string') {
+      errors.push({ cue, message: target });
+      return;
+    }
+
+    const previous = cues[cues.length - 1];
+    if (previous && start / 1000 < previous.end) {
+      warnings.push({ cue, message: 'Cue overlaps the one before; the later cue wins' });
+    } else if (previous && start / 1000 > previous.end) {
+      warnings.push({ cue, message: `No preview between ${previous.end}s and ${start / 1000}s` });
+    }
+    if (target.tile) tileSizes.add(`${target.tile.width}x${target.tile.height}`);
+    cues.push({ start: start / 1000, end: end / 1000, ...target });
+  });
+
+  if (tileSizes.size > 1) {
+    warnings.push({ message: `Tiles have different sizes (${[...tileSizes].join(', ')})` });
+  }
+  const last = cues[cues.length - 1];
+  if (duration && last && last.end < duration - (last.end - last.start)) {
+    warnings.push({ message: `Previews stop at ${last.end}s of ${duration}s` });
+  }
+
+  cues.sort((a, b) => a.start - b.start);
+  return { cues, errors, warnings };
+}
+
+/**
+ * Read a thumbnails track, skipping cues that cannot be shown
+ */
+export function parseThumbnailTrack(vtt: string, baseUrl?: string): ThumbnailCue[] {
+  return validateThumbnailTrack(vtt, { baseUrl }).cues;
+}
+
+/**
+ * The preview for a position: the last cue starting at or before it
+ *
+ * @param cues - Cues sorted by start
+ */
+export function findThumbnail(cues: ThumbnailCue[], time: number): ThumbnailCue | undefined {
+  for (let i = cues.length - 1; i >= 0; i--) {
+    if (cues[i].start <= time) return time < cues[i].end ? cues[i] : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Layout of evenly spaced thumbnails tiled row by row into sprite sheets
+ */
+export interface ThumbnailSpriteLayout {
+  /** Length of the title in seconds */
+  duration: number;
+  /** Seconds between thumbnails */
+  interval: number;
+  /** Tile size in pixels */
+  width: number;
+  height: number;
+  /** Tiles per sheet, across and down */
+  columns: number;
+  rows: number;
+  /** URL of a sheet by its 0-based number, e.g. `(n) => \`sprite-${n}.jpg\`` */
+  sheetUrl: (sheet: number) => string;
+}
+
+/**
+ * Write the thumbnails track for sprite sheets laid out as described, e.g.
+ * those made by ffmpeg's `tile` filter
+ *
+ * @example
+ * ```ts
+ * generateThumbnailTrack({
+ *   duration: 600, interval: 10, width: 160, height: 90, columns: 10, rows: 10,
+ *   sheetUrl: (n) => `sprite-${n}.jpg`,
+ * });
+ * // WEBVTT … 00:00:10.000 --> 00:00:20.000\nsprite-0.jpg#xywh=160,0,160,90 …
+ * ```
+ */
+export function generateThumbnailTrack({
+  duration,
+  interval,
+  width,
+  height,
+  columns,
+  rows,
+  sheetUrl,
+}: ThumbnailSpriteLayout): string {
+  const perSheet = columns * rows;
+  const count = Math.ceil(duration / interval);
+
+  const cues = Array.from({ length: count }, (_, index) => {
+    const tile = index % perSheet;
+    const x = (tile % columns) * width;
+    const y = Math.floor(tile / columns) * height;
+    return {
+      start: Math.round(index * interval * 1000),
+      end: Math.round(Math.min(duration, (index + 1) * interval) * 1000),
+      text: `${sheetUrl(Math.floor(index / perSheet))}#xywh=${x},${y},${width},${height}`,
+    };
+  });
+  return formatWebVtt(cues);
+}
@@ -0,0 +1,53 @@
+/**
+ * Title Matching
+ * Finds the catalog entry a spoken title refers to. Both sides go through the
+ * same transcript normalisation, so "fantastic four" matches "Fantastic 4" and
+ * "captain america" matches "Captain America: Brave New World".
+ */
+
+import { Content } from '@/types/content';
+import { normalizeTranscript } from './commandGrammar';
+
+/** Minimum score for a title to count as a match */
+const MIN_SCORE = 0.5;
+
+const tokens = (text: string): string[] => normalizeTranscript(text).split(' ').filter(Boolean);
+
+/**
+ * Score how well a spoken query matches a title, from 0 (unrelated) to 1 (exact)
+ */
+export function scoreTitleMatch(query: string, title: string): number {
+  const spoken = tokens(query).join(' ');
+  const candidate = tokens(title).join(' ');
+  if (!spoken || !candidate) return 0;
+  if (spoken === candidate) return 1;
+
+  // "captain america" for "captain america brave new world": a prefix is a strong hint
+  if (candidate.startsWith(`${spoken} `)) return 0.9;
+  if (candidate.includes(spoken)) return 0.8;
+
+  const spokenTokens = new Set(spoken.split(' '));
+  const titleTokens = new Set(candidate.split(' '));
+  const shared = Array.from(spokenTokens).filter((token) => titleTokens.has(token)).length;
+  return (shared / Math.max(spokenTokens.size, titleTokens.size)) * 0.8;
+}
+
+/**
+ * Pick the best matching item for a spoken title
+ *
+ * @returns The highest scoring item, or null if nothing scores above the threshold
+ */
+export function findBestTitleMatch<T extends Pick<Content, 'title'>>(query: string, items: T[]): T | null {
+  let best: T | null = null;
+  let bestScore = MIN_SCORE;
+
+  for (const item of items) {
+    const score = scoreTitleMatch(query, item.title);
+    if (score > bestScore || (best === null && score === bestScore)) {
+      best = item;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
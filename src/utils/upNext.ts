@@ -0,0 +1,69 @@
+/**
+ * Up Next
+ * What plays after the current title, and when to offer it: the next
+ * episode of a series first, then the viewer's play queue, otherwise the next
+ * title in the catalog they have not finished yet.
+ */
+
+import { Content } from '@/types/content';
+import { PlaybackMarkers } from '@/types/movie';
+import { QueuedTitle } from '@/store/playQueueSlice';
+
+/** Seconds before the end that Up Next appears in titles without a credits marker */
+const UP_NEXT_LEAD_S = 20;
+
+/** Length of the autoplay countdown, in seconds */
+export const UP_NEXT_COUNTDOWN_S = 10;
+
+/**
+ * The title Up Next offers
+ */
+export interface UpNextTitle extends QueuedTitle {
+  /** Whether it comes from the play queue rather than the catalog */
+  fromQueue: boolean;
+  /** Season and episode, e.g. 'S1 E3', when it is the next episode of the series being watched */
+  episode?: string;
+}
+
+/**
+ * Position (seconds) from which Up Next is shown: the start of the end
+ * credits when they are marked, otherwise shortly before the end
+ */
+export function upNextStart(duration: number, markers?: PlaybackMarkers): number {
+  const credits = markers?.credits?.start;
+  if (credits !== undefined && credits < duration) return credits;
+  return Math.max(0, duration - UP_NEXT_LEAD_S);
+}
+
+/**
+ * Choose the title to play after `currentId`
+ *
+ * @param catalog - Every title, in catalog order
+ * @param watched - Ids of titles the viewer has finished
+ * @param nextEpisode - The episode after the current one, which comes before the queue
+ *
+ * @example
+ * ```ts
+ * pickUpNext('thor', [], catalog, new Set(['iron-man']));
+ * // the first unwatched title after Thor in the catalog, wrapping around
+ * ```
+ */
+export function pickUpNext(
+  currentId: string,
+  queue: QueuedTitle[],
+  catalog: Content[],
+  watched: Set<string>,
+  nextEpisode?: UpNextTitle
+): UpNextTitle | undefined {
+  if (nextEpisode) return nextEpisode;
+
+  const queued = queue.find(({ id }) => id !== currentId);
+  if (queued) return { ...queued, fromQueue: true };
+
+  const index = catalog.findIndex(({ id }) => id === currentId);
+  const following = [...catalog.slice(index + 1), ...catalog.slice(0, index + 1)].filter(
+    ({ id }) => id !== currentId
+  );
+  const suggestion = following.find(({ id }) => !watched.has(id)) ?? following[0];
+  return suggestion && { id: suggestion.id, title: suggestion.title, imageUrl: suggestion.imageUrl, fromQueue: false };
+}
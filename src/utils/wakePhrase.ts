@@ -0,0 +1,55 @@
+/**
+ * Wake Phrase Detection
+ * Decides whether a transcript is addressed to the app ("Hey Stream, pause")
+ * and strips the wake phrase so only the command itself is dispatched.
+ */
+
+/**
+ * Default wake phrases, including common mis-recognitions of "Hey Stream"
+ */
+export const DEFAULT_WAKE_PHRASES = ['hey stream', 'hey streams', 'hay stream', 'ok stream', 'okay stream'];
+
+export interface WakePhraseMatch {
+  /** Whether the transcript starts with a wake phrase */
+  matched: boolean;
+  /** Speech following the wake phrase (empty if the wake phrase was said alone) */
+  remainder: string;
+}
+
+const clean = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Check a transcript for a leading wake phrase
+ *
+ * @param transcript - Text from the recogniser
+ * @param wakePhrases - Accepted wake phrases
+ * @returns Whether a wake phrase was found and the command that followed it
+ *
+ * @example
+ * ```ts
+ * matchWakePhrase('Hey Stream, pause the movie'); // { matched: true, remainder: 'pause the movie' }
+ * matchWakePhrase('pause the movie');             // { matched: false, remainder: 'pause the movie' }
+ * ```
+ */
+export function matchWakePhrase(
+  transcript: string,
+  wakePhrases: string[] = DEFAULT_WAKE_PHRASES
+): WakePhraseMatch {
+  const text = clean(transcript);
+
+  for (const phrase of wakePhrases.map(clean)) {
+    if (text === phrase) {
+      return { matched: true, remainder: '' };
+    }
+    if (text.startsWith(`${phrase} `)) {
+      return { matched: true, remainder: text.slice(phrase.length + 1) };
+    }
+  }
+
+  return { matched: false, remainder: text };
+}
@@ -0,0 +1,78 @@
+/**
+ * Watch Progress
+ * When a title counts as finished, when to offer to resume it, and checking
+ * progress records read back from storage or sent to the API.
+ */
+
+import { PlaybackMarkers } from '@/types/movie';
+import { WatchProgress } from '@/types/watchProgress';
+
+/** Share of a title that has to be played for it to count as watched */
+const WATCHED_FRACTION = 0.95;
+
+/** Positions closer than this to the start are not worth resuming */
+const MIN_RESUME_S = 30;
+
+/**
+ * Whether a position counts as having finished the title: into the end
+ * credits when they are marked, otherwise the last 5%
+ */
+export function isFinished(position: number, duration: number, markers?: PlaybackMarkers): boolean {
+  if (!(duration > 0)) return false;
+  if (markers?.credits && position >= markers.credits.start) return true;
+  return position >= duration * WATCHED_FRACTION;
+}
+
+/**
+ * The position to offer "Resume from …" at, if any: titles that were left
+ * part way through, not ones barely started or already finished
+ */
+export function resumePosition(progress: WatchProgress | null): number | undefined {
+  if (!progress || progress.watched || progress.position < MIN_RESUME_S) return undefined;
+  return progress.position;
+}
+
+/**
+ * Fraction of the title played (0-1), for progress bars
+ */
+export function progressFraction({ position, duration }: WatchProgress): number {
+  return duration > 0 ? Math.min(1, Math.max(0, position / duration)) : 0;
+}
+
+/**
+ * Check an untrusted value is a well-formed progress record
+ */
+export function isWatchProgress(value: unknown): value is WatchProgress {
+  const progress = value as WatchProgress;
+  return (
+    typeof progress === 'object' &&
+    progress !== null &&
+    typeof progress.titleId === 'string' &&
+    progress.titleId.length > 0 &&
+    Number.isFinite(progress.position) &&
+    progress.position >= 0 &&
+    Number.isFinite(progress.duration) &&
+    progress.duration > 0 &&
+    Number.isFinite(progress.updatedAt) &&
+    typeof progress.watched === 'boolean'
+  );
+}
+
+/**
+ * The valid records of a parsed progress store, keyed by title id. The
+ * result has no prototype, so ids such as "constructor" or "__proto__" are
+ * ordinary keys rather than inherited properties.
+ */
+export function progressRecords(saved: unknown): Record<string, WatchProgress> {
+  const records: Record<string, WatchProgress> = Object.create(null);
+  if (typeof saved !== 'object' || saved === null) return records;
+  Object.entries(saved).forEach(([titleId, progress]) => {
+    if (isWatchProgress(progress)) records[titleId] = progress;
+  });
+  return records;
+}
+
+/**
+ * Most recently updated first
+ */
+export const byMostRecent = (a: WatchProgress, b: WatchProgress): number => b.updatedAt - a.updatedAt;